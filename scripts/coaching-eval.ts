@@ -0,0 +1,85 @@
+// Runs the coaching golden dataset (evals/coaching-golden.json) in-process and prints the report; no server needed.
+// Usage: npm run eval:coaching -- [--rules-only | --model-only] [--compare <runId>] [--json]
+// Reads .env files like the app. The model half uses the configured provider, so LLM_PROVIDER=replay runs it offline
+// (and in CI) from recorded fixtures. Each run is stored under the data dir and diffed against the previous one.
+// Exits non-zero when the run fails or a case got no model evaluation.
+import { loadEnvConfig } from "@next/env";
+import type { CoachingEvalDiff, CoachingEvaluator, EvaluatorReport } from "@/lib/coachingEval";
+
+loadEnvConfig(process.cwd());
+
+const args = process.argv.slice(2);
+const flag = (name: string) => args.includes(name);
+const option = (name: string) => {
+  const i = args.indexOf(name);
+  return i >= 0 ? args[i + 1] : undefined;
+};
+
+function fail(message: string): never {
+  console.error(`coaching-eval: ${message}`);
+  process.exit(1);
+}
+
+const pct = (value: number | null | undefined) =>
+  value === null || value === undefined ? "  —  " : `${(value * 100).toFixed(0).padStart(3)}%`;
+const signed = (value: number | null, digits = 3) => (value === null ? "—" : `${value > 0 ? "+" : ""}${value.toFixed(digits)}`);
+
+function printReport(report: EvaluatorReport) {
+  const prompt = report.prompt ? `, prompt ${report.prompt.id} v${report.prompt.version}` : "";
+  console.log(`\n== ${report.evaluator}${report.model ? ` (${report.model}${prompt})` : ""} ==`);
+  console.log(`${"flag".padEnd(24)} ${"TP".padStart(3)} ${"FP".padStart(3)} ${"FN".padStart(3)}  precision  recall`);
+  for (const [name, m] of [...Object.entries(report.flags), ["overall", report.overall] as const]) {
+    const row = `${name.padEnd(24)} ${String(m.truePositives).padStart(3)} ${String(m.falsePositives).padStart(3)} ${String(m.falseNegatives).padStart(3)}`;
+    console.log(`${row}  ${pct(m.precision).padStart(9)}  ${pct(m.recall).padStart(6)}`);
+  }
+  const { scored, meanAbsoluteError, withinRange } = report.riskDelta;
+  console.log(`risk delta: ${pct(withinRange).trim()} of ${scored} within range, mean error ${meanAbsoluteError ?? "—"}`);
+  if (report.errors > 0) console.log(`errors: ${report.errors} case(s) got no model evaluation`);
+  for (const c of report.cases.filter((c) => c.error)) console.log(`  ${c.caseId}: ${c.error}`);
+}
+
+function printDiff(diff: CoachingEvalDiff | null) {
+  if (!diff) {
+    console.log("\nNo earlier run to compare with.");
+    return;
+  }
+  console.log(`\nCompared with run ${diff.baseRunId}:`);
+  for (const d of diff.evaluators) {
+    const prompts =
+      d.promptBefore?.version !== d.promptAfter?.version ? ` (prompt v${d.promptBefore?.version ?? "?"} → v${d.promptAfter?.version ?? "?"})` : "";
+    console.log(
+      `  ${d.evaluator}${prompts}: precision ${signed(d.precision)}, recall ${signed(d.recall)}, ` +
+        `within range ${signed(d.withinRange)}, mean error ${signed(d.meanAbsoluteError, 2)}`
+    );
+    for (const c of d.changed) {
+      const parts: string[] = [];
+      if (c.flagsAdded.length) parts.push(`+${c.flagsAdded.join(", +")}`);
+      if (c.flagsRemoved.length) parts.push(`-${c.flagsRemoved.join(", -")}`);
+      if (c.riskDelta) parts.push(`delta ${c.riskDelta.before} → ${c.riskDelta.after}`);
+      if (c.error) parts.push(c.error.after ? `now errors: ${c.error.after}` : "no longer errors");
+      console.log(`    ${c.caseId}: ${parts.join("; ")}`);
+    }
+    if (d.added.length) console.log(`    new cases: ${d.added.join(", ")}`);
+    if (d.removed.length) console.log(`    dropped cases: ${d.removed.join(", ")}`);
+  }
+}
+
+async function main() {
+  // Imported after the env is loaded: the app modules read it when they load
+  const { runAndCompare } = await import("@/lib/coachingEval");
+  const evaluators: CoachingEvaluator[] = flag("--rules-only") ? ["rules"] : flag("--model-only") ? ["model"] : ["rules", "model"];
+  const result = await runAndCompare(evaluators, option("--compare"));
+  if (!result.ok) fail(result.error);
+  const { run, diff } = result.data;
+
+  if (flag("--json")) {
+    console.log(JSON.stringify(result.data, null, 2));
+  } else {
+    console.log(`Run ${run.id} — provider ${run.provider}, dataset v${run.datasetVersion}`);
+    run.reports.forEach(printReport);
+    printDiff(diff);
+  }
+  if (run.reports.some((r) => r.errors > 0)) process.exitCode = 1;
+}
+
+main().catch((e) => fail(e instanceof Error ? e.message : String(e)));
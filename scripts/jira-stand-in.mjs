@@ -0,0 +1,105 @@
+// Local stand-in for the Jira Cloud REST API, for testing the intake exporter without a real Jira site.
+// Usage: npm run jira:stand-in   then set JIRA_BASE_URL=http://localhost:4020, JIRA_PROJECT_KEY=UX and any JIRA_EMAIL and JIRA_API_TOKEN.
+// Every request received is printed; GET /issues returns everything created so far, attachments included.
+import http from "node:http";
+
+const port = Number(process.env.PORT ?? 4020);
+const baseUrl = `http://localhost:${port}`;
+const issues = [];
+let nextId = 10000;
+const counters = {};
+
+function send(res, status, body) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+/** Checks a description the way Jira does at the top level: an ADF doc with version 1 and non-empty text nodes */
+function adfErrors(doc) {
+  if (!doc || doc.type !== "doc" || doc.version !== 1 || !Array.isArray(doc.content)) {
+    return ["description must be an Atlassian Document Format document (type doc, version 1)"];
+  }
+  const errors = [];
+  const walk = (node) => {
+    if (node.type === "text" && !node.text) errors.push("text nodes must not be empty");
+    (node.content ?? []).forEach(walk);
+  };
+  walk(doc);
+  return errors;
+}
+
+/** Just enough multipart parsing to list the uploaded files and their sizes */
+function parseMultipart(buffer, contentType) {
+  const boundary = /boundary=(?:"([^"]+)"|([^;]+))/.exec(contentType ?? "");
+  if (!boundary) return [];
+  const delimiter = `--${boundary[1] ?? boundary[2]}`;
+  return buffer
+    .toString("latin1")
+    .split(delimiter)
+    .slice(1, -1)
+    .map((part) => {
+      const [head, ...body] = part.split("\r\n\r\n");
+      const filename = /filename="([^"]*)"/.exec(head)?.[1];
+      return filename ? { filename, size: Buffer.byteLength(body.join("\r\n\r\n").replace(/\r\n$/, ""), "latin1") } : null;
+    })
+    .filter(Boolean);
+}
+
+const server = http.createServer((req, res) => {
+  const chunks = [];
+  req.on("data", (chunk) => chunks.push(chunk));
+  req.on("end", () => {
+    const url = new URL(req.url, baseUrl);
+    if (req.method === "GET" && url.pathname === "/issues") return send(res, 200, { issues });
+    if (!/^Basic \S+/.test(req.headers.authorization ?? "")) {
+      return send(res, 401, { errorMessages: ["You are not authenticated. Authentication required to perform this operation."] });
+    }
+
+    if (req.method === "POST" && url.pathname === "/rest/api/3/issue") {
+      let body;
+      try {
+        body = JSON.parse(Buffer.concat(chunks).toString("utf8"));
+      } catch {
+        return send(res, 400, { errorMessages: ["Invalid JSON body"] });
+      }
+      console.log("[jira stand-in] create issue", JSON.stringify(body, null, 2));
+      const fields = body.fields ?? {};
+      const errors = {};
+      if (!fields.project?.key) errors.project = "project is required";
+      if (!fields.issuetype?.name) errors.issuetype = "issue type is required";
+      if (!fields.summary?.trim()) errors.summary = "You must specify a summary of the issue.";
+      if (fields.summary?.length > 255) errors.summary = "Summary must be less than 255 characters.";
+      if ((fields.labels ?? []).some((l) => /\s/.test(l))) errors.labels = "The label must not contain spaces.";
+      const adf = adfErrors(fields.description);
+      if (adf.length) errors.description = adf.join("; ");
+      if (Object.keys(errors).length) return send(res, 400, { errorMessages: [], errors });
+
+      const projectKey = fields.project.key;
+      counters[projectKey] = (counters[projectKey] ?? 0) + 1;
+      const issue = { id: String(nextId++), key: `${projectKey}-${counters[projectKey]}`, fields, attachments: [] };
+      issue.self = `${baseUrl}/rest/api/3/issue/${issue.id}`;
+      issues.push(issue);
+      return send(res, 201, { id: issue.id, key: issue.key, self: issue.self });
+    }
+
+    const attach = /^\/rest\/api\/3\/issue\/([^/]+)\/attachments$/.exec(url.pathname);
+    if (req.method === "POST" && attach) {
+      if (req.headers["x-atlassian-token"] !== "no-check") {
+        return send(res, 403, { errorMessages: ["XSRF check failed: send X-Atlassian-Token: no-check"] });
+      }
+      const issue = issues.find((i) => i.key === decodeURIComponent(attach[1]) || i.id === attach[1]);
+      if (!issue) return send(res, 404, { errorMessages: ["Issue does not exist or you do not have permission to see it."] });
+      const files = parseMultipart(Buffer.concat(chunks), req.headers["content-type"]).map((f) => ({
+        id: String(nextId++),
+        ...f,
+      }));
+      console.log(`[jira stand-in] attach to ${issue.key}`, files);
+      issue.attachments.push(...files);
+      return send(res, 200, files);
+    }
+
+    return send(res, 404, { errorMessages: ["Unsupported operation in stand-in server"] });
+  });
+});
+
+server.listen(port, () => console.log(`Jira stand-in listening on ${baseUrl}`));
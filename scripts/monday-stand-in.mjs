@@ -0,0 +1,54 @@
+// Local stand-in for the Monday.com GraphQL API, for testing the intake exporter without a real board.
+// Usage: npm run monday:stand-in   then set MONDAY_API_URL=http://localhost:4010/graphql (plus any token/board id).
+// Every mutation received is printed; GET /items returns everything created so far.
+import http from "node:http";
+
+const port = Number(process.env.PORT ?? 4010);
+const items = [];
+let nextId = 1000;
+
+function send(res, status, body) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+const server = http.createServer((req, res) => {
+  if (req.method === "GET" && req.url === "/items") return send(res, 200, { items });
+  if (req.method !== "POST") return send(res, 404, { error_message: "Not found" });
+
+  let raw = "";
+  req.on("data", (chunk) => (raw += chunk));
+  req.on("end", () => {
+    if (!req.headers.authorization) return send(res, 401, { error_message: "Not Authenticated" });
+    let body;
+    try {
+      body = JSON.parse(raw);
+    } catch {
+      return send(res, 400, { errors: [{ message: "Invalid JSON body" }] });
+    }
+    const { query = "", variables = {} } = body;
+    console.log("[monday stand-in]", query.split("(")[0].trim(), JSON.stringify(variables, null, 2));
+
+    if (query.includes("create_item")) {
+      const item = {
+        id: String(nextId++),
+        boardId: variables.boardId,
+        groupId: variables.groupId,
+        name: variables.itemName,
+        columnValues: JSON.parse(variables.columnValues ?? "{}"),
+        updates: [],
+      };
+      items.push(item);
+      return send(res, 200, { data: { create_item: { id: item.id } } });
+    }
+    if (query.includes("create_update")) {
+      const item = items.find((i) => i.id === String(variables.itemId));
+      if (!item) return send(res, 200, { errors: [{ message: `Item ${variables.itemId} not found` }] });
+      item.updates.push(variables.body);
+      return send(res, 200, { data: { create_update: { id: String(nextId++) } } });
+    }
+    return send(res, 200, { errors: [{ message: "Unsupported operation in stand-in server" }] });
+  });
+});
+
+server.listen(port, () => console.log(`Monday.com stand-in listening on http://localhost:${port}/graphql`));
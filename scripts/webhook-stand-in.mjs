@@ -0,0 +1,43 @@
+// Local stand-in for Slack and Teams incoming webhooks, for testing intake notifications without a workspace.
+// Usage: npm run webhooks:stand-in   then point the webhook env vars at it, e.g.
+//   SLACK_WEBHOOK_URL=http://localhost:4030/slack/intakes  SLACK_STRATEGIC_WEBHOOK_URL=http://localhost:4030/slack/strategic
+//   TEAMS_WEBHOOK_URL=http://localhost:4030/teams/intakes
+// Every message received is printed; GET /messages returns them all, with the path they were posted to.
+import http from "node:http";
+
+const port = Number(process.env.PORT ?? 4030);
+const messages = [];
+
+const server = http.createServer((req, res) => {
+  if (req.method === "GET" && req.url === "/messages") {
+    res.writeHead(200, { "Content-Type": "application/json" });
+    return res.end(JSON.stringify({ messages }));
+  }
+  let raw = "";
+  req.on("data", (chunk) => (raw += chunk));
+  req.on("end", () => {
+    let body;
+    try {
+      body = JSON.parse(raw);
+    } catch {
+      res.writeHead(400, { "Content-Type": "text/plain" });
+      return res.end("invalid_payload");
+    }
+    // Reject payloads the real services would: Slack needs text or blocks, Teams an Adaptive Card attachment
+    const teams = req.url.startsWith("/teams");
+    const valid = teams
+      ? body.attachments?.[0]?.contentType === "application/vnd.microsoft.card.adaptive"
+      : typeof body.text === "string" || Array.isArray(body.blocks);
+    console.log(`[webhook stand-in] ${req.url}`, JSON.stringify(body, null, 2));
+    if (!valid) {
+      res.writeHead(400, { "Content-Type": "text/plain" });
+      return res.end(teams ? "Bad payload: expected an Adaptive Card attachment" : "no_text");
+    }
+    messages.push({ path: req.url, receivedAt: new Date().toISOString(), body });
+    // Slack answers "ok"; Teams Workflows answer 202 with an empty body
+    res.writeHead(teams ? 202 : 200, { "Content-Type": "text/plain" });
+    res.end(teams ? "" : "ok");
+  });
+});
+
+server.listen(port, () => console.log(`Webhook stand-in listening on http://localhost:${port}`));
@@ -0,0 +1,1366 @@
+"use client";
+
+import Link from "next/link";
+import { useState, useEffect, useMemo } from "react";
+import {
+  type SectionKey,
+  type AnySectionKey,
+  type FollowUpQuestions,
+  type IntakeFormDefinition,
+  type CoachingFeedback,
+  type IntakeSummary,
+  type DesignRequestSummary,
+  type ReferenceConcept,
+  type IntakeSubmission,
+  type UploadedDocument,
+  type IntakeDraftState,
+} from "@/app/types";
+import { postForEventStream } from "@/app/readEventStream";
+import { useDraftAutosave } from "@/app/useDraftAutosave";
+import { ExportLinks } from "@/app/components/ExportLinks";
+import { RiskBreakdownPanel } from "@/app/components/RiskBreakdownPanel";
+import { StreamingFields } from "@/app/components/StreamingFields";
+import { SupportingDocumentsStep } from "@/app/components/SupportingDocumentsStep";
+import {
+  PRODUCT_PILLARS,
+  QUARTERS,
+  formatQuarter,
+  quarterYearOptions,
+  type Quarter,
+} from "@/app/intakeOptions";
+import { answerForRole, collectAnswers } from "@/lib/formSections";
+import type { RequesterIntake } from "@/lib/intakeAccess";
+import { DESIGN_REQUEST_SUMMARY_LABELS, REFERENCE_CONCEPT_LABELS, normalizeReferenceConcept } from "@/lib/intakeText";
+import { explainRisk, formatRiskDelta, hasRiskDetails } from "@/lib/risk";
+
+const STEP_OPENING = 0;
+// Documents come before the sections so their text can inform section coaching
+const STEP_DOCUMENTS = 1;
+const STEP_FIRST_SECTION = 2;
+
+const MOCKUP_UPLOAD_PATH = "/api/uploads/";
+
+/** The mockup as the intake API takes it: the upload id, or a data URL kept in drafts from before mockups were uploads */
+function mockupForSubmission(src: string | null): string | undefined {
+  if (src?.startsWith(MOCKUP_UPLOAD_PATH)) return src.slice(MOCKUP_UPLOAD_PATH.length);
+  // Provider links in old drafts are no longer accepted, so the intake goes without them
+  return src?.startsWith("data:image/") ? src : undefined;
+}
+
+/** Step indexes after the sections, which depend on how many sections the form defines */
+function getStepLayout(sectionCount: number) {
+  const stepLastSection = STEP_FIRST_SECTION + sectionCount - 1;
+  return {
+    stepLastSection,
+    stepSummary: stepLastSection + 1,
+    stepOfferVisual: stepLastSection + 2,
+    stepVisualConcept: stepLastSection + 3,
+    stepFinal: stepLastSection + 4,
+    /** Steps where the requester provides input (opening, documents, sections) */
+    inputStepCount: stepLastSection + 1,
+  };
+}
+
+function KeyElementsList({ items }: { items: string[] }) {
+  if (items.length === 0) return <>—</>;
+  return (
+    <ul className="list-disc list-inside space-y-1">
+      {items.map((item, i) => (
+        <li key={i}>{item}</li>
+      ))}
+    </ul>
+  );
+}
+
+/** The requester-facing intake wizard; risk details only appear when the server says the viewer may see them */
+export function IntakeWizard({ canSeeRisk, userId }: { canSeeRisk: boolean; userId: string }) {
+  const [form, setForm] = useState<IntakeFormDefinition | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [currentStep, setCurrentStep] = useState(0);
+  const [openingResponse, setOpeningResponse] = useState("");
+  const [productPillar, setProductPillar] = useState("");
+  const [quarter, setQuarter] = useState<Quarter | "">("");
+  const [quarterYear, setQuarterYear] = useState(() => new Date().getFullYear());
+  const [supportingDocuments, setSupportingDocuments] = useState<UploadedDocument[]>([]);
+  const [sectionValues, setSectionValues] = useState<Record<SectionKey, string>>({});
+  const [feedbacks, setFeedbacks] = useState<Record<number, CoachingFeedback>>({});
+  const [evaluatedInputs, setEvaluatedInputs] = useState<Record<number, string>>({});
+  const [loading, setLoading] = useState(false);
+  /** Feedback text streamed so far while an answer is evaluated */
+  const [streamingFeedback, setStreamingFeedback] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [designRequestSummary, setDesignRequestSummary] = useState<DesignRequestSummary | null>(null);
+  const [summaryLoading, setSummaryLoading] = useState(false);
+  const [summaryDraft, setSummaryDraft] = useState<Record<string, string>>({});
+  const [summaryError, setSummaryError] = useState<string | null>(null);
+  const [wantsVisualConcept, setWantsVisualConcept] = useState<boolean | null>(null);
+  const [referenceConcept, setReferenceConcept] = useState<ReferenceConcept | null>(null);
+  const [conceptLoading, setConceptLoading] = useState(false);
+  const [conceptDraft, setConceptDraft] = useState<Record<string, string>>({});
+  const [conceptError, setConceptError] = useState<string | null>(null);
+  const [showUxView, setShowUxView] = useState(false);
+  const [followUpQuestions, setFollowUpQuestions] = useState<Record<SectionKey, FollowUpQuestions>>({});
+  const [followUpLoading, setFollowUpLoading] = useState(false);
+  const [followUpErrors, setFollowUpErrors] = useState<Record<SectionKey, string>>({});
+  const [mockupImage, setMockupImage] = useState<string | null>(null);
+  const [mockupLoading, setMockupLoading] = useState(false);
+  const [mockupError, setMockupError] = useState<string | null>(null);
+  const [submittedIntake, setSubmittedIntake] = useState<RequesterIntake | { id: string } | null>(null);
+  const [submitLoading, setSubmitLoading] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  const riskBreakdown = useMemo(
+    () =>
+      explainRisk(
+        Object.keys(feedbacks)
+          .map(Number)
+          .sort((a, b) => a - b)
+          .map((step) => feedbacks[step])
+          .filter(hasRiskDetails)
+      ),
+    [feedbacks]
+  );
+  const { riskScore, flags: riskFlags } = riskBreakdown;
+  const documentIds = useMemo(() => supportingDocuments.map((d) => d.id), [supportingDocuments]);
+  const answers = useMemo(
+    () => (form ? collectAnswers(form, openingResponse, sectionValues) : []),
+    [form, openingResponse, sectionValues]
+  );
+  const { stepLastSection, stepSummary, stepOfferVisual, stepVisualConcept, stepFinal, inputStepCount } =
+    getStepLayout(form?.sections.length ?? 0);
+  const isInSections = form !== null && currentStep >= STEP_FIRST_SECTION && currentStep <= stepLastSection;
+  const sectionIndex = currentStep - STEP_FIRST_SECTION;
+  const section = isInSections ? form.sections[sectionIndex] : null;
+  const sectionFeedback = section !== null ? feedbacks[currentStep] : undefined;
+
+  useEffect(() => {
+    fetch("/api/form-definition")
+      .then(async (res) => {
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error((data as { error?: string }).error || "Could not load the intake form");
+        setForm(data as IntakeFormDefinition);
+      })
+      .catch((e) => setFormError(e instanceof Error ? e.message : "Could not load the intake form"));
+  }, []);
+
+  const resetWizard = () => {
+    setCurrentStep(0);
+    setOpeningResponse("");
+    setProductPillar("");
+    setQuarter("");
+    setQuarterYear(new Date().getFullYear());
+    setSupportingDocuments([]);
+    setSectionValues({});
+    setFeedbacks({});
+    setEvaluatedInputs({});
+    setError(null);
+    setDesignRequestSummary(null);
+    setSummaryError(null);
+    setWantsVisualConcept(null);
+    setReferenceConcept(null);
+    setConceptError(null);
+    setShowUxView(false);
+    setFollowUpQuestions({});
+    setFollowUpErrors({});
+    setMockupImage(null);
+    setMockupError(null);
+    setSubmittedIntake(null);
+    setSubmitError(null);
+  };
+
+  const draftState: IntakeDraftState = useMemo(
+    () => ({
+      currentStep,
+      openingResponse,
+      productPillar,
+      quarter,
+      quarterYear,
+      supportingDocuments,
+      sectionValues,
+      feedbacks,
+      evaluatedInputs,
+      followUpQuestions,
+      designRequestSummary,
+      wantsVisualConcept,
+      referenceConcept,
+      mockupImage,
+    }),
+    [
+      currentStep,
+      openingResponse,
+      productPillar,
+      quarter,
+      quarterYear,
+      supportingDocuments,
+      sectionValues,
+      feedbacks,
+      evaluatedInputs,
+      followUpQuestions,
+      designRequestSummary,
+      wantsVisualConcept,
+      referenceConcept,
+      mockupImage,
+    ]
+  );
+
+  const applyDraft = (saved: IntakeDraftState) => {
+    setCurrentStep(saved.currentStep);
+    setOpeningResponse(saved.openingResponse);
+    setProductPillar(saved.productPillar);
+    setQuarter((QUARTERS as readonly string[]).includes(saved.quarter) ? (saved.quarter as Quarter) : "");
+    setQuarterYear(saved.quarterYear);
+    setSupportingDocuments(saved.supportingDocuments ?? []);
+    setSectionValues((prev) => ({ ...prev, ...saved.sectionValues }));
+    setFeedbacks(saved.feedbacks ?? {});
+    setEvaluatedInputs(saved.evaluatedInputs ?? {});
+    setFollowUpQuestions(saved.followUpQuestions ?? {});
+    setDesignRequestSummary(saved.designRequestSummary);
+    setWantsVisualConcept(saved.wantsVisualConcept);
+    setReferenceConcept(saved.referenceConcept && normalizeReferenceConcept(saved.referenceConcept));
+    setMockupImage(saved.mockupImage);
+  };
+
+  const autosave = useDraftAutosave(draftState, applyDraft, submittedIntake === null, userId);
+  const { discardDraft } = autosave;
+  const [resumeLinkCopied, setResumeLinkCopied] = useState(false);
+
+  const handleReset = () => {
+    const inProgress = submittedIntake === null && (currentStep > STEP_OPENING || openingResponse.trim().length > 0);
+    if (
+      inProgress &&
+      !window.confirm("Start over? Your current answers stay available from your resume link, but this page will be cleared.")
+    ) {
+      return;
+    }
+    resetWizard();
+    autosave.startNewDraft();
+  };
+
+  const copyResumeLink = () => {
+    if (!autosave.resumeUrl) return;
+    navigator.clipboard
+      .writeText(autosave.resumeUrl)
+      .then(() => {
+        setResumeLinkCopied(true);
+        setTimeout(() => setResumeLinkCopied(false), 2000);
+      })
+      .catch(() => window.prompt("Copy your resume link:", autosave.resumeUrl ?? ""));
+  };
+
+  const draftStatus = autosave.resumeUrl ? (
+    <p className="text-xs text-slate-500 mt-2">
+      {autosave.saveStatus === "saving"
+        ? "Saving draft…"
+        : autosave.saveStatus === "error"
+          ? "Draft saved on this device only."
+          : "Draft saved."}{" "}
+      <button type="button" onClick={copyResumeLink} className="underline hover:text-cyan-400">
+        {resumeLinkCopied ? "Link copied" : "Copy resume link"}
+      </button>{" "}
+      to come back later.
+    </p>
+  ) : null;
+
+  const streamingFeedbackBox =
+    loading && streamingFeedback ? (
+      <div className="rounded-xl border border-cyan-500/30 bg-cyan-500/10 p-4 space-y-2" aria-live="polite" aria-busy="true">
+        <p className="text-sm font-medium text-cyan-200">Feedback</p>
+        <p className="text-sm text-cyan-100/90 whitespace-pre-wrap">
+          {streamingFeedback}
+          <span className="ml-0.5 inline-block h-3.5 w-1.5 animate-pulse bg-cyan-300/70 align-middle" />
+        </p>
+      </div>
+    ) : null;
+
+  // Generate Design Request Summary when reaching step 4
+  useEffect(() => {
+    if (currentStep !== stepSummary || designRequestSummary !== null || summaryLoading) return;
+    setSummaryError(null);
+    setSummaryLoading(true);
+    setSummaryDraft({});
+    postForEventStream<DesignRequestSummary>(
+      "/api/generate-summary",
+      { answers, documentIds },
+      {
+        idleTimeoutMs: 30_000,
+        onDelta: (field, text) => setSummaryDraft((prev) => ({ ...prev, [field]: (prev[field] ?? "") + text })),
+        onFallback: () => setSummaryDraft({}),
+      }
+    )
+      .then((data) => {
+        if (data && typeof data.problem === "string") {
+          setDesignRequestSummary(data);
+        } else {
+          setSummaryError("Could not generate summary.");
+        }
+      })
+      .catch((e) => {
+        if ((e as Error).name === "AbortError") {
+          setSummaryError("Request timed out. Try again.");
+        } else {
+          setSummaryError(e instanceof Error ? e.message : "Failed to generate summary.");
+        }
+      })
+      .finally(() => {
+        setSummaryLoading(false);
+        setSummaryDraft({});
+      });
+  }, [currentStep, stepSummary, designRequestSummary, summaryLoading, answers, documentIds]);
+
+  // Generate follow-up questions for sections that ask for them, based on what was shared before
+  useEffect(() => {
+    if (!form || !section?.followUpQuestions) return;
+    const earlier = collectAnswers({ ...form, sections: form.sections.slice(0, sectionIndex) }, openingResponse, sectionValues);
+    if (earlier.length === 0) return;
+    if (followUpQuestions[section.id] || followUpErrors[section.id] || followUpLoading) return;
+
+    const sectionId = section.id;
+    setFollowUpLoading(true);
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 25_000);
+    fetch("/api/generate-follow-up-questions", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ answers: earlier, section: sectionId, documentIds }),
+      signal: controller.signal,
+    })
+      .then((res) => {
+        if (!res.ok) throw new Error(res.status === 502 ? "Could not generate questions. Using default prompts." : "Request failed");
+        return res.json();
+      })
+      .then((data: FollowUpQuestions) => {
+        if (data?.intro != null && Array.isArray(data.questions)) {
+          setFollowUpQuestions((prev) => ({ ...prev, [sectionId]: { intro: data.intro, questions: data.questions } }));
+        }
+      })
+      .catch(() => {
+        setFollowUpErrors((prev) => ({ ...prev, [sectionId]: "Using default prompts." }));
+      })
+      .finally(() => {
+        clearTimeout(timeoutId);
+        setFollowUpLoading(false);
+      });
+  }, [form, section, sectionIndex, openingResponse, sectionValues, followUpQuestions, followUpErrors, followUpLoading, documentIds]);
+
+  // Generate Reference Concept when user said Yes and we're on visual concept step (or when on Final and we skipped visual, so we still have reference concept for summary)
+  useEffect(() => {
+    const shouldGenerate =
+      (currentStep === stepVisualConcept && wantsVisualConcept === true) ||
+      (currentStep === stepFinal && wantsVisualConcept === false);
+    if (
+      !shouldGenerate ||
+      !designRequestSummary ||
+      referenceConcept !== null ||
+      conceptLoading
+    )
+      return;
+    setConceptError(null);
+    setConceptLoading(true);
+    setConceptDraft({});
+    postForEventStream<ReferenceConcept>("/api/generate-visual-concept", designRequestSummary, {
+      idleTimeoutMs: 35_000,
+      onDelta: (field, text) => setConceptDraft((prev) => ({ ...prev, [field]: (prev[field] ?? "") + text })),
+      onFallback: () => setConceptDraft({}),
+    })
+      .then((data) => {
+        if (data && typeof data.experienceGoal === "string") {
+          setReferenceConcept(data);
+        } else {
+          setConceptError("Could not generate visual concept.");
+        }
+      })
+      .catch((e) => {
+        if ((e as Error).name === "AbortError") {
+          setConceptError("Request timed out. Try again.");
+        } else {
+          setConceptError(e instanceof Error ? e.message : "Failed to generate concept.");
+        }
+      })
+      .finally(() => {
+        setConceptLoading(false);
+        setConceptDraft({});
+      });
+  }, [currentStep, stepVisualConcept, stepFinal, designRequestSummary, wantsVisualConcept, referenceConcept, conceptLoading]);
+
+  // Generate mockup image only when user said Yes and we're on visual concept step (run once; don't retry on error to avoid flicker loop)
+  useEffect(() => {
+    if (
+      currentStep !== stepVisualConcept ||
+      wantsVisualConcept !== true ||
+      !designRequestSummary ||
+      mockupImage !== null ||
+      mockupLoading ||
+      mockupError !== null
+    )
+      return;
+    const intentSummary = [
+      designRequestSummary.problem,
+      designRequestSummary.desiredOutcome,
+      designRequestSummary.constraints,
+    ]
+      .filter(Boolean)
+      .join(" ");
+    const objectives = (form && answerForRole(form, sectionValues, "objectives")) || undefined;
+    setMockupError(null);
+    setMockupLoading(true);
+    fetch("/api/generate-mockup", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ intentSummary, objectives }),
+    })
+      .then((res) => res.json())
+      .then((data: { uploadId?: string; error?: string }) => {
+        if (data?.uploadId) {
+          setMockupImage(`${MOCKUP_UPLOAD_PATH}${data.uploadId}`);
+        } else if (data?.error) {
+          setMockupError(data.error);
+        }
+      })
+      .catch(() => setMockupError("Mockup generation failed"))
+      .finally(() => setMockupLoading(false));
+  }, [currentStep, stepVisualConcept, form, designRequestSummary, wantsVisualConcept, sectionValues, mockupImage, mockupLoading, mockupError]);
+
+  /** Drop generated content that depended on an answer the requester has since changed */
+  const invalidateGeneratedContent = (changedStep: number) => {
+    // Follow-up questions for later sections were built from this answer
+    setFollowUpQuestions((prev) => {
+      const kept: Record<SectionKey, FollowUpQuestions> = {};
+      form?.sections.forEach((s, i) => {
+        if (STEP_FIRST_SECTION + i <= changedStep && prev[s.id]) kept[s.id] = prev[s.id];
+      });
+      return kept;
+    });
+    setFollowUpErrors({});
+    setDesignRequestSummary(null);
+    setSummaryError(null);
+    setReferenceConcept(null);
+    setConceptError(null);
+    setMockupImage(null);
+    setMockupError(null);
+  };
+
+  /** Evaluate the answer for a step, replacing any earlier evaluation of it */
+  const evaluateStep = async (step: number, sectionName: AnySectionKey, value: string) => {
+    setError(null);
+    setLoading(true);
+    setStreamingFeedback("");
+    try {
+      const data = await postForEventStream<CoachingFeedback>(
+        "/api/evaluate-section",
+        { section: sectionName, input: value, documentIds },
+        {
+          idleTimeoutMs: 30_000,
+          onDelta: (field, text) => {
+            if (field === "feedback") setStreamingFeedback((prev) => prev + text);
+          },
+          onFallback: () => setStreamingFeedback(""),
+        }
+      );
+      const isReevaluation = feedbacks[step] !== undefined;
+      setFeedbacks((prev) => ({ ...prev, [step]: data }));
+      setEvaluatedInputs((prev) => ({ ...prev, [step]: value }));
+      if (isReevaluation) invalidateGeneratedContent(step);
+    } catch (e) {
+      setError(
+        e instanceof Error && (e as Error).name === "AbortError"
+          ? "Request timed out. Please try again."
+          : e instanceof Error
+            ? e.message
+            : "Something went wrong"
+      );
+    } finally {
+      setLoading(false);
+      setStreamingFeedback("");
+    }
+  };
+
+  const handleNext = async () => {
+    if (currentStep === STEP_OPENING || (isInSections && section)) {
+      const sectionName: AnySectionKey = section?.id ?? "Opening";
+      const value = (section ? sectionValues[section.id] : openingResponse)?.trim() || "";
+      if (!value && section && !section.required) {
+        // Optional section left empty: drop any earlier evaluation of it and move on
+        if (feedbacks[currentStep] !== undefined) {
+          const remainingFeedbacks = { ...feedbacks };
+          const remainingInputs = { ...evaluatedInputs };
+          delete remainingFeedbacks[currentStep];
+          delete remainingInputs[currentStep];
+          setFeedbacks(remainingFeedbacks);
+          setEvaluatedInputs(remainingInputs);
+          invalidateGeneratedContent(currentStep);
+        }
+        setError(null);
+        setCurrentStep(currentStep + 1);
+        return;
+      }
+      if (!value) {
+        setError(
+          section
+            ? "Please provide a response before continuing."
+            : "Please share the project name and whether it's a new initiative or part of an existing product."
+        );
+        return;
+      }
+      // Evaluated and unchanged since: move on. Otherwise (first visit or edited) evaluate again.
+      if (feedbacks[currentStep] && evaluatedInputs[currentStep] === value) {
+        setError(null);
+        setCurrentStep(
+          currentStep === STEP_OPENING ? STEP_DOCUMENTS : currentStep === stepLastSection ? stepSummary : currentStep + 1
+        );
+        return;
+      }
+      await evaluateStep(currentStep, sectionName, value);
+      return;
+    }
+
+    if (currentStep === stepSummary) {
+      setCurrentStep(stepOfferVisual);
+      return;
+    }
+
+    if (currentStep === stepVisualConcept) {
+      setCurrentStep(stepFinal);
+      return;
+    }
+  };
+
+  const handleBack = () => {
+    setError(null);
+    if (currentStep === stepFinal && wantsVisualConcept !== true) {
+      setCurrentStep(stepOfferVisual);
+      return;
+    }
+    setCurrentStep((prev) => Math.max(STEP_OPENING, prev - 1));
+  };
+
+  /** True when the answer on a step was edited after its feedback was generated */
+  const isEditedSinceEvaluation = (step: number, value: string) =>
+    feedbacks[step] !== undefined && evaluatedInputs[step] !== value.trim();
+
+  const handleOfferVisual = (yes: boolean) => {
+    setWantsVisualConcept(yes);
+    if (yes) {
+      setCurrentStep(stepVisualConcept);
+    } else {
+      setCurrentStep(stepFinal);
+    }
+  };
+
+  const summary: IntakeSummary = useMemo(
+    () => ({
+      problem_statement: openingResponse.trim() || "",
+      desired_outcome: form ? answerForRole(form, sectionValues, "objectives") : "",
+      risk_score: riskScore,
+      flags: riskFlags,
+      product_pillar: productPillar || undefined,
+      quarter_slated_for: quarter ? formatQuarter(quarter, quarterYear) : undefined,
+      supporting_documents: documentIds.length > 0 ? documentIds : undefined,
+      designRequestSummary: designRequestSummary || undefined,
+      referenceConcept: referenceConcept || undefined,
+    }),
+    [
+      form,
+      openingResponse,
+      sectionValues,
+      riskScore,
+      riskFlags,
+      productPillar,
+      quarter,
+      quarterYear,
+      documentIds,
+      designRequestSummary,
+      referenceConcept,
+    ]
+  );
+
+  const { recommendedAction } = riskBreakdown;
+
+  // Persist the intake once we reach the final step and the reference concept (if any) has settled
+  useEffect(() => {
+    if (
+      currentStep !== stepFinal ||
+      conceptLoading ||
+      (designRequestSummary !== null && referenceConcept === null && conceptError === null) ||
+      submittedIntake !== null ||
+      submitLoading ||
+      submitError !== null
+    )
+      return;
+    const submission: IntakeSubmission = {
+      opening: openingResponse.trim(),
+      sectionValues,
+      feedbacks: Object.keys(feedbacks)
+        .map(Number)
+        .sort((a, b) => a - b)
+        .map((step) => feedbacks[step]),
+      summary,
+      mockupImage: mockupForSubmission(mockupImage),
+    };
+    setSubmitLoading(true);
+    fetch("/api/intakes", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(submission),
+    })
+      .then(async (res) => {
+        const data = await res.json().catch(() => ({}));
+        if (!res.ok) throw new Error((data as { error?: string }).error || "Submission failed");
+        setSubmittedIntake(data as RequesterIntake);
+        discardDraft();
+      })
+      .catch((e) => setSubmitError(e instanceof Error ? e.message : "Submission failed"))
+      .finally(() => setSubmitLoading(false));
+  }, [
+    currentStep,
+    stepFinal,
+    conceptLoading,
+    conceptError,
+    referenceConcept,
+    designRequestSummary,
+    submittedIntake,
+    submitLoading,
+    submitError,
+    openingResponse,
+    sectionValues,
+    feedbacks,
+    summary,
+    mockupImage,
+    discardDraft,
+  ]);
+
+  const progressStep = currentStep + 1;
+
+  const stepHeader = (heading: string) => (
+    <div className="mb-6 flex items-start justify-between gap-4">
+      <div className="min-w-0">
+        <h1 className="text-2xl font-bold text-slate-100">Design Intake Assistant</h1>
+        <p className="text-slate-400 text-sm mt-1">
+          Step {currentStep + 1} of {inputStepCount} — {heading}
+        </p>
+        <div className="mt-2 h-2 rounded-full overflow-hidden bg-slate-700/60">
+          <div
+            className="h-full rounded-full bg-gradient-to-r from-cyan-500 to-blue-600 transition-all duration-300"
+            style={{ width: `${(progressStep / inputStepCount) * 100}%` }}
+          />
+        </div>
+        {draftStatus}
+      </div>
+      <button type="button" onClick={handleReset} className="btn-ghost shrink-0">
+        Reset
+      </button>
+    </div>
+  );
+
+  if (!form) {
+    return (
+      <div className="max-w-4xl mx-auto p-6">
+        <div className="glass-card p-8 shadow-2xl shadow-slate-900/50">
+          {formError ? (
+            <p className="text-sm text-red-300 bg-red-500/20 border border-red-500/40 px-3 py-2 rounded-xl">{formError}</p>
+          ) : (
+            <p className="text-slate-400">Loading intake form…</p>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  // —— Step 0: Opening ——
+  if (currentStep === STEP_OPENING) {
+    const openingFeedback = feedbacks[STEP_OPENING];
+    const openingEdited = isEditedSinceEvaluation(STEP_OPENING, openingResponse);
+    return (
+      <div className="max-w-4xl mx-auto p-6">
+        <div className="glass-card p-8 space-y-6 shadow-2xl shadow-slate-900/50">
+          <div className="flex items-start justify-between gap-4">
+            <h1 className="text-2xl font-bold text-slate-100">Design Intake Assistant</h1>
+            <button type="button" onClick={handleReset} className="btn-ghost shrink-0">
+              Reset
+            </button>
+          </div>
+          <div className="space-y-4 text-slate-300 text-sm leading-relaxed">
+            <p className="whitespace-pre-wrap">{form.opening.welcome}</p>
+            <p className="text-xs text-slate-500">
+              Prefer to talk it through?{" "}
+              <Link href="/chat" className="underline hover:text-cyan-400">
+                Switch to chat mode
+              </Link>
+            </p>
+            {draftStatus}
+          </div>
+          <div>
+            <label htmlFor="opening" className="block text-sm font-medium text-slate-400 mb-2">
+              {form.opening.prompt}
+            </label>
+            <textarea
+              id="opening"
+              value={openingResponse}
+              onChange={(e) => setOpeningResponse(e.target.value)}
+              placeholder={form.opening.placeholder}
+              rows={8}
+              className="w-full rounded-xl border border-slate-500/50 bg-slate-800/50 px-3 py-2 text-slate-100 placeholder-slate-500 focus:border-cyan-400/60 focus:outline-none focus:ring-2 focus:ring-cyan-400/30 disabled:opacity-60"
+              disabled={loading}
+            />
+          </div>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div>
+              <label htmlFor="product-pillar" className="block text-sm font-medium text-slate-400 mb-2">
+                Which product pillar does this belong to?
+              </label>
+              <select
+                id="product-pillar"
+                value={productPillar}
+                onChange={(e) => setProductPillar(e.target.value)}
+                className="w-full rounded-xl border border-slate-500/50 bg-slate-800/50 px-3 py-2 text-slate-100 focus:border-cyan-400/60 focus:outline-none focus:ring-2 focus:ring-cyan-400/30"
+                disabled={loading}
+              >
+                <option value="">Select a pillar…</option>
+                {PRODUCT_PILLARS.map((p) => (
+                  <option key={p} value={p}>
+                    {p}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="quarter" className="block text-sm font-medium text-slate-400 mb-2">
+                Which quarter is it slated for?
+              </label>
+              <div className="flex gap-2">
+                <select
+                  id="quarter"
+                  value={quarter}
+                  onChange={(e) => setQuarter(e.target.value as Quarter | "")}
+                  className="flex-1 rounded-xl border border-slate-500/50 bg-slate-800/50 px-3 py-2 text-slate-100 focus:border-cyan-400/60 focus:outline-none focus:ring-2 focus:ring-cyan-400/30"
+                  disabled={loading}
+                >
+                  <option value="">Not sure yet</option>
+                  {QUARTERS.map((q) => (
+                    <option key={q} value={q}>
+                      {q}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  aria-label="Year"
+                  value={quarterYear}
+                  onChange={(e) => setQuarterYear(Number(e.target.value))}
+                  className="rounded-xl border border-slate-500/50 bg-slate-800/50 px-3 py-2 text-slate-100 focus:border-cyan-400/60 focus:outline-none focus:ring-2 focus:ring-cyan-400/30 disabled:opacity-60"
+                  disabled={loading || !quarter}
+                >
+                  {quarterYearOptions().map((y) => (
+                    <option key={y} value={y}>
+                      {y}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          </div>
+          {streamingFeedbackBox}
+          {openingFeedback && !streamingFeedbackBox && (
+            <div className="rounded-xl border border-cyan-500/30 bg-cyan-500/10 p-4 space-y-2">
+              {openingFeedback.openaiError && (
+                <div className="rounded-lg border border-amber-500/50 bg-amber-500/10 px-3 py-2 text-sm text-amber-200">
+                  <span className="font-medium">OpenAI unavailable (showing placeholder):</span>{" "}
+                  {openingFeedback.openaiError}
+                </div>
+              )}
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm font-medium text-cyan-200">Feedback</p>
+                {openingFeedback.source === "openai" && (
+                  <span className="text-[10px] font-medium uppercase tracking-wider text-cyan-400/90 bg-cyan-500/20 px-2 py-0.5 rounded">
+                    AI
+                  </span>
+                )}
+              </div>
+              <p className="text-sm text-cyan-100/90">{openingFeedback.feedback}</p>
+              {openingFeedback.suggestedImprovements.length > 0 && (
+                <>
+                  <p className="text-sm font-medium text-cyan-200 mt-2">Suggested improvements</p>
+                  <ul className="list-disc list-inside text-sm text-cyan-100/80 space-y-1">
+                    {openingFeedback.suggestedImprovements.map((s, i) => (
+                      <li key={i}>{s}</li>
+                    ))}
+                  </ul>
+                </>
+              )}
+              {canSeeRisk && openingFeedback.riskDelta !== undefined && (
+                <p className="text-xs text-cyan-200/70 mt-2">
+                  Risk delta: {formatRiskDelta(openingFeedback.riskDelta)} → Risk score: {riskScore}
+                </p>
+              )}
+            </div>
+          )}
+          {error && (
+            <p className="text-sm text-red-300 bg-red-500/20 border border-red-500/40 px-3 py-2 rounded-xl">
+              {error}
+            </p>
+          )}
+          {openingEdited && (
+            <p className="text-xs text-slate-400">You&apos;ve edited your answer — we&apos;ll take another look when you continue.</p>
+          )}
+          <div className="flex justify-end pt-2">
+            <button
+              type="button"
+              onClick={handleNext}
+              disabled={loading}
+              className="btn-gradient rounded-xl px-4 py-2 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {loading ? "Getting feedback…" : openingEdited ? "Re-check" : "Next"}
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // —— Section steps ——
+  if (isInSections && section) {
+    const sectionValue = sectionValues[section.id] ?? "";
+    const sectionEdited = isEditedSinceEvaluation(currentStep, sectionValue);
+    const earlierAnswers = answers.filter(
+      (a) => a.section === "Opening" || form.sections.findIndex((s) => s.id === a.section) < sectionIndex
+    );
+    const generated = section.followUpQuestions ? followUpQuestions[section.id] : undefined;
+    const generating = !!section.followUpQuestions && followUpLoading;
+    const followUpError = section.followUpQuestions ? followUpErrors[section.id] : undefined;
+    const canSkip = !section.required && !sectionValue.trim();
+    return (
+      <div className="max-w-4xl mx-auto p-6">
+        {stepHeader(section.heading)}
+
+        <div className="glass-card p-6 space-y-4 shadow-2xl shadow-slate-900/50">
+          {earlierAnswers.length > 0 ? (
+            <>
+              <p className="text-slate-400 text-sm font-medium">So far we have:</p>
+              <div className="space-y-2 text-sm">
+                {earlierAnswers.map((a) => (
+                  <div key={a.section} className="rounded-xl border border-slate-500/40 bg-slate-800/40 px-4 py-2 text-slate-200">
+                    <span className="text-slate-500 font-medium">{a.section === "Opening" ? "Basics" : a.heading}: </span>
+                    <span className="whitespace-pre-wrap">{a.value.slice(0, 200)}
+                      {a.value.length > 200 ? "…" : ""}</span>
+                  </div>
+                ))}
+              </div>
+              {generating && (
+                <p className="text-slate-400 text-sm">Generating follow-up questions based on what you shared…</p>
+              )}
+              {!generating && generated && (
+                <>
+                  <p className="text-slate-300 text-sm mt-2">{generated.intro}</p>
+                  <p className="text-slate-400 text-sm font-medium mt-2">Could you share a bit more about:</p>
+                </>
+              )}
+              {!generating && !generated && followUpError && (
+                <>
+                  <p className="text-slate-300 text-sm mt-2">{section.intro}</p>
+                  <p className="text-slate-500 text-xs mt-1">{followUpError}</p>
+                </>
+              )}
+              {!generating && !generated && !followUpError && (
+                <p className="text-slate-300 text-sm mt-2">{section.contextIntro ?? section.intro}</p>
+              )}
+            </>
+          ) : (
+            <p className="text-slate-300 text-sm">{section.intro}</p>
+          )}
+          <ul className="list-disc list-inside space-y-1 pl-1 text-slate-400 text-sm">
+            {generating
+              ? null
+              : (generated?.questions ?? section.prompts).map((p, i) => (
+                  <li key={i}>{p}</li>
+                ))}
+          </ul>
+          <div>
+            <label htmlFor="section-input" className="sr-only">
+              Your response
+            </label>
+            <textarea
+              id="section-input"
+              value={sectionValue}
+              onChange={(e) =>
+                setSectionValues((prev) => ({ ...prev, [section.id]: e.target.value }))
+              }
+              placeholder={section.placeholder ?? "Share what you know..."}
+              rows={12}
+              className="w-full rounded-xl border border-slate-500/50 bg-slate-800/50 px-3 py-2 text-slate-100 placeholder-slate-500 focus:border-cyan-400/60 focus:outline-none focus:ring-2 focus:ring-cyan-400/30 disabled:opacity-60"
+              disabled={loading}
+            />
+            {section.hint && <p className="mt-2 text-xs text-slate-500">{section.hint}</p>}
+          </div>
+
+          {streamingFeedbackBox}
+          {sectionFeedback && !streamingFeedbackBox && (
+            <div className="rounded-xl border border-cyan-500/30 bg-cyan-500/10 p-4 space-y-2">
+              {sectionFeedback.openaiError && (
+                <div className="rounded-lg border border-amber-500/50 bg-amber-500/10 px-3 py-2 text-sm text-amber-200">
+                  <span className="font-medium">OpenAI unavailable (showing placeholder):</span>{" "}
+                  {sectionFeedback.openaiError}
+                </div>
+              )}
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm font-medium text-cyan-200">Feedback</p>
+                {sectionFeedback.source === "openai" && (
+                  <span className="text-[10px] font-medium uppercase tracking-wider text-cyan-400/90 bg-cyan-500/20 px-2 py-0.5 rounded">
+                    AI
+                  </span>
+                )}
+              </div>
+              <p className="text-sm text-cyan-100/90">{sectionFeedback.feedback}</p>
+              {sectionFeedback.suggestedImprovements.length > 0 && (
+                <>
+                  <p className="text-sm font-medium text-cyan-200 mt-2">Suggested improvements</p>
+                  <ul className="list-disc list-inside text-sm text-cyan-100/80 space-y-1">
+                    {sectionFeedback.suggestedImprovements.map((s, i) => (
+                      <li key={i}>{s}</li>
+                    ))}
+                  </ul>
+                </>
+              )}
+              {canSeeRisk && sectionFeedback.riskDelta !== undefined && (
+                <p className="text-xs text-cyan-200/70 mt-2">
+                  Risk delta: {formatRiskDelta(sectionFeedback.riskDelta)} → Risk score: {riskScore}
+                </p>
+              )}
+            </div>
+          )}
+
+          {sectionEdited && (
+            <p className="text-xs text-slate-400">You&apos;ve edited your answer — we&apos;ll take another look when you continue.</p>
+          )}
+
+          {error && (
+            <p className="text-sm text-red-300 bg-red-500/20 border border-red-500/40 px-3 py-2 rounded-xl">
+              {error}
+            </p>
+          )}
+
+          <div className="flex items-center justify-between pt-2">
+            <span className="text-sm text-slate-500">
+              Risk score: <strong className="text-slate-300">{riskScore}</strong>/100
+              {riskFlags.length > 0 && (
+                <span className="ml-2 text-cyan-400">Flags: {riskFlags.join(", ")}</span>
+              )}
+            </span>
+            <div className="flex items-center gap-2 shrink-0">
+              <button type="button" onClick={handleBack} disabled={loading} className="btn-ghost disabled:opacity-50">
+                Back
+              </button>
+              <button
+                type="button"
+                onClick={handleNext}
+                disabled={loading || (section.required && !sectionValue.trim())}
+                className="btn-gradient rounded-xl px-4 py-2 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {loading
+                  ? "Evaluating..."
+                  : canSkip
+                    ? "Skip"
+                    : sectionEdited
+                      ? "Re-check"
+                      : sectionFeedback && currentStep === stepLastSection
+                        ? "Continue to summary"
+                        : "Next"}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // —— Step 2: Supporting Documents ——
+  if (currentStep === STEP_DOCUMENTS) {
+    return (
+      <SupportingDocumentsStep
+        documents={supportingDocuments}
+        onDocumentsChange={setSupportingDocuments}
+        onContinue={() => setCurrentStep(STEP_FIRST_SECTION)}
+        onBack={handleBack}
+        header={stepHeader("Supporting Documents")}
+      />
+    );
+  }
+
+  // —— Step 5: AI Summary ——
+  if (currentStep === stepSummary) {
+    return (
+      <div className="max-w-4xl mx-auto p-6">
+        <div className="mb-6 flex items-start justify-between gap-4">
+          <h1 className="text-2xl font-bold text-slate-100">Design Request Summary</h1>
+          <button type="button" onClick={handleReset} className="btn-ghost shrink-0">
+            Reset
+          </button>
+        </div>
+        <div className="glass-card p-6 space-y-6 shadow-2xl shadow-slate-900/50">
+          {summaryLoading && (
+            <>
+              <p className="text-slate-400">Generating structured summary...</p>
+              <StreamingFields labels={DESIGN_REQUEST_SUMMARY_LABELS} values={summaryDraft} />
+            </>
+          )}
+          {summaryError && (
+            <p className="text-sm text-red-300 bg-red-500/20 border border-red-500/40 px-3 py-2 rounded-xl">
+              {summaryError}
+            </p>
+          )}
+          {designRequestSummary && !summaryLoading && (
+            <>
+              <p className="text-slate-400 text-sm">
+                Once sufficient clarity is gathered, here is your structured summary. Review and continue to optionally request a visual concept.
+              </p>
+              <dl className="space-y-4 text-sm">
+                <div>
+                  <dt className="font-medium text-slate-500">Problem</dt>
+                  <dd className="mt-1 text-slate-200 whitespace-pre-wrap">{designRequestSummary.problem}</dd>
+                </div>
+                <div>
+                  <dt className="font-medium text-slate-500">Desired Outcome</dt>
+                  <dd className="mt-1 text-slate-200 whitespace-pre-wrap">{designRequestSummary.desiredOutcome}</dd>
+                </div>
+                <div>
+                  <dt className="font-medium text-slate-500">Users Impacted</dt>
+                  <dd className="mt-1 text-slate-200 whitespace-pre-wrap">{designRequestSummary.usersImpacted}</dd>
+                </div>
+                <div>
+                  <dt className="font-medium text-slate-500">Business Value</dt>
+                  <dd className="mt-1 text-slate-200 whitespace-pre-wrap">{designRequestSummary.businessValue}</dd>
+                </div>
+                <div>
+                  <dt className="font-medium text-slate-500">Constraints</dt>
+                  <dd className="mt-1 text-slate-200 whitespace-pre-wrap">{designRequestSummary.constraints}</dd>
+                </div>
+              </dl>
+              <div className="flex justify-end gap-2 pt-2">
+                <button type="button" onClick={handleBack} className="btn-ghost">
+                  Back
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setCurrentStep(stepOfferVisual)}
+                  className="btn-gradient rounded-xl px-4 py-2 text-sm"
+                >
+                  Next
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+        {draftStatus}
+      </div>
+    );
+  }
+
+  // —— Step 6: Offer Visual Mockup ——
+  if (currentStep === stepOfferVisual) {
+    return (
+      <div className="max-w-4xl mx-auto p-6">
+        <div className="glass-card p-8 space-y-6 shadow-2xl shadow-slate-900/50">
+          <h2 className="text-xl font-bold text-slate-100">
+            Would you like me to create a quick visual concept to support this request?
+          </h2>
+          <p className="text-slate-400 text-sm">
+            This is optional — you’re in control. If you’d like, I can generate a visual mockup based on your summary to help align the team. If you prefer to skip it, we’ll go straight to your final summary.
+          </p>
+          <div className="flex flex-wrap gap-4 pt-2">
+            <button
+              type="button"
+              onClick={() => handleOfferVisual(true)}
+              className="btn-gradient rounded-xl px-5 py-2.5 text-sm"
+            >
+              Yes, create a visual concept
+            </button>
+            <button
+              type="button"
+              onClick={() => handleOfferVisual(false)}
+              className="rounded-xl border border-slate-500/50 bg-slate-800/40 px-5 py-2.5 text-sm text-slate-300 hover:bg-slate-700/50 focus:outline-none focus:ring-2 focus:ring-cyan-400/40"
+            >
+              No, skip to final summary
+            </button>
+            <button type="button" onClick={handleBack} className="btn-ghost">
+              Back to summary
+            </button>
+          </div>
+        </div>
+        {draftStatus}
+      </div>
+    );
+  }
+
+  // —— Step 7: Visual Concept (generating or shown) ——
+  if (currentStep === stepVisualConcept) {
+    return (
+      <div className="max-w-4xl mx-auto p-6">
+        <div className="mb-6 flex items-start justify-between gap-4">
+          <h1 className="text-2xl font-bold text-slate-100">Reference Concept (Low Fidelity UX Direction)</h1>
+          <button type="button" onClick={handleReset} className="btn-ghost shrink-0">
+            Reset
+          </button>
+        </div>
+        <div className="glass-card p-6 space-y-6 shadow-2xl shadow-slate-900/50">
+          {conceptLoading && (
+            <>
+              <p className="text-slate-400">Generating visual concept...</p>
+              <StreamingFields labels={REFERENCE_CONCEPT_LABELS} values={conceptDraft} />
+            </>
+          )}
+          {conceptError && (
+            <p className="text-sm text-red-300 bg-red-500/20 border border-red-500/40 px-3 py-2 rounded-xl">
+              {conceptError}
+            </p>
+          )}
+          {mockupLoading && (
+            <p className="text-slate-400">Generating mockup image…</p>
+          )}
+          {mockupError && (
+            <p className="text-sm text-amber-300 bg-amber-500/10 border border-amber-500/40 px-3 py-2 rounded-xl">
+              Error generating mockup: {mockupError}
+            </p>
+          )}
+          {mockupImage && (
+            <div>
+              <h3 className="text-sm font-medium text-slate-400 mb-2">Visual mockup</h3>
+              <img
+                src={mockupImage}
+                alt="Generated design request mockup"
+                className="w-full rounded-xl border border-slate-600/50 bg-slate-800/30 max-h-[480px] object-contain"
+              />
+            </div>
+          )}
+          {referenceConcept && !conceptLoading && (
+            <>
+              <p className="text-slate-400 text-sm">
+                Reference concept (generated text) — a thinking aid to accelerate alignment, not a final design.
+              </p>
+              <dl className="space-y-4 text-sm">
+                <div>
+                  <dt className="font-medium text-slate-500">Experience Goal</dt>
+                  <dd className="mt-1 text-slate-200 whitespace-pre-wrap">{referenceConcept.experienceGoal}</dd>
+                </div>
+                <div>
+                  <dt className="font-medium text-slate-500">Suggested Layout</dt>
+                  <dd className="mt-1 text-slate-200 whitespace-pre-wrap">{referenceConcept.suggestedLayout}</dd>
+                </div>
+                <div>
+                  <dt className="font-medium text-slate-500">Key Elements</dt>
+                  <dd className="mt-1 text-slate-200">
+                    <KeyElementsList items={referenceConcept.keyElements} />
+                  </dd>
+                </div>
+                <div>
+                  <dt className="font-medium text-slate-500">Interaction Model</dt>
+                  <dd className="mt-1 text-slate-200 whitespace-pre-wrap">{referenceConcept.interactionModel}</dd>
+                </div>
+                <div>
+                  <dt className="font-medium text-slate-500">Design Considerations</dt>
+                  <dd className="mt-1 text-slate-200 whitespace-pre-wrap">{referenceConcept.designConsiderations}</dd>
+                </div>
+              </dl>
+              <div className="flex justify-end gap-2 pt-2">
+                <button type="button" onClick={handleBack} className="btn-ghost">
+                  Back
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setCurrentStep(stepFinal)}
+                  className="btn-gradient rounded-xl px-4 py-2 text-sm"
+                >
+                  Continue to final submission
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+        {draftStatus}
+      </div>
+    );
+  }
+
+  // —— Step 8: Final (submitted) ——
+  if (currentStep === stepFinal) {
+    return (
+      <div className="max-w-5xl mx-auto p-6 space-y-8">
+        <section className="glass-card p-6 shadow-2xl shadow-slate-900/50">
+          <h2 className="text-xl font-semibold text-slate-100 mb-2">Thank you</h2>
+          <p className="text-slate-400 mb-2">
+            Your design request has been captured. Our UX team will review it and reach out if needed.
+          </p>
+          <div className="mb-6 text-sm">
+            {submitLoading && <p className="text-slate-500">Submitting your request…</p>}
+            {submittedIntake && (
+              <p className="text-slate-500">
+                Submitted — reference <span className="font-mono text-slate-300">{submittedIntake.id}</span>
+              </p>
+            )}
+            {submitError && (
+              <p className="text-red-300 bg-red-500/20 border border-red-500/40 px-3 py-2 rounded-xl">
+                Could not submit your request: {submitError}{" "}
+                <button
+                  type="button"
+                  onClick={() => setSubmitError(null)}
+                  className="underline hover:text-red-200"
+                >
+                  Try again
+                </button>
+              </p>
+            )}
+          </div>
+
+          {/* 1. Reference Concept (generated text) */}
+          {(referenceConcept || conceptLoading) && (
+            <>
+              <h3 className="font-semibold text-slate-100 mb-2">Reference concept</h3>
+              <p className="text-slate-500 text-xs mb-3">Generated text summary — low-fidelity UX direction</p>
+              {conceptLoading && (
+                <>
+                  <p className="text-slate-400 text-sm">Generating reference concept…</p>
+                  <StreamingFields labels={REFERENCE_CONCEPT_LABELS} values={conceptDraft} />
+                </>
+              )}
+              {referenceConcept && !conceptLoading && (
+                <dl className="space-y-4 text-sm mb-6">
+                  <div>
+                    <dt className="font-medium text-slate-500">Experience Goal</dt>
+                    <dd className="mt-1 text-slate-200 whitespace-pre-wrap">{referenceConcept.experienceGoal}</dd>
+                  </div>
+                  <div>
+                    <dt className="font-medium text-slate-500">Suggested Layout</dt>
+                    <dd className="mt-1 text-slate-200 whitespace-pre-wrap">{referenceConcept.suggestedLayout}</dd>
+                  </div>
+                  <div>
+                    <dt className="font-medium text-slate-500">Key Elements</dt>
+                    <dd className="mt-1 text-slate-200">
+                      <KeyElementsList items={referenceConcept.keyElements} />
+                    </dd>
+                  </div>
+                  <div>
+                    <dt className="font-medium text-slate-500">Interaction Model</dt>
+                    <dd className="mt-1 text-slate-200 whitespace-pre-wrap">{referenceConcept.interactionModel}</dd>
+                  </div>
+                  <div>
+                    <dt className="font-medium text-slate-500">Design Considerations</dt>
+                    <dd className="mt-1 text-slate-200 whitespace-pre-wrap">{referenceConcept.designConsiderations}</dd>
+                  </div>
+                </dl>
+              )}
+            </>
+          )}
+
+          {/* 2. Visual mockup (if generated) */}
+          {mockupImage && (
+            <>
+              <h3 className="font-semibold text-slate-100 mb-2 mt-6">Visual mockup</h3>
+              <p className="text-slate-500 text-xs mb-3">Generated image based on your request</p>
+              <img
+                src={mockupImage}
+                alt="Generated design request mockup"
+                className="w-full rounded-xl border border-slate-600/50 bg-slate-800/30 max-h-[480px] object-contain"
+              />
+            </>
+          )}
+
+          {/* 3. Structured summary ready for submission */}
+          <h3 className="font-semibold text-slate-100 mb-3 mt-8">Structured summary — ready for submission</h3>
+          {designRequestSummary && (
+            <dl className="space-y-4 text-sm mb-6">
+              <div>
+                <dt className="font-medium text-slate-500">Problem</dt>
+                <dd className="mt-1 text-slate-200 whitespace-pre-wrap">{designRequestSummary.problem}</dd>
+              </div>
+              <div>
+                <dt className="font-medium text-slate-500">Desired Outcome</dt>
+                <dd className="mt-1 text-slate-200 whitespace-pre-wrap">{designRequestSummary.desiredOutcome}</dd>
+              </div>
+              <div>
+                <dt className="font-medium text-slate-500">Users Impacted</dt>
+                <dd className="mt-1 text-slate-200 whitespace-pre-wrap">{designRequestSummary.usersImpacted}</dd>
+              </div>
+              <div>
+                <dt className="font-medium text-slate-500">Business Value</dt>
+                <dd className="mt-1 text-slate-200 whitespace-pre-wrap">{designRequestSummary.businessValue}</dd>
+              </div>
+              <div>
+                <dt className="font-medium text-slate-500">Constraints</dt>
+                <dd className="mt-1 text-slate-200 whitespace-pre-wrap">{designRequestSummary.constraints}</dd>
+              </div>
+            </dl>
+          )}
+
+          {(productPillar || quarter || supportingDocuments.length > 0) && (
+            <dl className="grid gap-4 sm:grid-cols-3 text-sm mb-6">
+              <div>
+                <dt className="font-medium text-slate-500">Product pillar</dt>
+                <dd className="mt-1 text-slate-200">{summary.product_pillar || "—"}</dd>
+              </div>
+              <div>
+                <dt className="font-medium text-slate-500">Quarter</dt>
+                <dd className="mt-1 text-slate-200">{summary.quarter_slated_for || "—"}</dd>
+              </div>
+              <div>
+                <dt className="font-medium text-slate-500">Supporting documents</dt>
+                <dd className="mt-1 text-slate-200">
+                  {supportingDocuments.length > 0 ? supportingDocuments.map((d) => d.fileName).join(", ") : "—"}
+                </dd>
+              </div>
+            </dl>
+          )}
+
+          {submittedIntake && (
+            <div className="mt-8 pt-6 border-t border-slate-600/50">
+              <ExportLinks intakeId={submittedIntake.id} canIncludeReview={canSeeRisk} />
+            </div>
+          )}
+
+          <div className="flex items-center gap-4 flex-wrap mt-6 pt-6 border-t border-slate-600/50">
+            {canSeeRisk && (
+              <button
+                type="button"
+                onClick={() => setShowUxView(!showUxView)}
+                className="text-sm text-slate-500 hover:text-cyan-400 underline transition-colors"
+              >
+                {showUxView ? "Hide" : "Show"} UX internal view
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={handleReset}
+              className="text-sm text-slate-500 hover:text-cyan-400 underline transition-colors"
+            >
+              Start over
+            </button>
+          </div>
+
+          {canSeeRisk && showUxView && (
+            <div className="mt-6 p-4 rounded-xl border border-slate-600/50 bg-slate-900/80 space-y-4">
+              <h3 className="font-semibold text-slate-100">UX internal view</h3>
+              <p className="text-sm text-slate-400">
+                Risk score: <strong className="text-slate-300">{summary.risk_score}</strong>/100 · Recommended action:{" "}
+                <strong className="text-slate-300">{recommendedAction}</strong>
+              </p>
+              {summary.flags.length > 0 && (
+                <p className="text-sm text-slate-400">Flags: {summary.flags.join(", ")}</p>
+              )}
+              <RiskBreakdownPanel breakdown={riskBreakdown} />
+              <pre className="p-4 rounded-xl bg-slate-950/80 border border-slate-700 text-slate-300 text-xs overflow-x-auto max-h-80">
+                {JSON.stringify(
+                  {
+                    designRequestSummary: summary.designRequestSummary,
+                    referenceConcept: summary.referenceConcept,
+                    risk_score: summary.risk_score,
+                    flags: summary.flags,
+                    recommendedAction,
+                  },
+                  null,
+                  2
+                )}
+              </pre>
+            </div>
+          )}
+        </section>
+      </div>
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,159 @@
+"use client";
+
+import Link from "next/link";
+import { useMemo, useState } from "react";
+import type { IntakeStatus, RecommendedAction } from "@/app/types";
+import { INTAKE_STATUSES } from "@/lib/intakeStatus";
+import { ACTION_STYLES, type IntakeRow } from "@/app/admin/intakes/intakeRows";
+
+type SortOrder = "newest" | "risk-desc" | "risk-asc";
+
+const ACTIONS: RecommendedAction[] = ["Strategic Review Required", "Clarification Call Recommended", "Backlog Ready"];
+
+const selectClass =
+  "rounded-xl border border-slate-500/50 bg-slate-800/50 px-3 py-2 text-sm text-slate-100 focus:border-cyan-400/60 focus:outline-none focus:ring-2 focus:ring-cyan-400/30";
+
+/** Distinct non-empty values, sorted */
+function distinct(values: string[]): string[] {
+  return Array.from(new Set(values.filter(Boolean))).sort();
+}
+
+/** Filterable, searchable, sortable intake list */
+export function IntakeTable({ rows }: { rows: IntakeRow[] }) {
+  const [query, setQuery] = useState("");
+  const [status, setStatus] = useState<IntakeStatus | "">("");
+  const [action, setAction] = useState<RecommendedAction | "">("");
+  const [pillar, setPillar] = useState("");
+  const [quarter, setQuarter] = useState("");
+  const [flag, setFlag] = useState("");
+  const [sort, setSort] = useState<SortOrder>("newest");
+
+  const pillars = useMemo(() => distinct(rows.map((r) => r.pillar)), [rows]);
+  const quarters = useMemo(() => distinct(rows.map((r) => r.quarter)), [rows]);
+  const flags = useMemo(() => distinct(rows.flatMap((r) => r.flags)), [rows]);
+
+  const visible = useMemo(() => {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    const filtered = rows.filter(
+      (r) =>
+        (!status || r.status === status) &&
+        (!action || r.recommendedAction === action) &&
+        (!pillar || r.pillar === pillar) &&
+        (!quarter || r.quarter === quarter) &&
+        (!flag || r.flags.includes(flag)) &&
+        terms.every((t) => r.searchText.includes(t))
+    );
+    return filtered.sort((a, b) =>
+      sort === "risk-desc"
+        ? b.riskScore - a.riskScore
+        : sort === "risk-asc"
+          ? a.riskScore - b.riskScore
+          : b.createdAt.localeCompare(a.createdAt)
+    );
+  }, [rows, query, status, action, pillar, quarter, flag, sort]);
+
+  return (
+    <div className="glass-card p-6 space-y-4 shadow-2xl shadow-slate-900/50">
+      <div className="flex flex-wrap gap-3">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search answers, summaries, concepts…"
+          aria-label="Search intakes"
+          className="flex-1 min-w-[220px] rounded-xl border border-slate-500/50 bg-slate-800/50 px-3 py-2 text-sm text-slate-100 placeholder-slate-500 focus:border-cyan-400/60 focus:outline-none focus:ring-2 focus:ring-cyan-400/30"
+        />
+        <select aria-label="Status" value={status} onChange={(e) => setStatus(e.target.value as IntakeStatus | "")} className={selectClass}>
+          <option value="">All statuses</option>
+          {INTAKE_STATUSES.map((st) => (
+            <option key={st} value={st}>
+              {st}
+            </option>
+          ))}
+        </select>
+        <select aria-label="Recommended action" value={action} onChange={(e) => setAction(e.target.value as RecommendedAction | "")} className={selectClass}>
+          <option value="">All actions</option>
+          {ACTIONS.map((a) => (
+            <option key={a} value={a}>
+              {a}
+            </option>
+          ))}
+        </select>
+        <select aria-label="Product pillar" value={pillar} onChange={(e) => setPillar(e.target.value)} className={selectClass}>
+          <option value="">All pillars</option>
+          {pillars.map((p) => (
+            <option key={p} value={p}>
+              {p}
+            </option>
+          ))}
+        </select>
+        <select aria-label="Quarter" value={quarter} onChange={(e) => setQuarter(e.target.value)} className={selectClass}>
+          <option value="">All quarters</option>
+          {quarters.map((q) => (
+            <option key={q} value={q}>
+              {q}
+            </option>
+          ))}
+        </select>
+        <select aria-label="Flag" value={flag} onChange={(e) => setFlag(e.target.value)} className={selectClass}>
+          <option value="">Any flags</option>
+          {flags.map((f) => (
+            <option key={f} value={f}>
+              {f}
+            </option>
+          ))}
+        </select>
+        <select aria-label="Sort" value={sort} onChange={(e) => setSort(e.target.value as SortOrder)} className={selectClass}>
+          <option value="newest">Newest first</option>
+          <option value="risk-desc">Highest risk first</option>
+          <option value="risk-asc">Lowest risk first</option>
+        </select>
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="text-sm text-slate-500">
+          {rows.length === 0 ? "No intakes have been submitted yet." : "No intakes match these filters."}
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm text-slate-300">
+            <thead className="text-xs text-slate-500">
+              <tr>
+                <th className="py-2 pr-4 font-medium">Project</th>
+                <th className="py-2 pr-4 font-medium">Pillar</th>
+                <th className="py-2 pr-4 font-medium">Quarter</th>
+                <th className="py-2 pr-4 font-medium text-right">Risk</th>
+                <th className="py-2 pr-4 font-medium">Flags</th>
+                <th className="py-2 pr-4 font-medium">Recommended action</th>
+                <th className="py-2 pr-4 font-medium">Status</th>
+                <th className="py-2 font-medium">Submitted</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map((r) => (
+                <tr key={r.id} className="border-t border-slate-700/60 align-top">
+                  <td className="py-2 pr-4">
+                    <Link href={`/admin/intakes/${r.id}`} className="text-cyan-300 hover:text-cyan-200 hover:underline">
+                      {r.project}
+                    </Link>
+                  </td>
+                  <td className="py-2 pr-4">{r.pillar || "—"}</td>
+                  <td className="py-2 pr-4 whitespace-nowrap">{r.quarter || "—"}</td>
+                  <td className="py-2 pr-4 text-right font-mono">{r.riskScore}</td>
+                  <td className="py-2 pr-4 text-xs">{r.flags.join(", ") || "—"}</td>
+                  <td className="py-2 pr-4">
+                    <span className={`inline-block rounded-lg border px-2 py-0.5 text-xs ${ACTION_STYLES[r.recommendedAction]}`}>
+                      {r.recommendedAction}
+                    </span>
+                  </td>
+                  <td className="py-2 pr-4 whitespace-nowrap">{r.status}</td>
+                  <td className="py-2 whitespace-nowrap text-xs text-slate-400">{new Date(r.createdAt).toLocaleDateString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
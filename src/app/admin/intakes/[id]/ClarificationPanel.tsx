@@ -0,0 +1,145 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import { ClarificationOutcomeSummary } from "@/app/components/ClarificationOutcomeSummary";
+import type { ClarificationRequest } from "@/app/types";
+
+const fieldClass =
+  "rounded-xl border border-slate-500/50 bg-slate-800/50 px-3 py-2 text-sm text-slate-100 placeholder-slate-500 focus:border-cyan-400/60 focus:outline-none focus:ring-2 focus:ring-cyan-400/30";
+
+/** Ask the requester targeted questions and follow each round through to what it changed */
+export function ClarificationPanel({
+  intakeId,
+  sections,
+  clarifications,
+}: {
+  intakeId: string;
+  /** Sections a question can extend, Opening first */
+  sections: { id: string; heading: string }[];
+  clarifications: ClarificationRequest[];
+}) {
+  const router = useRouter();
+  const [drafts, setDrafts] = useState([{ section: sections[0]?.id ?? "Opening", question: "" }]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState<string | null>(null);
+  const open = clarifications.find((c) => !c.outcome);
+
+  const linkFor = (token: string) =>
+    `${window.location.origin}/clarify/${intakeId}?token=${encodeURIComponent(token)}`;
+
+  const copyLink = (c: ClarificationRequest) => {
+    const link = linkFor(c.token);
+    navigator.clipboard
+      .writeText(link)
+      .then(() => {
+        setCopied(c.id);
+        setTimeout(() => setCopied(null), 2000);
+      })
+      .catch(() => window.prompt("Copy the clarification link:", link));
+  };
+
+  const submit = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/intakes/${intakeId}/clarifications`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ questions: drafts.filter((d) => d.question.trim()) }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error((data as { error?: string }).error || "Could not send the questions");
+      setDrafts([{ section: sections[0]?.id ?? "Opening", question: "" }]);
+      router.refresh();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not send the questions");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const headingOf = (id: string) => sections.find((s) => s.id === id)?.heading ?? id;
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-lg font-semibold text-slate-100">Clarifications</h2>
+
+      {clarifications.map((c) => (
+        <div key={c.id} className="rounded-xl border border-slate-600/50 bg-slate-800/30 p-4 space-y-3 text-sm">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-slate-400">
+              {c.createdBy} · {new Date(c.createdAt).toLocaleString()}
+            </p>
+            {c.outcome ? (
+              <span className="text-xs text-emerald-300">Answered {new Date(c.outcome.answeredAt).toLocaleString()}</span>
+            ) : (
+              <button type="button" onClick={() => copyLink(c)} className="text-xs underline text-cyan-300 hover:text-cyan-200">
+                {copied === c.id ? "Link copied" : "Copy requester link"}
+              </button>
+            )}
+          </div>
+          <ul className="space-y-2">
+            {c.questions.map((q) => (
+              <li key={q.id}>
+                <p className="text-xs text-slate-500">{headingOf(q.section)}</p>
+                <p className="text-slate-200">{q.question}</p>
+                {q.answer && <p className="text-slate-400 whitespace-pre-wrap mt-1">↳ {q.answer}</p>}
+              </li>
+            ))}
+          </ul>
+          {c.outcome && <ClarificationOutcomeSummary outcome={c.outcome} />}
+        </div>
+      ))}
+
+      {open ? (
+        <p className="text-sm text-slate-500">Waiting for the requester to answer the open questions.</p>
+      ) : (
+        <div className="space-y-3">
+          {drafts.map((d, i) => (
+            <div key={i} className="flex flex-wrap gap-2">
+              <select
+                aria-label="Section"
+                value={d.section}
+                onChange={(e) => setDrafts((prev) => prev.map((p, j) => (j === i ? { ...p, section: e.target.value } : p)))}
+                className={fieldClass}
+              >
+                {sections.map((s) => (
+                  <option key={s.id} value={s.id}>
+                    {s.heading}
+                  </option>
+                ))}
+              </select>
+              <input
+                aria-label="Question"
+                value={d.question}
+                onChange={(e) => setDrafts((prev) => prev.map((p, j) => (j === i ? { ...p, question: e.target.value } : p)))}
+                placeholder="What do you need to know?"
+                className={`${fieldClass} flex-1 min-w-[240px]`}
+              />
+            </div>
+          ))}
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <button
+              type="button"
+              onClick={() => setDrafts((prev) => [...prev, { section: sections[0]?.id ?? "Opening", question: "" }])}
+              className="text-sm text-slate-400 underline hover:text-cyan-400"
+            >
+              Add another question
+            </button>
+            <button
+              type="button"
+              onClick={submit}
+              disabled={saving || !drafts.some((d) => d.question.trim())}
+              className="btn-gradient rounded-xl px-4 py-2 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? "Sending…" : "Ask requester"}
+            </button>
+          </div>
+          {error && <p className="text-sm text-red-300">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import type { IntakeStatus, StatusChange } from "@/app/types";
+
+const fieldClass =
+  "w-full rounded-xl border border-slate-500/50 bg-slate-800/50 px-3 py-2 text-sm text-slate-100 placeholder-slate-500 focus:border-cyan-400/60 focus:outline-none focus:ring-2 focus:ring-cyan-400/30";
+
+/** Current status, the moves the workflow allows from it, and the transition history */
+export function StatusPanel({
+  intakeId,
+  status,
+  allowed,
+  history,
+}: {
+  intakeId: string;
+  status: IntakeStatus;
+  allowed: IntakeStatus[];
+  history: StatusChange[];
+}) {
+  const router = useRouter();
+  const [next, setNext] = useState<IntakeStatus | "">("");
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async () => {
+    if (!next) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/intakes/${intakeId}/status`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ status: next, reason: reason || undefined }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error((data as { error?: string }).error || "Status change failed");
+      setNext("");
+      setReason("");
+      router.refresh();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Status change failed");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <h2 className="text-lg font-semibold text-slate-100">Status</h2>
+        <span className="rounded-lg border border-cyan-500/40 bg-cyan-500/10 px-3 py-1 text-sm text-cyan-200">{status}</span>
+      </div>
+
+      {allowed.length === 0 ? (
+        <p className="text-sm text-slate-500">{status} is final.</p>
+      ) : (
+        <div className="grid gap-3">
+          <select aria-label="Next status" value={next} onChange={(e) => setNext(e.target.value as IntakeStatus | "")} className={fieldClass}>
+            <option value="">Move to…</option>
+            {allowed.map((s) => (
+              <option key={s} value={s}>
+                {s}
+              </option>
+            ))}
+          </select>
+          <textarea
+            aria-label="Reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Why? (required for Clarification Requested and Declined)"
+            rows={2}
+            className={fieldClass}
+          />
+          <div className="flex items-center justify-end gap-3">
+            {error && <p className="text-sm text-red-300">{error}</p>}
+            <button
+              type="button"
+              onClick={submit}
+              disabled={saving || !next}
+              className="btn-gradient rounded-xl px-4 py-2 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? "Saving…" : "Change status"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {history.length > 0 && (
+        <ol className="space-y-2 text-sm border-t border-slate-700/60 pt-3">
+          {[...history].reverse().map((h, i) => (
+            <li key={i} className="text-slate-400">
+              <span className="text-slate-200">{h.from ? `${h.from} → ${h.to}` : h.to}</span> · {h.by} ·{" "}
+              {new Date(h.at).toLocaleString()}
+              {h.reason && <p className="text-slate-500 text-xs mt-0.5">{h.reason}</p>}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { ACTION_STYLES } from "@/app/admin/intakes/intakeRows";
+import { ClarificationPanel } from "@/app/admin/intakes/[id]/ClarificationPanel";
+import { StatusPanel } from "@/app/admin/intakes/[id]/StatusPanel";
+import { ExportLinks } from "@/app/components/ExportLinks";
+import { RiskBreakdownPanel } from "@/app/components/RiskBreakdownPanel";
+import type { PromptRef, UploadedDocument } from "@/app/types";
+import { requirePageUser } from "@/lib/auth";
+import { loadFormDefinition } from "@/lib/formDefinition";
+import { getIntake } from "@/lib/intakeStore";
+import { allowedTransitions, getStatus } from "@/lib/intakeStatus";
+import { conceptEntries, getProjectName, summaryEntries } from "@/lib/intakeText";
+import { explainRisk, formatRiskDelta } from "@/lib/risk";
+import { getUpload } from "@/lib/uploadStore";
+
+export const dynamic = "force-dynamic";
+
+function DefinitionList({ entries }: { entries: { label: string; value: string }[] }) {
+  return (
+    <dl className="space-y-4 text-sm">
+      {entries.map((e) => (
+        <div key={e.label}>
+          <dt className="font-medium text-slate-500">{e.label}</dt>
+          <dd className="mt-1 text-slate-200 whitespace-pre-wrap">{e.value}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+/** Which registry prompt produced a generated block, so output changes can be traced to prompt edits */
+function PromptNote({ prompt }: { prompt?: PromptRef }) {
+  if (!prompt) return null;
+  return (
+    <p className="text-xs text-slate-500">
+      Prompt {prompt.id} v{prompt.version}
+    </p>
+  );
+}
+
+/** /admin/intakes/[id] — everything a reviewer needs to triage one intake */
+export default async function AdminIntakeDetailPage({ params }: { params: { id: string } }) {
+  await requirePageUser(`/admin/intakes/${params.id}`, "reviewer");
+  const intake = await getIntake(params.id);
+  if (!intake) notFound();
+
+  const { summary } = intake;
+  const documents = (await Promise.all((summary.supporting_documents ?? []).map((id) => getUpload(id)))).filter(
+    (d): d is UploadedDocument => d !== null
+  );
+  const form = await loadFormDefinition();
+  const mockupSrc = intake.mockupImageId ? `/api/uploads/${intake.mockupImageId}` : intake.mockupImageUrl;
+  const answers = [
+    { label: "Opening", value: intake.opening },
+    ...Object.entries(intake.sectionValues)
+      .filter(([, value]) => value.trim())
+      .map(([label, value]) => ({ label, value })),
+  ];
+
+  return (
+    <div className="max-w-5xl mx-auto p-6 space-y-6">
+      <div>
+        <Link href="/admin/intakes" className="text-sm text-slate-400 hover:text-cyan-400">
+          ← All intakes
+        </Link>
+        <div className="mt-2 flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-slate-100">{getProjectName(intake.opening)}</h1>
+            <p className="text-slate-500 text-xs mt-1 font-mono">{intake.id}</p>
+          </div>
+          <span className={`rounded-lg border px-3 py-1 text-sm ${ACTION_STYLES[intake.recommendedAction]}`}>
+            {intake.recommendedAction}
+          </span>
+        </div>
+        <dl className="mt-4 grid gap-4 sm:grid-cols-4 text-sm">
+          <div>
+            <dt className="font-medium text-slate-500">Submitted</dt>
+            <dd className="mt-1 text-slate-200">{new Date(intake.createdAt).toLocaleString()}</dd>
+          </div>
+          <div>
+            <dt className="font-medium text-slate-500">Product pillar</dt>
+            <dd className="mt-1 text-slate-200">{summary.product_pillar || "—"}</dd>
+          </div>
+          <div>
+            <dt className="font-medium text-slate-500">Quarter</dt>
+            <dd className="mt-1 text-slate-200">{summary.quarter_slated_for || "—"}</dd>
+          </div>
+          <div>
+            <dt className="font-medium text-slate-500">Risk score</dt>
+            <dd className="mt-1 text-slate-200">
+              {summary.risk_score}/100{summary.flags.length > 0 && ` · ${summary.flags.join(", ")}`}
+            </dd>
+          </div>
+        </dl>
+        <div className="mt-4">
+          <ExportLinks intakeId={intake.id} canIncludeReview defaultIncludeReview />
+        </div>
+        {intake.integrations?.monday && (
+          <p className="mt-3 text-sm text-slate-400">
+            Monday.com item{" "}
+            {intake.integrations.monday.url ? (
+              <a href={intake.integrations.monday.url} className="underline hover:text-cyan-400">
+                {intake.integrations.monday.id}
+              </a>
+            ) : (
+              intake.integrations.monday.id
+            )}
+          </p>
+        )}
+        {intake.integrations?.jira && (
+          <p className="mt-3 text-sm text-slate-400">
+            Jira {intake.integrations.jira.issueType.toLowerCase()}{" "}
+            <a href={intake.integrations.jira.url} className="underline hover:text-cyan-400">
+              {intake.integrations.jira.key}
+            </a>
+          </p>
+        )}
+      </div>
+
+      <section className="glass-card p-6 shadow-2xl shadow-slate-900/50">
+        <StatusPanel
+          intakeId={intake.id}
+          status={getStatus(intake)}
+          allowed={allowedTransitions(intake)}
+          history={intake.statusHistory ?? []}
+        />
+      </section>
+
+      <section className="glass-card p-6 shadow-2xl shadow-slate-900/50">
+        <ClarificationPanel
+          intakeId={intake.id}
+          sections={[
+            { id: "Opening", heading: "Project basics" },
+            ...form.sections.map((s) => ({ id: s.id, heading: s.heading })),
+          ]}
+          clarifications={intake.clarifications ?? []}
+        />
+      </section>
+
+      <section className="glass-card p-6 space-y-4 shadow-2xl shadow-slate-900/50">
+        <h2 className="text-lg font-semibold text-slate-100">Design request summary</h2>
+        {summary.designRequestSummary ? (
+          <>
+            <DefinitionList entries={summaryEntries(summary.designRequestSummary)} />
+            <PromptNote prompt={summary.designRequestSummary.prompt} />
+          </>
+        ) : (
+          <p className="text-sm text-slate-500">No summary was generated.</p>
+        )}
+      </section>
+
+      {(summary.referenceConcept || mockupSrc) && (
+        <section className="glass-card p-6 space-y-4 shadow-2xl shadow-slate-900/50">
+          <h2 className="text-lg font-semibold text-slate-100">Reference concept</h2>
+          {summary.referenceConcept && <DefinitionList entries={conceptEntries(summary.referenceConcept)} />}
+          <PromptNote prompt={summary.referenceConcept?.prompt} />
+          {mockupSrc && (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img
+              src={mockupSrc}
+              alt="Generated design request mockup"
+              className="w-full rounded-xl border border-slate-600/50 bg-slate-800/30 max-h-[480px] object-contain"
+            />
+          )}
+        </section>
+      )}
+
+      <section className="glass-card p-6 space-y-4 shadow-2xl shadow-slate-900/50">
+        <h2 className="text-lg font-semibold text-slate-100">Answers</h2>
+        <DefinitionList entries={answers} />
+        {documents.length > 0 && (
+          <div className="text-sm">
+            <p className="font-medium text-slate-500">Supporting documents</p>
+            <ul className="mt-1 space-y-1">
+              {documents.map((d) => (
+                <li key={d.id}>
+                  <a href={`/api/uploads/${d.id}`} className="text-cyan-300 hover:underline">
+                    {d.fileName}
+                  </a>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </section>
+
+      <section className="glass-card p-6 space-y-4 shadow-2xl shadow-slate-900/50">
+        <h2 className="text-lg font-semibold text-slate-100">Coaching by section</h2>
+        {intake.feedbacks.map((f, i) => (
+          <div key={i} className="rounded-xl border border-slate-600/50 bg-slate-800/30 p-4 space-y-2 text-sm">
+            <div className="flex items-center justify-between gap-2">
+              <p className="font-medium text-slate-200">{f.section}</p>
+              <span className="text-xs text-slate-500">
+                {f.source === "openai" ? "AI" : "Offline rules"} · {formatRiskDelta(f.riskDelta)}
+              </span>
+            </div>
+            <p className="text-slate-300">{f.feedback}</p>
+            {f.suggestedImprovements.length > 0 && (
+              <ul className="list-disc list-inside text-slate-400 space-y-1">
+                {f.suggestedImprovements.map((s, j) => (
+                  <li key={j}>{s}</li>
+                ))}
+              </ul>
+            )}
+            {f.flags.length > 0 && <p className="text-xs text-cyan-400">Flags: {f.flags.join(", ")}</p>}
+          </div>
+        ))}
+      </section>
+
+      <section className="glass-card p-6 shadow-2xl shadow-slate-900/50">
+        <RiskBreakdownPanel breakdown={explainRisk(intake.feedbacks)} />
+      </section>
+    </div>
+  );
+}
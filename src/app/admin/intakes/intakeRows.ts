@@ -0,0 +1,51 @@
+import type { IntakeStatus, RecommendedAction, RiskFlag, StoredIntake } from "@/app/types";
+import { getStatus } from "@/lib/intakeStatus";
+import { conceptEntries, getProjectName, summaryEntries } from "@/lib/intakeText";
+
+/** Badge colours per recommended action */
+export const ACTION_STYLES: Record<RecommendedAction, string> = {
+  "Strategic Review Required": "bg-red-500/20 text-red-200 border-red-500/40",
+  "Clarification Call Recommended": "bg-amber-500/15 text-amber-200 border-amber-500/40",
+  "Backlog Ready": "bg-emerald-500/15 text-emerald-200 border-emerald-500/40",
+};
+
+/** What the triage table needs per intake; built on the server so the full records stay there */
+export interface IntakeRow {
+  id: string;
+  project: string;
+  pillar: string;
+  quarter: string;
+  riskScore: number;
+  flags: RiskFlag[];
+  recommendedAction: RecommendedAction;
+  status: IntakeStatus;
+  createdAt: string;
+  /** Lowercased answers, summary and concept text for full-text search */
+  searchText: string;
+}
+
+export function toIntakeRow(intake: StoredIntake): IntakeRow {
+  const { summary } = intake;
+  const text = [
+    intake.opening,
+    ...Object.values(intake.sectionValues),
+    ...(summary.designRequestSummary ? summaryEntries(summary.designRequestSummary).map((e) => e.value) : []),
+    ...(summary.referenceConcept ? conceptEntries(summary.referenceConcept).map((e) => e.value) : []),
+    summary.product_pillar ?? "",
+    summary.quarter_slated_for ?? "",
+    ...summary.flags,
+    intake.recommendedAction,
+  ];
+  return {
+    id: intake.id,
+    project: getProjectName(intake.opening),
+    pillar: summary.product_pillar ?? "",
+    quarter: summary.quarter_slated_for ?? "",
+    riskScore: summary.risk_score,
+    flags: summary.flags,
+    recommendedAction: intake.recommendedAction,
+    status: getStatus(intake),
+    createdAt: intake.createdAt,
+    searchText: text.join("\n").toLowerCase(),
+  };
+}
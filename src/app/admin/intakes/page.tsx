@@ -0,0 +1,29 @@
+import Link from "next/link";
+import { listIntakes } from "@/lib/intakeStore";
+import { IntakeTable } from "@/app/admin/intakes/IntakeTable";
+import { toIntakeRow } from "@/app/admin/intakes/intakeRows";
+import { requirePageUser } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+/** /admin/intakes — triage list of every submitted intake for the UX team */
+export default async function AdminIntakesPage() {
+  await requirePageUser("/admin/intakes", "reviewer");
+  const rows = (await listIntakes()).map(toIntakeRow);
+  return (
+    <div className="max-w-6xl mx-auto p-6 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-100">Incoming intakes</h1>
+          <p className="text-slate-400 text-sm mt-1">
+            {rows.length} submitted {rows.length === 1 ? "request" : "requests"}
+          </p>
+        </div>
+        <Link href="/" className="btn-ghost shrink-0">
+          New intake
+        </Link>
+      </div>
+      <IntakeTable rows={rows} />
+    </div>
+  );
+}
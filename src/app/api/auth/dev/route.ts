@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getAuthProviderName, isUserRole, safeReturnTo, setSessionCookie } from "@/lib/auth";
+
+/**
+ * POST /api/auth/dev — local dev sign-in, only when AUTH_PROVIDER is "dev".
+ * Form or JSON body { name, email?, role, returnTo? }; sets the session cookie and redirects to returnTo.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    if (getAuthProviderName() !== "dev") {
+      return NextResponse.json({ error: "Dev sign-in is disabled" }, { status: 404 });
+    }
+    const body: Record<string, unknown> = req.headers.get("content-type")?.includes("application/json")
+      ? ((await req.json().catch(() => null)) ?? {})
+      : Object.fromEntries((await req.formData().catch(() => new FormData())).entries());
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    const email = typeof body.email === "string" && body.email.trim() ? body.email.trim().toLowerCase() : undefined;
+    if (!name || !isUserRole(body.role)) {
+      return NextResponse.json({ error: "Enter a name and pick a role" }, { status: 400 });
+    }
+    const response = NextResponse.redirect(new URL(safeReturnTo(body.returnTo), req.url), 303);
+    setSessionCookie(response, { id: `dev:${email ?? name.toLowerCase()}`, name, email, role: body.role });
+    return response;
+  } catch (e) {
+    console.error("[auth] dev sign-in error:", e);
+    return NextResponse.json({ error: "Sign-in failed" }, { status: 500 });
+  }
+}
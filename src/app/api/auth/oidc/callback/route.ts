@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { OIDC_TRANSACTION_COOKIE, completeOidcSignIn, getAuthOrigin, setSessionCookie } from "@/lib/auth";
+
+/** GET /api/auth/oidc/callback — the identity provider redirects here; signs the user in and returns them */
+export async function GET(req: NextRequest) {
+  try {
+    const redirectUri = `${getAuthOrigin(req.nextUrl.origin)}/api/auth/oidc/callback`;
+    const result = await completeOidcSignIn(
+      req.nextUrl.searchParams,
+      req.cookies.get(OIDC_TRANSACTION_COOKIE)?.value,
+      redirectUri
+    );
+    if (!result.ok) {
+      console.error("[auth] OIDC callback rejected:", result.error);
+      const signin = new URL("/signin", req.url);
+      signin.searchParams.set("error", result.error);
+      return NextResponse.redirect(signin, 303);
+    }
+    const response = NextResponse.redirect(new URL(result.data.returnTo, req.url), 303);
+    response.cookies.set(OIDC_TRANSACTION_COOKIE, "", { path: "/api/auth/oidc", maxAge: 0 });
+    setSessionCookie(response, result.data.user);
+    return response;
+  } catch (e) {
+    console.error("[auth] OIDC callback error:", e);
+    return NextResponse.json({ error: "Sign-in failed" }, { status: 500 });
+  }
+}
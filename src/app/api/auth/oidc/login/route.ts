@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  OIDC_TRANSACTION_COOKIE,
+  OIDC_TRANSACTION_TTL_SECONDS,
+  beginOidcSignIn,
+  getAuthOrigin,
+  safeReturnTo,
+} from "@/lib/auth";
+
+/** GET /api/auth/oidc/login?returnTo=/path — start sign-in with the configured OpenID Connect provider */
+export async function GET(req: NextRequest) {
+  try {
+    const redirectUri = `${getAuthOrigin(req.nextUrl.origin)}/api/auth/oidc/callback`;
+    const result = await beginOidcSignIn(redirectUri, safeReturnTo(req.nextUrl.searchParams.get("returnTo")));
+    if (!result.ok) {
+      console.error("[auth] OIDC sign-in unavailable:", result.error);
+      return NextResponse.json({ error: result.error }, { status: 503 });
+    }
+    const response = NextResponse.redirect(result.data.url);
+    response.cookies.set(OIDC_TRANSACTION_COOKIE, result.data.transaction, {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      path: "/api/auth/oidc",
+      maxAge: OIDC_TRANSACTION_TTL_SECONDS,
+    });
+    return response;
+  } catch (e) {
+    console.error("[auth] OIDC login error:", e);
+    return NextResponse.json({ error: "Sign-in failed" }, { status: 500 });
+  }
+}
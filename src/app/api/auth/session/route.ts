@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+import { getAuthProviderName, getSessionUser } from "@/lib/auth";
+
+/** GET /api/auth/session — `{ user, provider }`; user is null when nobody is signed in */
+export async function GET() {
+  try {
+    return NextResponse.json({ user: await getSessionUser(), provider: getAuthProviderName() });
+  } catch (e) {
+    console.error("[auth] session error:", e);
+    return NextResponse.json({ error: "Failed to load session" }, { status: 500 });
+  }
+}
@@ -0,0 +1,9 @@
+import { NextRequest, NextResponse } from "next/server";
+import { clearSessionCookie } from "@/lib/auth";
+
+/** POST /api/auth/signout — clear the session and go back to the sign-in page */
+export async function POST(req: NextRequest) {
+  const response = NextResponse.redirect(new URL("/signin", req.url), 303);
+  clearSessionCookie(response);
+  return response;
+}
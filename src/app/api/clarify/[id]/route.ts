@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { answerClarification, findClarification, getClarificationView } from "@/lib/clarifications";
+import { canViewIntake } from "@/lib/intakeAccess";
+import { getIntake } from "@/lib/intakeStore";
+
+/**
+ * GET /api/clarify/:id?token=… — the questions behind a clarification link.
+ * Needs the token and a signed-in user who submitted the intake (or a reviewer).
+ */
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = await authorize();
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const token = req.nextUrl.searchParams.get("token") ?? "";
+    const intake = await getIntake(params.id);
+    const clarification = intake && token && canViewIntake(auth.data, intake) ? findClarification(intake, token) : undefined;
+    if (!intake || !clarification) {
+      return NextResponse.json({ error: "This clarification link is not valid" }, { status: 404 });
+    }
+    return NextResponse.json(await getClarificationView(intake, clarification, auth.data));
+  } catch (e) {
+    console.error("[clarify] load error:", e);
+    return NextResponse.json({ error: "Failed to load clarification questions" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/clarify/:id — body { token, answers: { [questionId]: text } }.
+ * Re-evaluates the affected sections and returns the updated view, including what changed.
+ */
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = await authorize();
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const intake = await getIntake(params.id);
+    if (!intake || !canViewIntake(auth.data, intake)) {
+      return NextResponse.json({ error: "This clarification link is not valid" }, { status: 404 });
+    }
+    const body = (await req.json().catch(() => null)) as { token?: unknown; answers?: unknown } | null;
+    if (!body || typeof body.token !== "string" || !body.answers || typeof body.answers !== "object") {
+      return NextResponse.json({ error: "Missing token or answers" }, { status: 400 });
+    }
+    const answers: Record<string, string> = {};
+    for (const [id, value] of Object.entries(body.answers as Record<string, unknown>)) {
+      if (typeof value === "string") answers[id] = value;
+    }
+    const result = await answerClarification(params.id, body.token, answers, auth.data);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json(await getClarificationView(result.data.intake, result.data.clarification, auth.data));
+  } catch (e) {
+    console.error("[clarify] answer error:", e);
+    return NextResponse.json({ error: "Failed to save your answers" }, { status: 500 });
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import {
+  COACHING_EVALUATORS,
+  listCoachingEvalRuns,
+  runAndCompare,
+  type CoachingEvaluator,
+} from "@/lib/coachingEval";
+
+/** GET /api/coaching-eval — stored coaching evaluation runs, newest first, with their headline metrics. Admins only. */
+export async function GET() {
+  try {
+    const auth = await authorize("admin");
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const runs = await listCoachingEvalRuns();
+    return NextResponse.json(
+      runs.map((run) => ({
+        id: run.id,
+        createdAt: run.createdAt,
+        provider: run.provider,
+        datasetVersion: run.datasetVersion,
+        reports: run.reports.map(({ evaluator, prompt, model, overall, riskDelta, errors }) => ({
+          evaluator,
+          prompt,
+          model,
+          precision: overall.precision,
+          recall: overall.recall,
+          riskDelta,
+          errors,
+        })),
+      }))
+    );
+  } catch (e) {
+    console.error("[coaching-eval] list error:", e);
+    return NextResponse.json({ error: "Failed to list evaluation runs" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/coaching-eval — body { evaluators?: ("rules" | "model")[], compareTo?: runId }. Runs the golden dataset
+ * through the offline rules and/or the configured model (both by default) and returns { run, diff }; the diff is
+ * against `compareTo` or the latest earlier run with the same evaluators, null for the first run. Admins only.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await authorize("admin");
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const body = (await req.json().catch(() => ({}))) as { evaluators?: unknown; compareTo?: unknown };
+    let evaluators = COACHING_EVALUATORS;
+    if (body.evaluators !== undefined) {
+      if (
+        !Array.isArray(body.evaluators) ||
+        body.evaluators.length === 0 ||
+        !body.evaluators.every((e) => COACHING_EVALUATORS.includes(e as CoachingEvaluator))
+      ) {
+        return NextResponse.json({ error: `evaluators must be a non-empty list of ${COACHING_EVALUATORS.join(", ")}` }, { status: 400 });
+      }
+      evaluators = COACHING_EVALUATORS.filter((e) => (body.evaluators as unknown[]).includes(e));
+    }
+    const compareTo = typeof body.compareTo === "string" && body.compareTo ? body.compareTo : undefined;
+
+    const result = await runAndCompare(evaluators, compareTo);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json(result.data, { status: 201 });
+  } catch (e) {
+    console.error("[coaching-eval] run error:", e);
+    const message = e instanceof Error && /golden dataset/.test(e.message) ? e.message : "Failed to run the coaching evaluation";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
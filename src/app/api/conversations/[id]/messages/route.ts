@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { continueConversation, conversationViewFor, getOwnConversation } from "@/lib/conversations";
+
+type Params = { params: { id: string } };
+
+/** POST /api/conversations/:id/messages — body { message }; returns the conversation with the assistant's reply */
+export async function POST(req: NextRequest, { params }: Params) {
+  try {
+    const auth = await authorize();
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const conversation = await getOwnConversation(params.id, auth.data);
+    if (!conversation.ok) {
+      return NextResponse.json({ error: conversation.error }, { status: conversation.status });
+    }
+    const body = (await req.json().catch(() => ({}))) as { message?: unknown };
+    const result = await continueConversation(conversation.data, body.message);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json(conversationViewFor(auth.data, result.data));
+  } catch (e) {
+    console.error("[conversations] message error:", e);
+    return NextResponse.json({ error: "Failed to send message" }, { status: 500 });
+  }
+}
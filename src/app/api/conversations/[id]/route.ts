@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { conversationViewFor, getOwnConversation } from "@/lib/conversations";
+
+type Params = { params: { id: string } };
+
+/** GET /api/conversations/:id — the transcript and extracted fields, to resume a chat-mode intake */
+export async function GET(_req: Request, { params }: Params) {
+  try {
+    const auth = await authorize();
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const conversation = await getOwnConversation(params.id, auth.data);
+    if (!conversation.ok) {
+      return NextResponse.json({ error: conversation.error }, { status: conversation.status });
+    }
+    return NextResponse.json(conversationViewFor(auth.data, conversation.data));
+  } catch (e) {
+    console.error("[conversations] get error:", e);
+    return NextResponse.json({ error: "Failed to load conversation" }, { status: 500 });
+  }
+}
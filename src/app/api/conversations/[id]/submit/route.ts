@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize, getAuthOrigin } from "@/lib/auth";
+import { conversationViewFor, getOwnConversation, submitConversation } from "@/lib/conversations";
+import { intakeViewFor } from "@/lib/intakeAccess";
+import { afterIntakeSubmitted } from "@/lib/integrations/afterSubmit";
+
+type Params = { params: { id: string } };
+
+/**
+ * POST /api/conversations/:id/submit — body { product_pillar?, quarter_slated_for? }. Submits a complete
+ * conversation as an intake (409 while fields are missing or once submitted); returns { conversation, intake }.
+ */
+export async function POST(req: NextRequest, { params }: Params) {
+  try {
+    const auth = await authorize();
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const conversation = await getOwnConversation(params.id, auth.data);
+    if (!conversation.ok) {
+      return NextResponse.json({ error: conversation.error }, { status: conversation.status });
+    }
+    const body = (await req.json().catch(() => ({}))) as { product_pillar?: unknown; quarter_slated_for?: unknown };
+    const result = await submitConversation(conversation.data, auth.data, {
+      product_pillar: typeof body.product_pillar === "string" ? body.product_pillar : undefined,
+      quarter_slated_for: typeof body.quarter_slated_for === "string" ? body.quarter_slated_for : undefined,
+    });
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    let intake = result.data.intake;
+    const reviewUrl = `${getAuthOrigin(req.nextUrl.origin)}/admin/intakes/${intake.id}`;
+    intake = await afterIntakeSubmitted(intake, reviewUrl);
+
+    return NextResponse.json(
+      { conversation: conversationViewFor(auth.data, result.data.conversation), intake: intakeViewFor(auth.data, intake) },
+      { status: 201 }
+    );
+  } catch (e) {
+    console.error("[conversations] submit error:", e);
+    return NextResponse.json({ error: "Failed to submit intake" }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { continueConversation, conversationViewFor, startConversation } from "@/lib/conversations";
+
+/**
+ * POST /api/conversations — start a chat-mode intake for the signed-in user. Body { message? }: with a message
+ * the first turn is answered straight away. Returns the conversation with the assistant's reply.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await authorize();
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const body = (await req.json().catch(() => ({}))) as { message?: unknown };
+    const conversation = await startConversation(auth.data.id);
+    if (body.message === undefined) {
+      return NextResponse.json(conversationViewFor(auth.data, conversation), { status: 201 });
+    }
+    const result = await continueConversation(conversation, body.message);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json(conversationViewFor(auth.data, result.data), { status: 201 });
+  } catch (e) {
+    console.error("[conversations] create error:", e);
+    return NextResponse.json({ error: "Failed to start conversation" }, { status: 500 });
+  }
+}
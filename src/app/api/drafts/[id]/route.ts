@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { StoredDraft } from "@/app/types";
+import { authorize } from "@/lib/auth";
+import { deleteDraft, getDraft, parseDraftState, saveDraft } from "@/lib/draftStore";
+
+type Params = { params: { id: string } };
+
+/** The draft if it belongs to the signed-in user; anyone else's looks missing */
+async function getOwnDraft(id: string): Promise<
+  { ok: true; data: StoredDraft } | { ok: false; error: string; status: number }
+> {
+  const auth = await authorize();
+  if (!auth.ok) return auth;
+  const draft = await getDraft(id);
+  if (!draft || draft.ownerId !== auth.data.id) return { ok: false, error: "Draft not found", status: 404 };
+  return { ok: true, data: draft };
+}
+
+/** GET /api/drafts/:id — load a draft to resume it */
+export async function GET(_req: Request, { params }: Params) {
+  try {
+    const draft = await getOwnDraft(params.id);
+    if (!draft.ok) {
+      return NextResponse.json({ error: draft.error }, { status: draft.status });
+    }
+    return NextResponse.json(draft.data);
+  } catch (e) {
+    console.error("[drafts] get error:", e);
+    return NextResponse.json({ error: "Failed to load draft" }, { status: 500 });
+  }
+}
+
+/** PUT /api/drafts/:id — autosave. Body: { state: IntakeDraftState } */
+export async function PUT(req: NextRequest, { params }: Params) {
+  try {
+    const own = await getOwnDraft(params.id);
+    if (!own.ok) {
+      return NextResponse.json({ error: own.error }, { status: own.status });
+    }
+    const parsed = parseDraftState(await req.json().catch(() => null));
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const draft = await saveDraft(params.id, parsed.data);
+    if (!draft) {
+      return NextResponse.json({ error: "Draft not found" }, { status: 404 });
+    }
+    return NextResponse.json({ id: draft.id, updatedAt: draft.updatedAt });
+  } catch (e) {
+    console.error("[drafts] save error:", e);
+    return NextResponse.json({ error: "Failed to save draft" }, { status: 500 });
+  }
+}
+
+/** DELETE /api/drafts/:id — discard a draft (e.g. once the intake is submitted) */
+export async function DELETE(_req: Request, { params }: Params) {
+  try {
+    const own = await getOwnDraft(params.id);
+    if (!own.ok) {
+      return NextResponse.json({ error: own.error }, { status: own.status });
+    }
+    const deleted = await deleteDraft(params.id);
+    if (!deleted) {
+      return NextResponse.json({ error: "Draft not found" }, { status: 404 });
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (e) {
+    console.error("[drafts] delete error:", e);
+    return NextResponse.json({ error: "Failed to delete draft" }, { status: 500 });
+  }
+}
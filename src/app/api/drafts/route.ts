@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { createDraft, parseDraftState } from "@/lib/draftStore";
+
+/**
+ * POST /api/drafts — start a server-side draft for an in-progress intake.
+ * Body: { state: IntakeDraftState }. The draft belongs to the signed-in user. Returns the stored draft; its id goes in the resume link (/?draft=<id>).
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await authorize();
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const parsed = parseDraftState(await req.json().catch(() => null));
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const draft = await createDraft(parsed.data, auth.data.id);
+    return NextResponse.json(draft, { status: 201 });
+  } catch (e) {
+    console.error("[drafts] create error:", e);
+    return NextResponse.json({ error: "Failed to save draft" }, { status: 500 });
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { loadFormDefinition } from "@/lib/formDefinition";
+
+export const dynamic = "force-dynamic";
+
+/** GET /api/form-definition — the intake form the wizard renders (sections, copy, prompts) */
+export async function GET() {
+  try {
+    const auth = await authorize();
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    return NextResponse.json(await loadFormDefinition());
+  } catch (e) {
+    console.error("[form-definition] error:", e);
+    return NextResponse.json({ error: "Form definition could not be loaded" }, { status: 500 });
+  }
+}
@@ -1,7 +1,21 @@
 import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { generateImage } from "@/lib/llm";
+import { resolvePrompt } from "@/lib/prompts";
+import { saveUpload } from "@/lib/uploadStore";
+
+/**
+ * POST /api/generate-mockup — body { intentSummary, objectives? }
+ * Generate a mockup image and keep it as an upload owned by the requester. Returns { uploadId, prompt }; the wizard
+ * shows it from /api/uploads/:uploadId and submits the id with the intake.
+ */
 
 export async function POST(req: Request) {
   try {
+    const auth = await authorize();
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
     const body = await req.json();
     const { intentSummary, objectives } = body;
 
@@ -20,81 +34,25 @@ export async function POST(req: Request) {
     const truncatedObjectives =
       objectivesStr.length > 200 ? objectivesStr.slice(0, 200) + "…" : objectivesStr;
 
-    const prompt = `
-Create a clean SaaS product UI mockup.
-
-Screen Purpose:
-A UX Design Request Intake Assistant
-
-User Goal:
-${truncatedIntent}
-
-Business Objectives:
-${truncatedObjectives || "Not specified"}
-
-Layout Should Include:
-- AI assistant welcome panel
-- User response area
-- Request summary card
-- Suggested solution preview
-- Progress indicator
-
-Style:
-- Modern enterprise SaaS
-- Wireframe fidelity
-- Neutral tones
-- Desktop layout
-- Product management tooling feel
-
-Goal:
-Help teams visualize a structured design request flow before submission
-`.trim();
-
-    const finalPrompt = prompt.length > 1000 ? prompt.slice(0, 997) + "…" : prompt;
-
-    const response = await fetch("https://api.openai.com/v1/images/generations", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: "dall-e-2",
-        prompt: finalPrompt,
-        n: 1,
-        size: "1024x1024",
-        response_format: "b64_json",
-      }),
+    const prompt = await resolvePrompt("mockup-image", {
+      intent: truncatedIntent,
+      objectives: truncatedObjectives || "Not specified",
     });
 
-    const data = await response.json();
+    const finalPrompt = prompt.text.length > 1000 ? prompt.text.slice(0, 997) + "…" : prompt.text;
+
+    const result = await generateImage(finalPrompt);
 
-    if (!response.ok) {
-      console.error("Image generation failed:", data);
-      const message = (data as { error?: { message?: string } })?.error?.message || "Image generation failed";
+    if (!result.ok) {
+      console.error("Image generation failed:", result.error);
       return NextResponse.json(
-        { error: message, details: data },
-        { status: response.status }
+        { error: result.error },
+        { status: result.status ?? 502 }
       );
     }
 
-    const first = Array.isArray((data as { data?: unknown[] }).data)
-      ? (data as { data: unknown[] }).data[0]
-      : null;
-    const imagePayload = first as { b64_json?: string; url?: string } | null;
-
-    if (imagePayload?.b64_json) {
-      return NextResponse.json({ image: imagePayload.b64_json });
-    }
-    if (imagePayload?.url) {
-      return NextResponse.json({ imageUrl: imagePayload.url });
-    }
-
-    console.error("Unexpected image response shape:", data);
-    return NextResponse.json(
-      { error: "Image response missing b64_json or url" },
-      { status: 500 }
-    );
+    const upload = await saveUpload("mockup.png", "image/png", Buffer.from(result.data.b64, "base64"), auth.data.id);
+    return NextResponse.json({ uploadId: upload.id, prompt: prompt.ref });
 
   } catch (e) {
     console.error("generate-mockup error:", e);
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { clarificationLink, parseClarificationQuestions, requestClarification } from "@/lib/clarifications";
+
+/**
+ * POST /api/intakes/:id/clarifications — reviewers only; body { questions: [{ section, question }] }.
+ * Returns the new round and the link to send the requester (relative to this app).
+ */
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = await authorize("reviewer");
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const body = (await req.json().catch(() => null)) as { questions?: unknown } | null;
+    const questions = parseClarificationQuestions(body?.questions);
+    if (!questions.ok) {
+      return NextResponse.json({ error: questions.error }, { status: 400 });
+    }
+    const result = await requestClarification(params.id, questions.data, auth.data);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    const { clarification } = result.data;
+    return NextResponse.json(
+      { clarification, link: clarificationLink(params.id, clarification.token) },
+      { status: 201 }
+    );
+  } catch (e) {
+    console.error("[clarifications] request error:", e);
+    return NextResponse.json({ error: "Failed to send clarification questions" }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize, canSeeRisk } from "@/lib/auth";
+import { EXPORT_FORMATS, exportIntake, isExportFormat } from "@/lib/export";
+import { canViewIntake } from "@/lib/intakeAccess";
+import { getIntake } from "@/lib/intakeStore";
+
+/**
+ * GET /api/intakes/:id/export?format=markdown|pdf|docx[&review=true]
+ * Download the complete intake: answers, design request summary, reference concept and mockup. `review=true` adds
+ * the UX internal view (risk score, flags, recommended action, coaching) and is for reviewers only.
+ */
+export async function GET(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = await authorize();
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const format = req.nextUrl.searchParams.get("format") ?? "pdf";
+    if (!isExportFormat(format)) {
+      return NextResponse.json({ error: `format must be one of ${EXPORT_FORMATS.join(", ")}` }, { status: 400 });
+    }
+    const includeReview = req.nextUrl.searchParams.get("review") === "true";
+    if (includeReview && !canSeeRisk(auth.data)) {
+      return NextResponse.json({ error: "Only reviewers can export the UX internal view" }, { status: 403 });
+    }
+    const intake = await getIntake(params.id);
+    if (!intake || !canViewIntake(auth.data, intake)) {
+      return NextResponse.json({ error: "Intake not found" }, { status: 404 });
+    }
+    const file = await exportIntake(intake, format, { includeReview });
+    return new NextResponse(new Uint8Array(file.content), {
+      headers: {
+        "Content-Type": file.contentType,
+        "Content-Length": String(file.content.length),
+        "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(file.fileName)}`,
+      },
+    });
+  } catch (e) {
+    console.error("[intakes] export error:", e);
+    return NextResponse.json({ error: "Export failed" }, { status: 500 });
+  }
+}
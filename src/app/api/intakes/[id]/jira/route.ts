@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize, getAuthOrigin } from "@/lib/auth";
+import { getIntake } from "@/lib/intakeStore";
+import { syncIntakeToJira } from "@/lib/integrations/jira";
+
+/**
+ * POST /api/intakes/:id/jira — admins only; body { issueType? } (e.g. "Epic", defaults to JIRA_ISSUE_TYPE)
+ * Create the Jira issue for an intake and attach its supporting documents (no-op if it was already exported).
+ * Returns the updated intake with integrations.jira.key set.
+ */
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = await authorize("admin");
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const body = (await req.json().catch(() => ({}))) as { issueType?: unknown } | null;
+    const issueType = body?.issueType;
+    if (issueType !== undefined && (typeof issueType !== "string" || !issueType.trim())) {
+      return NextResponse.json({ error: "issueType must be a Jira issue type name" }, { status: 400 });
+    }
+    const intake = await getIntake(params.id);
+    if (!intake) {
+      return NextResponse.json({ error: "Intake not found" }, { status: 404 });
+    }
+    const result = await syncIntakeToJira(intake, {
+      issueType: issueType?.trim(),
+      intakeUrl: `${getAuthOrigin(req.nextUrl.origin)}/admin/intakes/${intake.id}`,
+    });
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: 502 });
+    }
+    return NextResponse.json(result.data);
+  } catch (e) {
+    console.error("[intakes] Jira export error:", e);
+    return NextResponse.json({ error: "Jira export failed" }, { status: 500 });
+  }
+}
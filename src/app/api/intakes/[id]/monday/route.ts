@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { getIntake } from "@/lib/intakeStore";
+import { syncIntakeToMonday } from "@/lib/integrations/monday";
+
+/**
+ * POST /api/intakes/:id/monday — admins only
+ * Create the Monday.com board item for an intake (no-op if it was already exported).
+ * Returns the updated intake with integrations.monday.id set.
+ */
+export async function POST(_req: Request, { params }: { params: { id: string } }) {
+  try {
+    const auth = await authorize("admin");
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const intake = await getIntake(params.id);
+    if (!intake) {
+      return NextResponse.json({ error: "Intake not found" }, { status: 404 });
+    }
+    const result = await syncIntakeToMonday(intake);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: 502 });
+    }
+    return NextResponse.json(result.data);
+  } catch (e) {
+    console.error("[intakes] Monday.com export error:", e);
+    return NextResponse.json({ error: "Monday.com export failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { canViewIntake, intakeViewFor } from "@/lib/intakeAccess";
+import { getIntake } from "@/lib/intakeStore";
+
+/** GET /api/intakes/:id — reviewers get the full record; the requester who submitted it gets it without risk details */
+export async function GET(_req: Request, { params }: { params: { id: string } }) {
+  try {
+    const auth = await authorize();
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const intake = await getIntake(params.id);
+    if (!intake || !canViewIntake(auth.data, intake)) {
+      return NextResponse.json({ error: "Intake not found" }, { status: 404 });
+    }
+    return NextResponse.json(intakeViewFor(auth.data, intake));
+  } catch (e) {
+    console.error("[intakes] get error:", e);
+    return NextResponse.json({ error: "Failed to load intake" }, { status: 500 });
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize, canSeeRisk } from "@/lib/auth";
+import { canViewIntake } from "@/lib/intakeAccess";
+import { getIntake, transitionIntakeStatus } from "@/lib/intakeStore";
+import { allowedTransitions, getStatus, isIntakeStatus } from "@/lib/intakeStatus";
+
+/**
+ * GET /api/intakes/:id/status — current status, allowed next statuses and the transition history.
+ * The requester who submitted the intake gets the current status only.
+ */
+export async function GET(_req: Request, { params }: { params: { id: string } }) {
+  try {
+    const auth = await authorize();
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const intake = await getIntake(params.id);
+    if (!intake || !canViewIntake(auth.data, intake)) {
+      return NextResponse.json({ error: "Intake not found" }, { status: 404 });
+    }
+    if (!canSeeRisk(auth.data)) {
+      return NextResponse.json({ status: getStatus(intake) });
+    }
+    return NextResponse.json({
+      status: getStatus(intake),
+      allowed: allowedTransitions(intake),
+      history: intake.statusHistory ?? [],
+    });
+  } catch (e) {
+    console.error("[intakes] status load error:", e);
+    return NextResponse.json({ error: "Failed to load status" }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/intakes/:id/status — reviewers only; body { status, reason? }. Recorded as changed by the signed-in user.
+ * 409 when the workflow does not allow the move; returns the updated intake.
+ */
+export async function POST(req: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const auth = await authorize("reviewer");
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const body = (await req.json().catch(() => null)) as { status?: unknown; reason?: unknown } | null;
+    if (!body || !isIntakeStatus(body.status)) {
+      return NextResponse.json({ error: "Missing or unknown status" }, { status: 400 });
+    }
+    if (body.reason !== undefined && typeof body.reason !== "string") {
+      return NextResponse.json({ error: "reason must be text" }, { status: 400 });
+    }
+    const result = await transitionIntakeStatus(params.id, body.status, auth.data, body.reason as string | undefined);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    return NextResponse.json(result.data);
+  } catch (e) {
+    console.error("[intakes] status change error:", e);
+    return NextResponse.json({ error: "Failed to change status" }, { status: 500 });
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize, canSeeRisk, getAuthOrigin } from "@/lib/auth";
+import { loadFormDefinition } from "@/lib/formDefinition";
+import { canViewIntake, intakeViewFor } from "@/lib/intakeAccess";
+import { checkSubmissionUploads, createIntake, listIntakes, parseIntakeSubmission } from "@/lib/intakeStore";
+import { afterIntakeSubmitted } from "@/lib/integrations/afterSubmit";
+import { resolveSubmittedFeedbacks } from "@/lib/sealedFeedback";
+
+/**
+ * POST /api/intakes — persist a completed intake from the wizard, owned by the signed-in user.
+ * Risk score, flags and recommended action are recomputed from the sealed section evaluations.
+ * Returns the stored intake as the caller may see it.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await authorize();
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const body = await req.json().catch(() => null);
+    const parsed = parseIntakeSubmission(body, await loadFormDefinition());
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const uploads = await checkSubmissionUploads(parsed.data, auth.data);
+    if (!uploads.ok) {
+      return NextResponse.json({ error: uploads.error }, { status: 400 });
+    }
+    const { id, name, email } = auth.data;
+    const feedbacks = await resolveSubmittedFeedbacks(parsed.data, auth.data);
+    let intake = await createIntake(parsed.data, feedbacks, { id, name, email });
+
+    const reviewUrl = `${getAuthOrigin(req.nextUrl.origin)}/admin/intakes/${intake.id}`;
+    intake = await afterIntakeSubmitted(intake, reviewUrl);
+
+    return NextResponse.json(intakeViewFor(auth.data, intake), { status: 201 });
+  } catch (e) {
+    console.error("[intakes] create error:", e);
+    return NextResponse.json({ error: "Failed to save intake" }, { status: 500 });
+  }
+}
+
+/** GET /api/intakes — newest first: every intake for reviewers, a requester's own (without risk details) otherwise */
+export async function GET() {
+  try {
+    const auth = await authorize();
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const intakes = await listIntakes();
+    const user = auth.data;
+    return NextResponse.json({
+      intakes: canSeeRisk(user)
+        ? intakes
+        : intakes.filter((intake) => canViewIntake(user, intake)).map((intake) => intakeViewFor(user, intake)),
+    });
+  } catch (e) {
+    console.error("[intakes] list error:", e);
+    return NextResponse.json({ error: "Failed to load intakes" }, { status: 500 });
+  }
+}
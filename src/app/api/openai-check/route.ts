@@ -1,80 +1,73 @@
 import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import {
+  chatCompletion,
+  getFixturesDir,
+  getLlmHealth,
+  getProviderConfig,
+  getProviderName,
+  getRouteSettings,
+  isRecordingFixtures,
+} from "@/lib/llm";
 
 /**
  * GET /api/openai-check
- * Diagnose OpenAI: is the key set, and can we reach the API?
+ * Diagnose the configured model provider: is it configured, and can we reach it? Admins only.
+ * Also reports the circuit breaker and the last few minutes of calls (`health`); while the breaker is open the
+ * probe itself is short-circuited, so `reachable: false` then reflects the breaker rather than a fresh call.
  * Open in browser: http://localhost:3000/api/openai-check
  */
 export async function GET() {
-  const keySet = !!process.env.OPENAI_API_KEY?.trim();
+  const auth = await authorize("admin");
+  if (!auth.ok) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+  const provider = getProviderName();
+  const config = getProviderConfig();
 
-  if (!keySet) {
+  if (!config.ok) {
     return NextResponse.json({
+      provider,
       keySet: false,
-      message: "OPENAI_API_KEY is not set in .env.local. Add it and restart the server.",
+      message: config.error,
+      health: getLlmHealth(),
     });
   }
 
-  try {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 10_000);
-
-    const res = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      signal: controller.signal,
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: "gpt-4o-mini",
-        messages: [{ role: "user", content: "Hi" }],
-        max_tokens: 1,
-      }),
-    });
-
-    clearTimeout(timeoutId);
-
-    if (res.ok) {
-      return NextResponse.json({
-        keySet: true,
-        reachable: true,
-        message: "OpenAI is working. Feedback in the form will use AI.",
-      });
-    }
-
-    const errText = await res.text();
-    let detail = `HTTP ${res.status}`;
-    try {
-      const errJson = JSON.parse(errText) as { error?: { message?: string } };
-      if (errJson?.error?.message) detail = errJson.error.message.slice(0, 150);
-    } catch {
-      // use status
-    }
-
+  if (config.data.provider === "replay") {
     return NextResponse.json({
-      keySet: true,
-      reachable: false,
-      error: detail,
-      message:
-        res.status === 401
-          ? "Invalid API key. Create a new key at platform.openai.com and update .env.local."
-          : res.status === 429
-            ? "Rate limited. Try again in a moment."
-            : `OpenAI returned an error: ${detail}`,
+      provider,
+      keySet: false,
+      message: `Replaying recorded responses from ${getFixturesDir()}; no model is called. Requests without a recording fall back to placeholders.`,
+      health: getLlmHealth(),
     });
-  } catch (e) {
-    const msg = e instanceof Error ? e.message : String(e);
-    const isNetwork =
-      /fetch failed|ECONNREFUSED|ENOTFOUND|ETIMEDOUT|AbortError/i.test(msg);
+  }
+
+  const model = getRouteSettings("connection-check").model;
+  const result = await chatCompletion("connection-check", [{ role: "user", content: "Hi" }]);
 
+  if (result.ok) {
     return NextResponse.json({
+      provider,
+      model,
       keySet: true,
-      reachable: false,
-      error: msg,
-      message: isNetwork
-        ? "Cannot reach OpenAI (network error). Try: different network (e.g. phone hotspot), turn off VPN, or ask IT to allow api.openai.com."
-        : `Request failed: ${msg}`,
+      reachable: true,
+      message: `${config.data.label} is working. Feedback in the form will use AI.`,
+      ...(isRecordingFixtures() && { recordingTo: getFixturesDir() }),
+      health: getLlmHealth(),
     });
   }
+
+  return NextResponse.json({
+    provider,
+    model,
+    keySet: true,
+    reachable: false,
+    error: result.error,
+    message:
+      result.status === 401
+        ? "Invalid API key. Create a new key with your provider and update .env.local."
+        : result.error,
+    health: getLlmHealth(),
+  });
 }
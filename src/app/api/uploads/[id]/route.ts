@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import { canDownloadUpload } from "@/lib/intakeAccess";
+import { getUpload, getUploadContent } from "@/lib/uploadStore";
+
+/** GET /api/uploads/:id — download an uploaded supporting document (the uploader's own, or any for reviewers) */
+export async function GET(_req: Request, { params }: { params: { id: string } }) {
+  try {
+    const auth = await authorize();
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const upload = await getUpload(params.id);
+    const doc = upload && canDownloadUpload(auth.data, upload) ? upload : null;
+    const content = doc ? await getUploadContent(doc.id) : null;
+    if (!doc || !content) {
+      return NextResponse.json({ error: "Upload not found" }, { status: 404 });
+    }
+    return new NextResponse(new Uint8Array(content), {
+      headers: {
+        "Content-Type": doc.contentType,
+        "Content-Length": String(doc.size),
+        "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(doc.fileName)}`,
+      },
+    });
+  } catch (e) {
+    console.error("[uploads] download error:", e);
+    return NextResponse.json({ error: "Failed to load upload" }, { status: 500 });
+  }
+}
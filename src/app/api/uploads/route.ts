@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth";
+import {
+  ALLOWED_EXTENSIONS,
+  MAX_FILES_PER_REQUEST,
+  MAX_UPLOAD_BYTES,
+  isAllowedFileName,
+  saveUpload,
+} from "@/lib/uploadStore";
+
+/**
+ * POST /api/uploads
+ * multipart/form-data with one or more "files" fields.
+ * Returns: { uploads: UploadedDocument[] } — record the ids on the intake's supporting_documents.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const auth = await authorize();
+    if (!auth.ok) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const form = await req.formData().catch(() => null);
+    if (!form) {
+      return NextResponse.json({ error: "Expected multipart/form-data" }, { status: 400 });
+    }
+    const files = form.getAll("files").filter((f): f is File => typeof f !== "string");
+    if (files.length === 0) {
+      return NextResponse.json({ error: "No files provided" }, { status: 400 });
+    }
+    if (files.length > MAX_FILES_PER_REQUEST) {
+      return NextResponse.json(
+        { error: `Upload at most ${MAX_FILES_PER_REQUEST} files at a time` },
+        { status: 400 }
+      );
+    }
+    for (const file of files) {
+      if (!isAllowedFileName(file.name)) {
+        return NextResponse.json(
+          { error: `${file.name}: unsupported file type (allowed: ${ALLOWED_EXTENSIONS.join(", ")})` },
+          { status: 400 }
+        );
+      }
+      if (file.size > MAX_UPLOAD_BYTES) {
+        return NextResponse.json(
+          { error: `${file.name} is larger than ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB` },
+          { status: 413 }
+        );
+      }
+    }
+
+    const uploads = [];
+    for (const file of files) {
+      uploads.push(await saveUpload(file.name, file.type, Buffer.from(await file.arrayBuffer()), auth.data.id));
+    }
+    return NextResponse.json({ uploads }, { status: 201 });
+  } catch (e) {
+    console.error("[uploads] error:", e);
+    return NextResponse.json({ error: "Upload failed" }, { status: 500 });
+  }
+}
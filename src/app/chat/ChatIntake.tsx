@@ -0,0 +1,278 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useRef, useState } from "react";
+import type { DesignRequestSummaryField } from "@/app/types";
+import { PRODUCT_PILLARS, QUARTERS, formatQuarter, quarterYearOptions, type Quarter } from "@/app/intakeOptions";
+import type { ConversationView } from "@/lib/conversations";
+import { DESIGN_REQUEST_SUMMARY_LABELS } from "@/lib/intakeText";
+
+const SELECT_CLASS =
+  "w-full rounded-xl border border-slate-500/50 bg-slate-800/50 px-3 py-2 text-slate-100 focus:border-cyan-400/60 focus:outline-none focus:ring-2 focus:ring-cyan-400/30";
+
+/** Chat-mode intake: the transcript on the left, the summary fields gathered so far on the right */
+export function ChatIntake({
+  greeting,
+  initialConversation,
+  canSeeRisk,
+}: {
+  greeting: string;
+  initialConversation: ConversationView | null;
+  canSeeRisk: boolean;
+}) {
+  const [conversation, setConversation] = useState(initialConversation);
+  const [message, setMessage] = useState("");
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [productPillar, setProductPillar] = useState("");
+  const [quarter, setQuarter] = useState<Quarter | "">("");
+  const [quarterYear, setQuarterYear] = useState(() => new Date().getFullYear());
+  const [submitting, setSubmitting] = useState(false);
+  const transcriptEnd = useRef<HTMLDivElement>(null);
+
+  const turns = conversation?.turns ?? [{ role: "assistant" as const, content: greeting, at: "" }];
+  const lastReply = [...turns].reverse().find((t) => t.role === "assistant");
+  const complete = conversation !== null && conversation.missingFields.length === 0;
+  const submitted = !!conversation?.intakeId;
+
+  useEffect(() => {
+    transcriptEnd.current?.scrollIntoView({ behavior: "smooth", block: "end" });
+  }, [turns.length]);
+
+  const send = async () => {
+    const text = message.trim();
+    if (!text) return;
+    setSending(true);
+    setError(null);
+    try {
+      const res = await fetch(conversation ? `/api/conversations/${conversation.id}/messages` : "/api/conversations", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ message: text }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error((data as { error?: string }).error || "Could not send your message");
+      const updated = data as ConversationView;
+      if (!conversation) window.history.replaceState(null, "", `/chat?conversation=${updated.id}`);
+      setConversation(updated);
+      setMessage("");
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not send your message");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const submit = async () => {
+    if (!conversation) return;
+    setSubmitting(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/conversations/${conversation.id}/submit`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          product_pillar: productPillar || undefined,
+          quarter_slated_for: quarter ? formatQuarter(quarter, quarterYear) : undefined,
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error((data as { error?: string }).error || "Could not submit your intake");
+      setConversation((data as { conversation: ConversationView }).conversation);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not submit your intake");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto p-6">
+      <div className="mb-6 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-100">Design Intake Assistant — chat</h1>
+          <p className="text-slate-400 text-sm mt-1">
+            Talk it through in your own words; the assistant asks about anything the design team still needs.
+          </p>
+        </div>
+        <Link href="/" className="btn-ghost shrink-0">
+          Use the step-by-step form
+        </Link>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[minmax(0,3fr)_minmax(0,2fr)]">
+        <div className="glass-card p-6 space-y-4 shadow-2xl shadow-slate-900/50">
+          <div className="max-h-[60vh] overflow-y-auto space-y-3 pr-1" aria-live="polite">
+            {turns.map((turn, i) => (
+              <div key={i} className={turn.role === "user" ? "flex justify-end" : "flex justify-start"}>
+                <p
+                  className={
+                    turn.role === "user"
+                      ? "max-w-[85%] rounded-xl bg-cyan-500/20 border border-cyan-500/30 px-4 py-2 text-sm text-cyan-50 whitespace-pre-wrap"
+                      : "max-w-[85%] rounded-xl bg-slate-800/60 border border-slate-600/50 px-4 py-2 text-sm text-slate-200 whitespace-pre-wrap"
+                  }
+                >
+                  {turn.content}
+                </p>
+              </div>
+            ))}
+            {sending && <p className="text-sm text-slate-500">Thinking…</p>}
+            <div ref={transcriptEnd} />
+          </div>
+
+          {lastReply?.openaiError && (
+            <div className="rounded-lg border border-amber-500/50 bg-amber-500/10 px-3 py-2 text-sm text-amber-200">
+              <span className="font-medium">OpenAI unavailable (using scripted questions):</span> {lastReply.openaiError}
+            </div>
+          )}
+          {error && (
+            <p className="text-sm text-red-300 bg-red-500/20 border border-red-500/40 px-3 py-2 rounded-xl">{error}</p>
+          )}
+
+          {!submitted && (
+            <div className="space-y-2">
+              <label htmlFor="chat-message" className="sr-only">
+                Your message
+              </label>
+              <textarea
+                id="chat-message"
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" && !e.shiftKey) {
+                    e.preventDefault();
+                    if (!sending) void send();
+                  }
+                }}
+                placeholder={complete ? "Anything else to add or correct?" : "Type your answer…"}
+                rows={3}
+                disabled={sending || submitting}
+                className="w-full rounded-xl border border-slate-500/50 bg-slate-800/50 px-3 py-2 text-slate-100 placeholder-slate-500 focus:border-cyan-400/60 focus:outline-none focus:ring-2 focus:ring-cyan-400/30 disabled:opacity-60"
+              />
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-xs text-slate-500">Enter to send, Shift+Enter for a new line.</p>
+                <button
+                  type="button"
+                  onClick={send}
+                  disabled={sending || submitting || !message.trim()}
+                  className="btn-gradient rounded-xl px-4 py-2 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {sending ? "Sending…" : "Send"}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="glass-card p-6 space-y-4 shadow-2xl shadow-slate-900/50 self-start">
+          <h2 className="font-semibold text-slate-100">What we have so far</h2>
+          <dl className="space-y-3 text-sm">
+            {(Object.keys(DESIGN_REQUEST_SUMMARY_LABELS) as DesignRequestSummaryField[]).map((field) => {
+              const value = conversation?.extracted[field];
+              return (
+                <div key={field}>
+                  <dt className="font-medium text-slate-500">{DESIGN_REQUEST_SUMMARY_LABELS[field]}</dt>
+                  <dd className={value ? "mt-1 text-slate-200 whitespace-pre-wrap" : "mt-1 text-slate-500 italic"}>
+                    {value || "Still needed"}
+                  </dd>
+                </div>
+              );
+            })}
+          </dl>
+          {canSeeRisk && conversation?.flags && conversation.flags.length > 0 && (
+            <div>
+              <p className="text-xs font-medium uppercase tracking-wider text-slate-500 mb-1">Flags</p>
+              <div className="flex flex-wrap gap-2">
+                {conversation.flags.map((flag) => (
+                  <span key={flag} className="rounded-lg border border-amber-500/40 bg-amber-500/10 px-2 py-0.5 text-xs text-amber-200">
+                    {flag}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {submitted ? (
+            <div className="rounded-xl border border-cyan-500/30 bg-cyan-500/10 p-4 space-y-2">
+              <p className="text-sm font-medium text-cyan-200">Thanks — your request has been submitted to the UX team.</p>
+              <Link href="/intakes" className="text-sm text-cyan-300 underline hover:text-cyan-200">
+                Follow it in My intakes
+              </Link>
+            </div>
+          ) : (
+            complete && (
+              <div className="space-y-3 border-t border-slate-600/50 pt-4">
+                <div>
+                  <label htmlFor="chat-pillar" className="block text-sm font-medium text-slate-400 mb-1">
+                    Product pillar
+                  </label>
+                  <select
+                    id="chat-pillar"
+                    value={productPillar}
+                    onChange={(e) => setProductPillar(e.target.value)}
+                    className={SELECT_CLASS}
+                    disabled={submitting}
+                  >
+                    <option value="">Select a pillar…</option>
+                    {PRODUCT_PILLARS.map((p) => (
+                      <option key={p} value={p}>
+                        {p}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label htmlFor="chat-quarter" className="block text-sm font-medium text-slate-400 mb-1">
+                      Quarter
+                    </label>
+                    <select
+                      id="chat-quarter"
+                      value={quarter}
+                      onChange={(e) => setQuarter(e.target.value as Quarter | "")}
+                      className={SELECT_CLASS}
+                      disabled={submitting}
+                    >
+                      <option value="">Not sure yet</option>
+                      {QUARTERS.map((q) => (
+                        <option key={q} value={q}>
+                          {q}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="chat-quarter-year" className="block text-sm font-medium text-slate-400 mb-1">
+                      Year
+                    </label>
+                    <select
+                      id="chat-quarter-year"
+                      value={quarterYear}
+                      onChange={(e) => setQuarterYear(Number(e.target.value))}
+                      className={SELECT_CLASS}
+                      disabled={submitting || !quarter}
+                    >
+                      {quarterYearOptions().map((y) => (
+                        <option key={y} value={y}>
+                          {y}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={submit}
+                  disabled={submitting || sending}
+                  className="btn-gradient w-full rounded-xl px-4 py-2 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {submitting ? "Submitting…" : "Submit intake"}
+                </button>
+              </div>
+            )
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
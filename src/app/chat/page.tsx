@@ -0,0 +1,20 @@
+import { ChatIntake } from "@/app/chat/ChatIntake";
+import { canSeeRisk, requirePageUser } from "@/lib/auth";
+import { CONVERSATION_GREETING, conversationViewFor, getOwnConversation } from "@/lib/conversations";
+
+export const dynamic = "force-dynamic";
+
+/** /chat — chat-mode intake; `?conversation=<id>` resumes one of the user's own conversations */
+export default async function ChatPage({ searchParams }: { searchParams: { conversation?: string } }) {
+  const user = await requirePageUser(
+    searchParams.conversation ? `/chat?conversation=${encodeURIComponent(searchParams.conversation)}` : "/chat"
+  );
+  const existing = searchParams.conversation ? await getOwnConversation(searchParams.conversation, user) : null;
+  return (
+    <ChatIntake
+      greeting={CONVERSATION_GREETING}
+      initialConversation={existing?.ok ? conversationViewFor(user, existing.data) : null}
+      canSeeRisk={canSeeRisk(user)}
+    />
+  );
+}
@@ -0,0 +1,102 @@
+"use client";
+
+import { useState } from "react";
+import { ClarificationOutcomeSummary } from "@/app/components/ClarificationOutcomeSummary";
+import type { ClarificationView } from "@/lib/clarifications";
+
+/** Questions inline with the answers they refer to; submitting re-runs coaching and the summary */
+export function ClarifyForm({
+  intakeId,
+  token,
+  initialView,
+}: {
+  intakeId: string;
+  token: string;
+  initialView: ClarificationView;
+}) {
+  const [view, setView] = useState(initialView);
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const answered = view.outcome !== undefined;
+
+  const submit = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/clarify/${intakeId}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, answers }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error((data as { error?: string }).error || "Could not save your answers");
+      setView(data as ClarificationView);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not save your answers");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto p-6">
+      <div className="glass-card p-8 space-y-6 shadow-2xl shadow-slate-900/50">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-100">A few questions about {view.project}</h1>
+          <p className="text-slate-400 text-sm mt-1">
+            {view.requestedBy} from the UX team needs a little more detail before planning this work.
+          </p>
+        </div>
+
+        {view.questions.map((q) => (
+          <div key={q.id} className="space-y-2">
+            <p className="text-xs font-medium uppercase tracking-wider text-slate-500">{q.heading}</p>
+            {!answered && q.currentAnswer.trim() && (
+              <div className="rounded-xl border border-slate-500/40 bg-slate-800/40 px-4 py-2 text-sm text-slate-300 whitespace-pre-wrap">
+                {q.currentAnswer.trim()}
+              </div>
+            )}
+            <label htmlFor={`answer-${q.id}`} className="block text-sm font-medium text-slate-200">
+              {q.question}
+            </label>
+            {answered ? (
+              <p className="text-sm text-slate-300 whitespace-pre-wrap">{q.answer}</p>
+            ) : (
+              <textarea
+                id={`answer-${q.id}`}
+                value={answers[q.id] ?? ""}
+                onChange={(e) => setAnswers((prev) => ({ ...prev, [q.id]: e.target.value }))}
+                rows={4}
+                disabled={saving}
+                className="w-full rounded-xl border border-slate-500/50 bg-slate-800/50 px-3 py-2 text-slate-100 placeholder-slate-500 focus:border-cyan-400/60 focus:outline-none focus:ring-2 focus:ring-cyan-400/30 disabled:opacity-60"
+              />
+            )}
+          </div>
+        ))}
+
+        {error && (
+          <p className="text-sm text-red-300 bg-red-500/20 border border-red-500/40 px-3 py-2 rounded-xl">{error}</p>
+        )}
+
+        {answered && view.outcome ? (
+          <div className="rounded-xl border border-cyan-500/30 bg-cyan-500/10 p-4 space-y-2">
+            <p className="text-sm font-medium text-cyan-200">Thanks — your answers were added to the request.</p>
+            <ClarificationOutcomeSummary outcome={view.outcome} />
+          </div>
+        ) : (
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={submit}
+              disabled={saving || view.questions.some((q) => !answers[q.id]?.trim())}
+              className="btn-gradient rounded-xl px-4 py-2 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? "Updating your request…" : "Send answers"}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
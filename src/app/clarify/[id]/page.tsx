@@ -0,0 +1,33 @@
+import { notFound } from "next/navigation";
+import { ClarifyForm } from "@/app/clarify/[id]/ClarifyForm";
+import { requirePageUser } from "@/lib/auth";
+import { findClarification, getClarificationView } from "@/lib/clarifications";
+import { canViewIntake } from "@/lib/intakeAccess";
+import { getIntake } from "@/lib/intakeStore";
+
+export const dynamic = "force-dynamic";
+
+/** /clarify/[id]?token=… — where a requester answers the UX team's clarification questions */
+export default async function ClarifyPage({
+  params,
+  searchParams,
+}: {
+  params: { id: string };
+  searchParams: { token?: string };
+}) {
+  const user = await requirePageUser(
+    `/clarify/${params.id}${searchParams.token ? `?token=${encodeURIComponent(searchParams.token)}` : ""}`
+  );
+  const intake = await getIntake(params.id);
+  const clarification =
+    intake && searchParams.token && canViewIntake(user, intake) ? findClarification(intake, searchParams.token) : undefined;
+  if (!intake || !clarification) notFound();
+
+  return (
+    <ClarifyForm
+      intakeId={intake.id}
+      token={clarification.token}
+      initialView={await getClarificationView(intake, clarification, user)}
+    />
+  );
+}
@@ -0,0 +1,55 @@
+import type { ClarificationOutcome, RequesterClarificationOutcome } from "@/app/types";
+import { summaryEntries } from "@/lib/intakeText";
+
+/**
+ * Before → after for any summary fields the answers changed, plus the risk score, flags and recommended action
+ * when the outcome carries them (reviewers only)
+ */
+export function ClarificationOutcomeSummary({
+  outcome,
+}: {
+  outcome: ClarificationOutcome | RequesterClarificationOutcome;
+}) {
+  const before = outcome.summaryBefore ? summaryEntries(outcome.summaryBefore) : [];
+  const changed = outcome.summaryAfter
+    ? summaryEntries(outcome.summaryAfter).filter((e) => before.find((b) => b.label === e.label)?.value !== e.value)
+    : [];
+  return (
+    <div className="space-y-2 text-sm">
+      <p className="text-slate-400">
+        Re-evaluated: <span className="text-slate-200">{outcome.sectionsReevaluated.join(", ")}</span>
+      </p>
+      {"riskScoreAfter" in outcome && (
+        <>
+          <p className="text-slate-400">
+            Risk score: <span className="text-slate-200">{outcome.riskScoreBefore} → {outcome.riskScoreAfter}</span>
+          </p>
+          <p className="text-slate-400">
+            Flags:{" "}
+            <span className="text-slate-200">
+              {outcome.flagsBefore.join(", ") || "none"} → {outcome.flagsAfter.join(", ") || "none"}
+            </span>
+          </p>
+          <p className="text-slate-400">
+            Recommended action:{" "}
+            <span className="text-slate-200">
+              {outcome.recommendedActionBefore === outcome.recommendedActionAfter
+                ? `${outcome.recommendedActionAfter} (unchanged)`
+                : `${outcome.recommendedActionBefore} → ${outcome.recommendedActionAfter}`}
+            </span>
+          </p>
+        </>
+      )}
+      {changed.length > 0 && (
+        <dl className="space-y-3 pt-2">
+          {changed.map((e) => (
+            <div key={e.label}>
+              <dt className="font-medium text-slate-500">{e.label} (updated)</dt>
+              <dd className="mt-1 text-slate-200 whitespace-pre-wrap">{e.value}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+"use client";
+
+import { useState } from "react";
+
+const FORMATS = [
+  { format: "markdown", label: "Markdown" },
+  { format: "pdf", label: "PDF" },
+  { format: "docx", label: "Word (DOCX)" },
+] as const;
+
+/** Download links for a submitted intake; reviewers can choose to include the UX internal view */
+export function ExportLinks({
+  intakeId,
+  canIncludeReview,
+  defaultIncludeReview = false,
+}: {
+  intakeId: string;
+  canIncludeReview: boolean;
+  defaultIncludeReview?: boolean;
+}) {
+  const [includeReview, setIncludeReview] = useState(canIncludeReview && defaultIncludeReview);
+  const href = (format: string) =>
+    `/api/intakes/${encodeURIComponent(intakeId)}/export?format=${format}${includeReview ? "&review=true" : ""}`;
+  return (
+    <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm">
+      <span className="text-slate-400">Download:</span>
+      {FORMATS.map(({ format, label }) => (
+        <a key={format} href={href(format)} download className="text-cyan-300 hover:underline">
+          {label}
+        </a>
+      ))}
+      {canIncludeReview && (
+        <label className="flex items-center gap-2 text-slate-400">
+          <input
+            type="checkbox"
+            checked={includeReview}
+            onChange={(e) => setIncludeReview(e.target.checked)}
+            className="accent-cyan-400"
+          />
+          Include UX internal view
+        </label>
+      )}
+    </div>
+  );
+}
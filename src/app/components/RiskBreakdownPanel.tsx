@@ -0,0 +1,60 @@
+import {
+  CLARIFICATION_THRESHOLD,
+  STRATEGIC_REVIEW_THRESHOLD,
+  formatRiskDelta,
+  type RiskBreakdown,
+} from "@/lib/risk";
+
+/** How the risk score and recommended action were reached: every contribution, the clamp and the thresholds */
+export function RiskBreakdownPanel({ breakdown }: { breakdown: RiskBreakdown }) {
+  const { contributions, total, riskScore, recommendedAction, actionReason } = breakdown;
+  return (
+    <div className="space-y-3">
+      <h4 className="text-sm font-semibold text-slate-200">Risk breakdown</h4>
+      {contributions.length === 0 ? (
+        <p className="text-sm text-slate-500">No sections have been evaluated yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-xs text-slate-300">
+            <thead className="text-slate-500">
+              <tr>
+                <th className="py-1 pr-3 font-medium">Section</th>
+                <th className="py-1 pr-3 font-medium">From</th>
+                <th className="py-1 pr-3 font-medium">Reason</th>
+                <th className="py-1 pr-3 font-medium">Flags</th>
+                <th className="py-1 text-right font-medium">Delta</th>
+              </tr>
+            </thead>
+            <tbody>
+              {contributions.map((c, i) => (
+                <tr key={i} className="border-t border-slate-700/60 align-top">
+                  <td className="py-1 pr-3 whitespace-nowrap">{c.section}</td>
+                  <td className="py-1 pr-3 whitespace-nowrap">
+                    {c.kind === "llm" ? "Model" : `Rule ${c.ruleId ?? ""}`.trim()}
+                    <span className="ml-1 text-slate-500">({c.source})</span>
+                  </td>
+                  <td className="py-1 pr-3">{c.reason}</td>
+                  <td className="py-1 pr-3">{c.flags.join(", ") || "—"}</td>
+                  <td className="py-1 text-right font-mono">{formatRiskDelta(c.delta)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      <p className="text-sm text-slate-400">
+        Sum of deltas: <strong className="text-slate-300">{total}</strong>
+        {total !== riskScore && <> → clamped to 0–100</>} → risk score{" "}
+        <strong className="text-slate-300">{riskScore}</strong>/100
+      </p>
+      <p className="text-xs text-slate-500">
+        Thresholds: below {CLARIFICATION_THRESHOLD} with no flags is Backlog Ready; {CLARIFICATION_THRESHOLD}+ or any
+        flag is Clarification Call Recommended; {STRATEGIC_REVIEW_THRESHOLD}+ or Strategic Misalignment is Strategic
+        Review Required.
+      </p>
+      <p className="text-sm text-slate-400">
+        <strong className="text-slate-300">{recommendedAction}</strong>: {actionReason}
+      </p>
+    </div>
+  );
+}
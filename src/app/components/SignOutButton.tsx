@@ -0,0 +1,14 @@
+"use client";
+
+import { clearLocalDrafts } from "@/app/useDraftAutosave";
+
+/** Sign-out form that also forgets the wizard drafts kept in this browser */
+export function SignOutButton() {
+  return (
+    <form method="post" action="/api/auth/signout" onSubmit={clearLocalDrafts}>
+      <button type="submit" className="underline hover:text-cyan-400">
+        Sign out
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,15 @@
+/** Fields of a summary or concept as the model writes them; fields it has not reached yet are left out */
+export function StreamingFields({ labels, values }: { labels: Record<string, string>; values: Record<string, string> }) {
+  const started = Object.keys(labels).filter((key) => values[key]);
+  if (started.length === 0) return null;
+  return (
+    <dl className="space-y-4 text-sm" aria-live="polite" aria-busy="true">
+      {started.map((key) => (
+        <div key={key}>
+          <dt className="font-medium text-slate-500">{labels[key]}</dt>
+          <dd className="mt-1 text-slate-300 whitespace-pre-wrap">{values[key]}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
@@ -0,0 +1,116 @@
+"use client";
+
+import { useRef, useState } from "react";
+import type { UploadedDocument } from "@/app/types";
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/** Wizard step: attach PRDs, briefs, screenshots… Files upload immediately; the intake keeps their ids. */
+export function SupportingDocumentsStep({
+  documents,
+  onDocumentsChange,
+  onContinue,
+  onBack,
+  header,
+}: {
+  documents: UploadedDocument[];
+  onDocumentsChange: (documents: UploadedDocument[]) => void;
+  onContinue: () => void;
+  onBack: () => void;
+  header: React.ReactNode;
+}) {
+  const [uploading, setUploading] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    const form = new FormData();
+    Array.from(files).forEach((f) => form.append("files", f));
+    setUploadError(null);
+    setUploading(true);
+    try {
+      const res = await fetch("/api/uploads", { method: "POST", body: form });
+      const data = (await res.json().catch(() => ({}))) as { uploads?: UploadedDocument[]; error?: string };
+      if (!res.ok || !data.uploads) throw new Error(data.error || "Upload failed");
+      onDocumentsChange([...documents, ...data.uploads]);
+    } catch (e) {
+      setUploadError(e instanceof Error ? e.message : "Upload failed");
+    } finally {
+      setUploading(false);
+      if (inputRef.current) inputRef.current.value = "";
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto p-6">
+      {header}
+      <div className="glass-card p-6 space-y-4 shadow-2xl shadow-slate-900/50">
+        <p className="text-slate-300 text-sm">
+          Do you already have a PRD, brief, research findings or screenshots? Attach them here — we&apos;ll read PDF,
+          Word, Markdown and text files so the next questions skip what they already cover, and the design team gets
+          the full picture. This step is optional.
+        </p>
+        <label
+          htmlFor="supporting-documents"
+          className="block rounded-xl border border-dashed border-slate-500/60 bg-slate-800/40 px-4 py-8 text-center text-sm text-slate-400 hover:border-cyan-400/60 cursor-pointer"
+        >
+          {uploading ? "Uploading…" : "Click to choose files (PDF, DOCX, Markdown, text, slides, images — up to 10 MB each)"}
+          <input
+            ref={inputRef}
+            id="supporting-documents"
+            type="file"
+            multiple
+            className="sr-only"
+            disabled={uploading}
+            onChange={(e) => handleFiles(e.target.files)}
+          />
+        </label>
+        {uploadError && (
+          <p className="text-sm text-red-300 bg-red-500/20 border border-red-500/40 px-3 py-2 rounded-xl">
+            {uploadError}
+          </p>
+        )}
+        {documents.length > 0 && (
+          <ul className="space-y-2 text-sm">
+            {documents.map((doc) => (
+              <li
+                key={doc.id}
+                className="flex items-center justify-between gap-4 rounded-xl border border-slate-500/40 bg-slate-800/40 px-4 py-2"
+              >
+                <span className="text-slate-200 truncate">{doc.fileName}</span>
+                <span className="flex items-center gap-3 shrink-0 text-slate-500">
+                  {formatSize(doc.size)}
+                  <button
+                    type="button"
+                    onClick={() => onDocumentsChange(documents.filter((d) => d.id !== doc.id))}
+                    className="text-slate-500 hover:text-red-300 underline"
+                  >
+                    Remove
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex justify-end gap-2 pt-2">
+          <button type="button" onClick={onBack} disabled={uploading} className="btn-ghost disabled:opacity-50">
+            Back
+          </button>
+          <button
+            type="button"
+            onClick={onContinue}
+            disabled={uploading}
+            className="btn-gradient rounded-xl px-4 py-2 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {documents.length > 0 ? "Next" : "Skip for now"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import Link from "next/link";
+import { SignOutButton } from "@/app/components/SignOutButton";
+import { getSessionUser, hasRole } from "@/lib/auth";
+
+/** Who is signed in, where they can go, and sign out. Renders nothing when signed out */
+export async function UserBar() {
+  const user = await getSessionUser();
+  if (!user) return null;
+  return (
+    <nav className="max-w-6xl mx-auto flex flex-wrap items-center justify-end gap-4 px-6 pt-4 text-sm text-slate-400">
+      <Link href="/" className="hover:text-cyan-400">
+        New intake
+      </Link>
+      <Link href="/intakes" className="hover:text-cyan-400">
+        My intakes
+      </Link>
+      {hasRole(user, "reviewer") && (
+        <Link href="/admin/intakes" className="hover:text-cyan-400">
+          Triage
+        </Link>
+      )}
+      <span className="text-slate-500">
+        {user.name} · {user.role}
+      </span>
+      <SignOutButton />
+    </nav>
+  );
+}
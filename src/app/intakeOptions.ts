@@ -0,0 +1,36 @@
+/** Choices offered in the wizard's opening step */
+
+const DEFAULT_PRODUCT_PILLARS = [
+  "Customer Experience",
+  "Operations",
+  "Platform & Data",
+  "Growth",
+  "Internal Tools",
+];
+
+/**
+ * Product pillars requesters pick from. Override with a comma-separated
+ * NEXT_PUBLIC_PRODUCT_PILLARS (inlined at build time, so restart the dev server after changing it).
+ */
+export const PRODUCT_PILLARS: string[] = (() => {
+  const configured = (process.env.NEXT_PUBLIC_PRODUCT_PILLARS ?? "")
+    .split(",")
+    .map((p) => p.trim())
+    .filter(Boolean);
+  return configured.length > 0 ? configured : DEFAULT_PRODUCT_PILLARS;
+})();
+
+export const QUARTERS = ["Q1", "Q2", "Q3", "Q4"] as const;
+
+export type Quarter = (typeof QUARTERS)[number];
+
+/** This year and the next two */
+export function quarterYearOptions(now = new Date()): number[] {
+  const year = now.getFullYear();
+  return [year, year + 1, year + 2];
+}
+
+/** Stored form of the quarter selection, e.g. "Q3 2026" */
+export function formatQuarter(quarter: Quarter, year: number): string {
+  return `${quarter} ${year}`;
+}
@@ -0,0 +1,57 @@
+import Link from "next/link";
+import { requirePageUser } from "@/lib/auth";
+import { clarificationLink } from "@/lib/clarifications";
+import { isIntakeOwner } from "@/lib/intakeAccess";
+import { listIntakes } from "@/lib/intakeStore";
+import { getStatus } from "@/lib/intakeStatus";
+import { getProjectName } from "@/lib/intakeText";
+
+export const dynamic = "force-dynamic";
+
+/** /intakes — the signed-in user's own submissions, their status and any questions waiting for them */
+export default async function MyIntakesPage() {
+  const user = await requirePageUser("/intakes");
+  const intakes = (await listIntakes()).filter((intake) => isIntakeOwner(user, intake));
+  return (
+    <div className="max-w-4xl mx-auto p-6 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-100">My intakes</h1>
+          <p className="text-slate-400 text-sm mt-1">
+            {intakes.length} submitted {intakes.length === 1 ? "request" : "requests"}
+          </p>
+        </div>
+        <Link href="/" className="btn-ghost shrink-0">
+          New intake
+        </Link>
+      </div>
+      {intakes.length === 0 ? (
+        <p className="text-sm text-slate-500">You haven&apos;t submitted any intakes yet.</p>
+      ) : (
+        <ul className="space-y-3">
+          {intakes.map((intake) => {
+            const open = (intake.clarifications ?? []).find((c) => !c.outcome);
+            return (
+              <li key={intake.id} className="glass-card p-4 flex flex-wrap items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="font-medium text-slate-100 truncate">{getProjectName(intake.opening)}</p>
+                  <p className="text-xs text-slate-500">Submitted {new Date(intake.createdAt).toLocaleDateString()}</p>
+                </div>
+                <div className="flex items-center gap-3 text-sm">
+                  {open && (
+                    <Link href={clarificationLink(intake.id, open.token)} className="text-cyan-300 underline hover:text-cyan-200">
+                      Answer the UX team&apos;s questions
+                    </Link>
+                  )}
+                  <span className="rounded-lg border border-cyan-500/40 bg-cyan-500/10 px-3 py-1 text-cyan-200">
+                    {getStatus(intake)}
+                  </span>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import type { Metadata } from "next";
+import { UserBar } from "@/app/components/UserBar";
 import "./globals.css";
 
 export const metadata: Metadata = {
@@ -13,7 +14,10 @@ export default function RootLayout({
 }>) {
   return (
     <html lang="en" className="dark">
-      <body className="antialiased min-h-screen text-slate-200">{children}</body>
+      <body className="antialiased min-h-screen text-slate-200">
+        <UserBar />
+        {children}
+      </body>
     </html>
   );
 }
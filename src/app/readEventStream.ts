@@ -0,0 +1,82 @@
+/**
+ * Client side of the streaming routes (see src/lib/eventStream.ts). Posts with `Accept: text/event-stream`, reports
+ * `delta` and `fallback` events as they arrive and resolves with the `result` payload. A server that answers with
+ * plain JSON instead is handled too, so callers need only one code path.
+ */
+
+export type EventStreamHandlers = {
+  /** Abort when nothing arrives for this long; resets on every chunk */
+  idleTimeoutMs: number;
+  onDelta?: (field: string, text: string) => void;
+  /** The model failed mid-stream: drop what was streamed, the result is the placeholder */
+  onFallback?: (error: string) => void;
+};
+
+function parseFrame(frame: string): { event: string; data: unknown } | null {
+  let event = "message";
+  const dataLines: string[] = [];
+  for (const line of frame.split("\n")) {
+    if (line.startsWith("event:")) event = line.slice(6).trim();
+    else if (line.startsWith("data:")) dataLines.push(line.slice(5).trimStart());
+  }
+  if (dataLines.length === 0) return null;
+  try {
+    return { event, data: JSON.parse(dataLines.join("\n")) };
+  } catch {
+    return null;
+  }
+}
+
+export async function postForEventStream<T>(url: string, body: unknown, handlers: EventStreamHandlers): Promise<T> {
+  const controller = new AbortController();
+  let timeoutId = setTimeout(() => controller.abort(), handlers.idleTimeoutMs);
+  const resetTimeout = () => {
+    clearTimeout(timeoutId);
+    timeoutId = setTimeout(() => controller.abort(), handlers.idleTimeoutMs);
+  };
+  try {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      throw new Error((data as { error?: string }).error || "Request failed");
+    }
+    if (!res.body || !res.headers.get("content-type")?.includes("text/event-stream")) {
+      return (await res.json()) as T;
+    }
+
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      resetTimeout();
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, "\n");
+      let boundary: number;
+      while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+        const frame = parseFrame(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (!frame) continue;
+        const data = frame.data as { field?: string; text?: string; error?: string };
+        if (frame.event === "delta" && typeof data.field === "string" && typeof data.text === "string") {
+          handlers.onDelta?.(data.field, data.text);
+        } else if (frame.event === "fallback") {
+          handlers.onFallback?.(data.error ?? "");
+        } else if (frame.event === "result") {
+          await reader.cancel().catch(() => {});
+          return frame.data as T;
+        } else if (frame.event === "error") {
+          throw new Error(data.error || "Request failed");
+        }
+      }
+    }
+    throw new Error("The response ended early. Try again.");
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
@@ -0,0 +1,71 @@
+import { USER_ROLES, getAuthProviderName, getOidcConfig, getSessionUser, safeReturnTo } from "@/lib/auth";
+
+export const dynamic = "force-dynamic";
+
+const fieldClass =
+  "w-full rounded-xl border border-slate-500/50 bg-slate-800/50 px-3 py-2 text-sm text-slate-100 placeholder-slate-500 focus:border-cyan-400/60 focus:outline-none focus:ring-2 focus:ring-cyan-400/30";
+
+const ROLE_LABELS: Record<(typeof USER_ROLES)[number], string> = {
+  requester: "Requester — submit and follow my own intakes",
+  reviewer: "UX reviewer — triage intakes, see risk and flags",
+  admin: "Admin — reviewer plus integrations and diagnostics",
+};
+
+/** /signin?returnTo=/path — sign in with the configured provider (OIDC, or the local dev provider) */
+export default async function SignInPage({ searchParams }: { searchParams: { returnTo?: string; error?: string } }) {
+  const returnTo = safeReturnTo(searchParams.returnTo);
+  const provider = getAuthProviderName();
+  const user = await getSessionUser();
+  const oidc = provider === "oidc" ? getOidcConfig() : null;
+  const error =
+    searchParams.error === "forbidden"
+      ? user
+        ? `You're signed in as ${user.name} (${user.role}), which can't open that page. Sign in with another account.`
+        : "Sign in to continue."
+      : searchParams.error;
+
+  return (
+    <div className="max-w-md mx-auto p-6">
+      <div className="glass-card p-8 space-y-6 shadow-2xl shadow-slate-900/50">
+        <div>
+          <h1 className="text-2xl font-bold text-slate-100">Design Intake Assistant</h1>
+          <p className="text-slate-400 text-sm mt-1">Sign in to start or follow up on a design request.</p>
+        </div>
+
+        {error && (
+          <p className="text-sm text-red-300 bg-red-500/20 border border-red-500/40 px-3 py-2 rounded-xl">{error}</p>
+        )}
+
+        {provider === "dev" ? (
+          <form method="post" action="/api/auth/dev" className="space-y-3">
+            <input type="hidden" name="returnTo" value={returnTo} />
+            <input name="name" required placeholder="Your name" aria-label="Your name" className={fieldClass} />
+            <input name="email" type="email" placeholder="Email (optional)" aria-label="Email" className={fieldClass} />
+            <select name="role" aria-label="Role" defaultValue="requester" className={fieldClass}>
+              {USER_ROLES.map((role) => (
+                <option key={role} value={role}>
+                  {ROLE_LABELS[role]}
+                </option>
+              ))}
+            </select>
+            <button type="submit" className="btn-gradient w-full rounded-xl px-4 py-2 text-sm">
+              Sign in
+            </button>
+            <p className="text-xs text-slate-500">
+              Local dev sign-in: anyone can pick any role. Set AUTH_PROVIDER=oidc before sharing this server.
+            </p>
+          </form>
+        ) : oidc?.ok ? (
+          <a
+            href={`/api/auth/oidc/login?returnTo=${encodeURIComponent(returnTo)}`}
+            className="btn-gradient block w-full rounded-xl px-4 py-2 text-center text-sm"
+          >
+            Sign in with {oidc.data.label}
+          </a>
+        ) : (
+          <p className="text-sm text-slate-400">Sign-in is not configured: {oidc?.error}</p>
+        )}
+      </div>
+    </div>
+  );
+}
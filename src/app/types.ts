@@ -1,20 +1,83 @@
-/** Main content sections the user fills in (conversational guidance) */
-export const SECTIONS = [
-  "Objectives and Outcomes",
-  "Constraints and Considerations",
-] as const;
-
-export type SectionKey = (typeof SECTIONS)[number];
+/** Id of a content section from the form definition (e.g. "Objectives and Outcomes") */
+export type SectionKey = string;
 
 /** Includes Opening for the first step evaluation */
 export type AnySectionKey = SectionKey | "Opening";
 
-export type RiskFlag =
-  | "Solution Bias"
-  | "Missing Metrics"
-  | "Strategic Misalignment"
-  | "Dependency Risk"
-  | string;
+/**
+ * What a section contributes to the intake beyond its own answer:
+ * "problem" and "objectives" feed the problem statement / desired outcome, "constraints" the constraints summary.
+ */
+export type SectionRole = "problem" | "objectives" | "constraints";
+
+/** One content section of the wizard, as declared in the form definition */
+export interface FormSectionDefinition {
+  /** Stable key used in API calls and stored intakes */
+  id: SectionKey;
+  heading: string;
+  intro: string;
+  /** Shown instead of `intro` once earlier answers are recapped above the section */
+  contextIntro?: string;
+  prompts: string[];
+  placeholder?: string;
+  /** Helper text under the textarea */
+  hint?: string;
+  /** Appended to the evaluation system prompt for this section */
+  coachingGuidance?: string;
+  required: boolean;
+  role?: SectionRole;
+  /** Replace `prompts` with model-generated questions built from earlier answers */
+  followUpQuestions?: boolean;
+}
+
+/** Declarative intake form: the wizard, validation and evaluation prompts are all generated from this */
+export interface IntakeFormDefinition {
+  version: number;
+  opening: {
+    welcome: string;
+    prompt: string;
+    placeholder?: string;
+    coachingGuidance?: string;
+  };
+  /** In wizard order */
+  sections: FormSectionDefinition[];
+}
+
+/** A section answer with its display heading, as sent to the generation routes */
+export interface SectionAnswer {
+  section: AnySectionKey;
+  heading: string;
+  value: string;
+}
+
+/** Flags the evaluator may raise, shared by the model prompt and the offline scoring rules */
+export const RISK_FLAGS = [
+  "Solution Bias",
+  "Missing Metrics",
+  "Strategic Misalignment",
+  "Dependency Risk",
+  "Incomplete Answer",
+] as const;
+
+export type RiskFlag = (typeof RISK_FLAGS)[number] | string;
+
+/** One reason a section's risk delta moved: a fired scoring rule or the model's assessment */
+export interface RiskContribution {
+  section: AnySectionKey;
+  kind: "rule" | "llm";
+  /** Scoring rule id, for kind "rule" */
+  ruleId?: string;
+  delta: number;
+  reason: string;
+  flags: RiskFlag[];
+  source: "openai" | "placeholder";
+}
+
+/** Which registry prompt produced a model result (see src/lib/prompts.ts); absent on placeholder output */
+export interface PromptRef {
+  id: string;
+  version: string;
+}
 
 export interface SectionFeedback {
   section: AnySectionKey;
@@ -22,10 +85,22 @@ export interface SectionFeedback {
   suggestedImprovements: string[];
   riskDelta: number;
   flags: RiskFlag[];
+  /** What made up riskDelta; sums to it */
+  contributions?: RiskContribution[];
   source?: "openai" | "placeholder";
   openaiError?: string;
+  prompt?: PromptRef;
 }
 
+/**
+ * A section evaluation as the wizard receives it. Requesters get the coaching only; reviewers also get the risk
+ * fields. `sealed` is an encrypted copy of the full evaluation that the server checks when the intake is submitted.
+ */
+export type CoachingFeedback = Omit<SectionFeedback, "riskDelta" | "flags" | "contributions"> &
+  Partial<Pick<SectionFeedback, "riskDelta" | "flags" | "contributions">> & {
+    sealed?: string;
+  };
+
 /** Structured summary generated after gathering clarity (AI Summary step) */
 export interface DesignRequestSummary {
   problem: string;
@@ -33,24 +108,33 @@ export interface DesignRequestSummary {
   usersImpacted: string;
   businessValue: string;
   constraints: string;
+  prompt?: PromptRef;
 }
 
+export type DesignRequestSummaryField = Exclude<keyof DesignRequestSummary, "prompt">;
+
 /** Low-fidelity UX direction (Reference Concept) when user opts in */
 export interface ReferenceConcept {
   experienceGoal: string;
   suggestedLayout: string;
-  keyElements: string;
+  /** Older intakes and drafts stored a single string; normalizeReferenceConcept converts them */
+  keyElements: string[];
   interactionModel: string;
   designConsiderations: string;
+  prompt?: PromptRef;
 }
 
+export type ReferenceConceptField = Exclude<keyof ReferenceConcept, "prompt">;
+
 export interface IntakeSummary {
   problem_statement: string;
   desired_outcome: string;
   risk_score: number;
   flags: RiskFlag[];
   product_pillar?: string;
+  /** e.g. "Q3 2026" */
   quarter_slated_for?: string;
+  /** Ids of files uploaded via /api/uploads */
   supporting_documents?: string[];
   /** When available from AI Summary step */
   designRequestSummary?: DesignRequestSummary;
@@ -62,3 +146,203 @@ export type RecommendedAction =
   | "Backlog Ready"
   | "Clarification Call Recommended"
   | "Strategic Review Required";
+
+/** Where an intake is in the UX team's queue */
+export type IntakeStatus =
+  | "New"
+  | "In Review"
+  | "Clarification Requested"
+  | "Backlog Ready"
+  | "Scheduled"
+  | "In Design"
+  | "Done"
+  | "Declined";
+
+/** One recorded status change; `from` is null for the status the intake was created with */
+export interface StatusChange {
+  from: IntakeStatus | null;
+  to: IntakeStatus;
+  at: string;
+  /** Display name of whoever made the change, or "system" */
+  by: string;
+  /** User id of whoever made the change; absent for system changes and older records */
+  byId?: string;
+  reason?: string;
+}
+
+/** A reviewer's question on an intake, aimed at the section the answer should extend */
+export interface ClarificationQuestion {
+  id: string;
+  section: AnySectionKey;
+  question: string;
+  answer?: string;
+}
+
+/** What answering a clarification round changed */
+export interface ClarificationOutcome {
+  answeredAt: string;
+  sectionsReevaluated: AnySectionKey[];
+  riskScoreBefore: number;
+  riskScoreAfter: number;
+  flagsBefore: RiskFlag[];
+  flagsAfter: RiskFlag[];
+  recommendedActionBefore: RecommendedAction;
+  recommendedActionAfter: RecommendedAction;
+  summaryBefore?: DesignRequestSummary;
+  summaryAfter?: DesignRequestSummary;
+}
+
+/** A clarification outcome as requesters see it: what changed in the answers, without risk details */
+export type RequesterClarificationOutcome = Pick<
+  ClarificationOutcome,
+  "answeredAt" | "sectionsReevaluated" | "summaryBefore" | "summaryAfter"
+>;
+
+/** One round of reviewer questions; the requester answers through a link carrying `token` */
+export interface ClarificationRequest {
+  id: string;
+  token: string;
+  createdAt: string;
+  createdBy: string;
+  questions: ClarificationQuestion[];
+  outcome?: ClarificationOutcome;
+}
+
+/** Metadata for a file uploaded via /api/uploads (the bytes are stored separately) */
+export interface UploadedDocument {
+  id: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+  uploadedAt: string;
+  /** Session user id of the uploader; reviewers can download any upload */
+  ownerId?: string;
+}
+
+export interface FollowUpQuestions {
+  intro: string;
+  questions: string[];
+}
+
+/** Everything needed to restore the wizard exactly where the requester left off */
+export interface IntakeDraftState {
+  currentStep: number;
+  openingResponse: string;
+  productPillar: string;
+  quarter: string;
+  quarterYear: number;
+  supportingDocuments: UploadedDocument[];
+  sectionValues: Record<SectionKey, string>;
+  /** Latest evaluation per wizard step; risk score and flags are derived from these */
+  feedbacks: Record<number, CoachingFeedback>;
+  /** The answer text each step's feedback was computed for, to detect edits that need re-evaluation */
+  evaluatedInputs: Record<number, string>;
+  /** Generated follow-up questions, keyed by section id */
+  followUpQuestions: Record<SectionKey, FollowUpQuestions>;
+  designRequestSummary: DesignRequestSummary | null;
+  wantsVisualConcept: boolean | null;
+  referenceConcept: ReferenceConcept | null;
+  mockupImage: string | null;
+}
+
+export interface StoredDraft {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  /** Session user id of whoever started the draft; only they can load or change it */
+  ownerId?: string;
+  state: IntakeDraftState;
+}
+
+/** One message in a chat-mode intake */
+export interface ConversationTurn {
+  role: "user" | "assistant";
+  content: string;
+  at: string;
+  /** Assistant turns: whether the model wrote it or the scripted fallback did */
+  source?: "openai" | "placeholder";
+  openaiError?: string;
+  prompt?: PromptRef;
+}
+
+/** A chat-mode intake: the transcript plus what has been extracted from it so far */
+export interface StoredConversation {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  /** Session user id of the requester; only they can continue or submit it */
+  ownerId: string;
+  /** Oldest first, starting with the assistant's greeting */
+  turns: ConversationTurn[];
+  /** Design Request Summary fields the requester has covered */
+  extracted: Partial<Record<DesignRequestSummaryField, string>>;
+  /** Risk flags raised by the extraction; reviewers only */
+  flags: RiskFlag[];
+  /** Summary fields still to ask about, in the order they will be asked */
+  missingFields: DesignRequestSummaryField[];
+  /** Set once the intake built from this conversation has been submitted */
+  intakeId?: string;
+  /** When a submit claimed the conversation; cleared once it has an intakeId or the submit fails */
+  submittingAt?: string;
+}
+
+/** Payload the wizard sends to POST /api/intakes on the final step */
+export interface IntakeSubmission {
+  opening: string;
+  sectionValues: Record<SectionKey, string>;
+  /** Every section evaluation, in the order the steps were completed */
+  feedbacks: CoachingFeedback[];
+  /** Risk score and flags are recomputed by the server from the sealed evaluations */
+  summary: Omit<IntakeSummary, "risk_score" | "flags">;
+  /** Upload id from /api/generate-mockup, or an image data URL (stored as an upload on submit) */
+  mockupImage?: string;
+}
+
+/** requester < reviewer < admin; each role can do everything the roles before it can */
+export type UserRole = "requester" | "reviewer" | "admin";
+
+/** The signed-in user, as carried in the session cookie */
+export interface SessionUser {
+  /** Stable id from the identity provider ("dev:<email>" for the local dev provider) */
+  id: string;
+  name: string;
+  email?: string;
+  role: UserRole;
+}
+
+/** Who submitted an intake */
+export type IntakeOwner = Omit<SessionUser, "role">;
+
+/** Reference to the item an intake was exported to in an external tool */
+export interface ExternalItemLink {
+  id: string;
+  url?: string;
+  exportedAt: string;
+}
+
+/** An intake as persisted by the server-side store */
+export interface StoredIntake extends Omit<IntakeSubmission, "mockupImage" | "feedbacks" | "summary"> {
+  id: string;
+  /** Missing on intakes stored before sign-in existed; only reviewers can see those */
+  owner?: IntakeOwner;
+  feedbacks: SectionFeedback[];
+  summary: IntakeSummary;
+  createdAt: string;
+  updatedAt: string;
+  recommendedAction: RecommendedAction;
+  /** Upload id of the generated mockup, served from /api/uploads/[id] */
+  mockupImageId?: string;
+  /** Provider image URL on intakes stored before mockups were always uploads; never fetched by the server */
+  mockupImageUrl?: string;
+  /** Missing on intakes stored before the workflow existed; treat as "New" */
+  status?: IntakeStatus;
+  /** Oldest first */
+  statusHistory?: StatusChange[];
+  /** Reviewer question rounds, oldest first */
+  clarifications?: ClarificationRequest[];
+  /** Items created for this intake in external tools */
+  integrations?: {
+    monday?: ExternalItemLink & { boardId: string };
+    jira?: ExternalItemLink & { key: string; projectKey: string; issueType: string };
+  };
+}
@@ -0,0 +1,189 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { IntakeDraftState, StoredDraft } from "@/app/types";
+
+/** Local copies are per user, so someone else signing in on the same browser never gets your draft */
+const LOCAL_KEY_PREFIX = "ux-intake-draft";
+const SERVER_SAVE_DELAY_MS = 1500;
+
+export type DraftSaveStatus = "idle" | "saving" | "saved" | "error";
+
+type LocalDraft = { draftId: string | null; state: IntakeDraftState };
+
+function localKey(userId: string): string {
+  return `${LOCAL_KEY_PREFIX}:${userId}`;
+}
+
+function readLocalDraft(userId: string): LocalDraft | null {
+  try {
+    const raw = window.localStorage.getItem(localKey(userId));
+    return raw ? (JSON.parse(raw) as LocalDraft) : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeLocalDraft(userId: string, draft: LocalDraft) {
+  try {
+    window.localStorage.setItem(localKey(userId), JSON.stringify(draft));
+  } catch {
+    // Quota exceeded (large mockup image) — retry without the image; the server copy keeps it
+    try {
+      window.localStorage.setItem(localKey(userId), JSON.stringify({ ...draft, state: { ...draft.state, mockupImage: null } }));
+    } catch {
+      // localStorage unavailable (private mode); the server draft still works
+    }
+  }
+}
+
+function clearLocalDraft(userId: string) {
+  try {
+    window.localStorage.removeItem(localKey(userId));
+  } catch {
+    // ignore
+  }
+}
+
+/** Remove every local draft in this browser (including ones saved before drafts were per user); run on sign-out */
+export function clearLocalDrafts() {
+  try {
+    const keys = Array.from({ length: window.localStorage.length }, (_, i) => window.localStorage.key(i));
+    keys.filter((k) => k?.startsWith(LOCAL_KEY_PREFIX)).forEach((k) => window.localStorage.removeItem(k as string));
+  } catch {
+    // ignore
+  }
+}
+
+/** Keep ?draft=<id> in the address bar so a refresh or a copied link resumes the same draft */
+function setDraftParam(id: string | null) {
+  const url = new URL(window.location.href);
+  if (id) url.searchParams.set("draft", id);
+  else url.searchParams.delete("draft");
+  window.history.replaceState(null, "", url.toString());
+}
+
+function hasProgress(state: IntakeDraftState): boolean {
+  return state.currentStep > 0 || state.openingResponse.trim().length > 0;
+}
+
+/**
+ * Autosave the wizard to localStorage (immediately) and to /api/drafts (debounced), and restore it
+ * on load — from the ?draft=<id> resume link if present, otherwise from `userId`'s local copy.
+ */
+export function useDraftAutosave(
+  state: IntakeDraftState,
+  applyState: (state: IntakeDraftState) => void,
+  enabled: boolean,
+  userId: string
+) {
+  const [hydrated, setHydrated] = useState(false);
+  const [draftId, setDraftId] = useState<string | null>(null);
+  const [saveStatus, setSaveStatus] = useState<DraftSaveStatus>("idle");
+  const draftIdRef = useRef<string | null>(null);
+  const applyRef = useRef(applyState);
+  applyRef.current = applyState;
+
+  const updateDraftId = useCallback((id: string | null) => {
+    draftIdRef.current = id;
+    setDraftId(id);
+    setDraftParam(id);
+  }, []);
+
+  // Restore once on mount
+  useEffect(() => {
+    let cancelled = false;
+    const restore = async () => {
+      const linkedId = new URLSearchParams(window.location.search).get("draft");
+      const local = readLocalDraft(userId);
+      if (linkedId) {
+        try {
+          const res = await fetch(`/api/drafts/${encodeURIComponent(linkedId)}`);
+          if (res.ok) {
+            const draft = (await res.json()) as StoredDraft;
+            if (!cancelled) {
+              applyRef.current(draft.state);
+              updateDraftId(draft.id);
+            }
+            return;
+          }
+        } catch {
+          // fall through to the local copy
+        }
+        // Offline or unknown on the server: the local copy of the same draft is next best
+        if (local?.draftId === linkedId && !cancelled) {
+          applyRef.current(local.state);
+          updateDraftId(linkedId);
+          return;
+        }
+      }
+      if (local && !cancelled) {
+        applyRef.current(local.state);
+        updateDraftId(local.draftId);
+      }
+    };
+    restore().finally(() => {
+      if (!cancelled) setHydrated(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [updateDraftId, userId]);
+
+  // Autosave on every change once restored
+  useEffect(() => {
+    if (!hydrated || !enabled || !hasProgress(state)) return;
+    writeLocalDraft(userId, { draftId: draftIdRef.current, state });
+
+    const timeoutId = setTimeout(async () => {
+      setSaveStatus("saving");
+      try {
+        const id = draftIdRef.current;
+        let res = id
+          ? await fetch(`/api/drafts/${encodeURIComponent(id)}`, {
+              method: "PUT",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ state }),
+            })
+          : null;
+        if (!res || res.status === 404) {
+          res = await fetch("/api/drafts", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ state }),
+          });
+          if (res.ok) {
+            const created = (await res.json()) as StoredDraft;
+            updateDraftId(created.id);
+            writeLocalDraft(userId, { draftId: created.id, state });
+          }
+        }
+        setSaveStatus(res.ok ? "saved" : "error");
+      } catch {
+        setSaveStatus("error");
+      }
+    }, SERVER_SAVE_DELAY_MS);
+    return () => clearTimeout(timeoutId);
+  }, [state, hydrated, enabled, updateDraftId, userId]);
+
+  /** Detach from the current draft without deleting it (its resume link keeps working) */
+  const startNewDraft = useCallback(() => {
+    clearLocalDraft(userId);
+    updateDraftId(null);
+    setSaveStatus("idle");
+  }, [updateDraftId, userId]);
+
+  /** Delete the current draft everywhere, e.g. after the intake has been submitted */
+  const discardDraft = useCallback(() => {
+    const id = draftIdRef.current;
+    clearLocalDraft(userId);
+    updateDraftId(null);
+    setSaveStatus("idle");
+    if (id) fetch(`/api/drafts/${encodeURIComponent(id)}`, { method: "DELETE" }).catch(() => {});
+  }, [updateDraftId, userId]);
+
+  const resumeUrl =
+    draftId && typeof window !== "undefined" ? `${window.location.origin}/?draft=${draftId}` : null;
+
+  return { hydrated, draftId, resumeUrl, saveStatus, startNewDraft, discardDraft };
+}
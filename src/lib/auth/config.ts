@@ -0,0 +1,106 @@
+import type { UserRole } from "@/app/types";
+
+/**
+ * Sign-in configuration, read from env at call time.
+ *
+ * AUTH_PROVIDER selects how people sign in:
+ * - "dev": pick a name and role on /signin, no password. The default outside production; never use it on a shared server
+ * - "oidc": any OpenID Connect provider (Entra ID, Okta, Google, Keycloak…) via AUTH_OIDC_ISSUER, AUTH_OIDC_CLIENT_ID
+ *   and AUTH_OIDC_CLIENT_SECRET. The default in production
+ *
+ * AUTH_SECRET signs the session cookie and seals evaluations sent to the browser; required in production.
+ * OIDC roles come from the claim named by AUTH_OIDC_ROLES_CLAIM (default "groups") matched against
+ * AUTH_REVIEWER_GROUPS / AUTH_ADMIN_GROUPS, or from AUTH_REVIEWER_EMAILS / AUTH_ADMIN_EMAILS. Everyone else is a requester.
+ */
+
+export type AuthProviderName = "dev" | "oidc";
+
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  scopes: string;
+  rolesClaim: string;
+  /** Shown on the sign-in button */
+  label: string;
+}
+
+/** Claim values and email addresses that grant a role above requester */
+export interface RoleMapping {
+  reviewerGroups: string[];
+  adminGroups: string[];
+  reviewerEmails: string[];
+  adminEmails: string[];
+}
+
+/** Development-only fallback so `npm run dev` works without configuration */
+const DEV_SECRET = "ux-intake-dev-secret-do-not-use-in-production";
+
+export const USER_ROLES: UserRole[] = ["requester", "reviewer", "admin"];
+
+function env(name: string): string | undefined {
+  const value = process.env[name]?.trim();
+  return value ? value : undefined;
+}
+
+function envList(name: string): string[] {
+  return (env(name) ?? "")
+    .split(",")
+    .map((v) => v.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function isProduction(): boolean {
+  return process.env.NODE_ENV === "production";
+}
+
+export function getAuthProviderName(): AuthProviderName {
+  const configured = env("AUTH_PROVIDER")?.toLowerCase();
+  if (configured === "dev" || configured === "oidc") return configured;
+  return isProduction() ? "oidc" : "dev";
+}
+
+export function getAuthSecret(): string {
+  const secret = env("AUTH_SECRET");
+  if (secret) return secret;
+  if (isProduction()) throw new Error("AUTH_SECRET is not set. Add a long random value to the server environment.");
+  return DEV_SECRET;
+}
+
+/** Resolve OIDC settings, or an error describing what is missing. */
+export function getOidcConfig(): { ok: true; data: OidcConfig } | { ok: false; error: string } {
+  const issuer = env("AUTH_OIDC_ISSUER");
+  const clientId = env("AUTH_OIDC_CLIENT_ID");
+  const clientSecret = env("AUTH_OIDC_CLIENT_SECRET");
+  if (!issuer || !clientId || !clientSecret) {
+    return {
+      ok: false,
+      error: "OIDC sign-in needs AUTH_OIDC_ISSUER, AUTH_OIDC_CLIENT_ID and AUTH_OIDC_CLIENT_SECRET.",
+    };
+  }
+  return {
+    ok: true,
+    data: {
+      issuer: issuer.replace(/\/+$/, ""),
+      clientId,
+      clientSecret,
+      scopes: env("AUTH_OIDC_SCOPES") ?? "openid profile email",
+      rolesClaim: env("AUTH_OIDC_ROLES_CLAIM") ?? "groups",
+      label: env("AUTH_OIDC_LABEL") ?? "single sign-on",
+    },
+  };
+}
+
+export function getRoleMapping(): RoleMapping {
+  return {
+    reviewerGroups: envList("AUTH_REVIEWER_GROUPS"),
+    adminGroups: envList("AUTH_ADMIN_GROUPS"),
+    reviewerEmails: envList("AUTH_REVIEWER_EMAILS"),
+    adminEmails: envList("AUTH_ADMIN_EMAILS"),
+  };
+}
+
+/** Public origin used to build the OIDC redirect URI; AUTH_URL overrides the request's own origin behind proxies */
+export function getAuthOrigin(requestOrigin: string): string {
+  return (env("AUTH_URL") ?? requestOrigin).replace(/\/+$/, "");
+}
@@ -0,0 +1,25 @@
+export {
+  USER_ROLES,
+  getAuthOrigin,
+  getAuthProviderName,
+  getAuthSecret,
+  getOidcConfig,
+  type AuthProviderName,
+} from "@/lib/auth/config";
+export {
+  authorize,
+  canSeeRisk,
+  clearSessionCookie,
+  getSessionUser,
+  hasRole,
+  isUserRole,
+  requirePageUser,
+  safeReturnTo,
+  setSessionCookie,
+} from "@/lib/auth/session";
+export {
+  OIDC_TRANSACTION_COOKIE,
+  OIDC_TRANSACTION_TTL_SECONDS,
+  beginOidcSignIn,
+  completeOidcSignIn,
+} from "@/lib/auth/oidc";
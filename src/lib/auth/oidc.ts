@@ -0,0 +1,171 @@
+import { createHash, randomBytes } from "node:crypto";
+import type { SessionUser, UserRole } from "@/app/types";
+import { getOidcConfig, getRoleMapping, type OidcConfig, type RoleMapping } from "@/lib/auth/config";
+import { decodeSigned, encodeSigned } from "@/lib/auth/session";
+
+/**
+ * OpenID Connect authorization code flow with PKCE. State, nonce and verifier travel in a short-lived signed
+ * cookie between /api/auth/oidc/login and /api/auth/oidc/callback. The ID token comes straight from the token
+ * endpoint over TLS, so its claims are checked (issuer, audience, expiry, nonce) rather than its signature,
+ * as OIDC Core 3.1.3.7 allows.
+ */
+
+export const OIDC_TRANSACTION_COOKIE = "ux_intake_oidc";
+export const OIDC_TRANSACTION_TTL_SECONDS = 10 * 60;
+
+interface OidcDiscovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+}
+
+interface OidcTransaction {
+  state: string;
+  nonce: string;
+  verifier: string;
+  returnTo: string;
+}
+
+type Result<T> = { ok: true; data: T } | { ok: false; error: string };
+
+const discoveryCache = new Map<string, OidcDiscovery>();
+
+async function discover(config: OidcConfig): Promise<Result<OidcDiscovery>> {
+  const cached = discoveryCache.get(config.issuer);
+  if (cached) return { ok: true, data: cached };
+  try {
+    const res = await fetch(`${config.issuer}/.well-known/openid-configuration`, { cache: "no-store" });
+    if (!res.ok) return { ok: false, error: `OIDC discovery failed (${res.status})` };
+    const data = (await res.json()) as Partial<OidcDiscovery>;
+    if (!data.issuer || !data.authorization_endpoint || !data.token_endpoint) {
+      return { ok: false, error: "OIDC discovery document is missing endpoints" };
+    }
+    const discovery = data as OidcDiscovery;
+    discoveryCache.set(config.issuer, discovery);
+    return { ok: true, data: discovery };
+  } catch (e) {
+    return { ok: false, error: `OIDC discovery failed: ${e instanceof Error ? e.message : String(e)}` };
+  }
+}
+
+/** Where to send the browser to sign in, plus the signed transaction to keep in a cookie until the callback */
+export async function beginOidcSignIn(
+  redirectUri: string,
+  returnTo: string
+): Promise<Result<{ url: string; transaction: string }>> {
+  const config = getOidcConfig();
+  if (!config.ok) return config;
+  const discovery = await discover(config.data);
+  if (!discovery.ok) return discovery;
+
+  const transaction: OidcTransaction = {
+    state: randomBytes(16).toString("base64url"),
+    nonce: randomBytes(16).toString("base64url"),
+    verifier: randomBytes(32).toString("base64url"),
+    returnTo,
+  };
+  const url = new URL(discovery.data.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: "code",
+    client_id: config.data.clientId,
+    redirect_uri: redirectUri,
+    scope: config.data.scopes,
+    state: transaction.state,
+    nonce: transaction.nonce,
+    code_challenge: createHash("sha256").update(transaction.verifier).digest("base64url"),
+    code_challenge_method: "S256",
+  }).toString();
+  return { ok: true, data: { url: url.toString(), transaction: encodeSigned(transaction, OIDC_TRANSACTION_TTL_SECONDS) } };
+}
+
+function decodeJwtClaims(token: string): Record<string, unknown> | null {
+  try {
+    return JSON.parse(Buffer.from(token.split(".")[1] ?? "", "base64url").toString("utf8"));
+  } catch {
+    return null;
+  }
+}
+
+function claimValues(claims: Record<string, unknown>, name: string): string[] {
+  const value = claims[name];
+  const list = Array.isArray(value) ? value : typeof value === "string" ? value.split(/[\s,]+/) : [];
+  return list.filter((v): v is string => typeof v === "string" && v !== "").map((v) => v.toLowerCase());
+}
+
+/**
+ * Highest role the claims or email address grant; requester when nothing matches. The email only counts when the
+ * provider says it is verified, since many providers let users set an arbitrary address.
+ */
+export function mapRole(claims: Record<string, unknown>, rolesClaim: string, mapping: RoleMapping): UserRole {
+  const groups = claimValues(claims, rolesClaim);
+  const email = typeof claims.email === "string" && claims.email_verified === true ? claims.email.toLowerCase() : "";
+  const granted = (groupList: string[], emailList: string[]) =>
+    groups.some((g) => groupList.includes(g)) || (email !== "" && emailList.includes(email));
+  if (granted(mapping.adminGroups, mapping.adminEmails)) return "admin";
+  if (granted(mapping.reviewerGroups, mapping.reviewerEmails)) return "reviewer";
+  return "requester";
+}
+
+/** Exchange the authorization code and turn the ID token into a session user */
+export async function completeOidcSignIn(
+  params: URLSearchParams,
+  transactionCookie: string | undefined,
+  redirectUri: string
+): Promise<Result<{ user: SessionUser; returnTo: string }>> {
+  const config = getOidcConfig();
+  if (!config.ok) return config;
+  const transaction = decodeSigned<OidcTransaction>(transactionCookie);
+  if (!transaction) return { ok: false, error: "Sign-in took too long or was started in another browser. Try again." };
+  if (params.get("error")) return { ok: false, error: params.get("error_description") || params.get("error")! };
+  const code = params.get("code");
+  if (!code || params.get("state") !== transaction.state) return { ok: false, error: "Sign-in response did not match" };
+  const discovery = await discover(config.data);
+  if (!discovery.ok) return discovery;
+
+  let tokens: { id_token?: string };
+  try {
+    const res = await fetch(discovery.data.token_endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded", Accept: "application/json" },
+      body: new URLSearchParams({
+        grant_type: "authorization_code",
+        code,
+        redirect_uri: redirectUri,
+        client_id: config.data.clientId,
+        client_secret: config.data.clientSecret,
+        code_verifier: transaction.verifier,
+      }),
+      cache: "no-store",
+    });
+    if (!res.ok) return { ok: false, error: `Token exchange failed (${res.status})` };
+    tokens = await res.json();
+  } catch (e) {
+    return { ok: false, error: `Token exchange failed: ${e instanceof Error ? e.message : String(e)}` };
+  }
+
+  const claims = tokens.id_token ? decodeJwtClaims(tokens.id_token) : null;
+  if (!claims) return { ok: false, error: "The identity provider did not return an ID token" };
+  const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (
+    claims.iss !== discovery.data.issuer ||
+    !audience.includes(config.data.clientId) ||
+    typeof claims.exp !== "number" ||
+    claims.exp < Date.now() / 1000 ||
+    claims.nonce !== transaction.nonce ||
+    typeof claims.sub !== "string"
+  ) {
+    return { ok: false, error: "The ID token failed validation" };
+  }
+
+  const email = typeof claims.email === "string" ? claims.email : undefined;
+  const name =
+    [claims.name, claims.preferred_username, email].find((v): v is string => typeof v === "string" && v !== "") ??
+    claims.sub;
+  return {
+    ok: true,
+    data: {
+      user: { id: claims.sub, name, email, role: mapRole(claims, config.data.rolesClaim, getRoleMapping()) },
+      returnTo: transaction.returnTo,
+    },
+  };
+}
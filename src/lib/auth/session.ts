@@ -0,0 +1,115 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
+import type { NextResponse } from "next/server";
+import type { SessionUser, UserRole } from "@/app/types";
+import { USER_ROLES, getAuthSecret } from "@/lib/auth/config";
+
+/**
+ * Signed-cookie sessions. The cookie holds the user and an expiry, HMAC-signed with AUTH_SECRET, so every
+ * route handler and server page can check who is calling without a session store.
+ */
+
+export const SESSION_COOKIE = "ux_intake_session";
+const SESSION_TTL_SECONDS = 12 * 60 * 60;
+
+const ROLE_RANK: Record<UserRole, number> = { requester: 0, reviewer: 1, admin: 2 };
+
+function signature(payload: string): string {
+  return createHmac("sha256", getAuthSecret()).update(payload).digest("base64url");
+}
+
+/** Serialize and sign a value that expires after `ttlSeconds` */
+export function encodeSigned(value: object, ttlSeconds: number): string {
+  const payload = Buffer.from(JSON.stringify({ ...value, exp: Math.floor(Date.now() / 1000) + ttlSeconds })).toString(
+    "base64url"
+  );
+  return `${payload}.${signature(payload)}`;
+}
+
+/** The value inside a signed token, or null if it was tampered with or has expired */
+export function decodeSigned<T>(token: string | undefined): T | null {
+  if (!token) return null;
+  const [payload, sig] = token.split(".");
+  if (!payload || !sig) return null;
+  const expected = Buffer.from(signature(payload));
+  const given = Buffer.from(sig);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) return null;
+  try {
+    const value = JSON.parse(Buffer.from(payload, "base64url").toString("utf8")) as T & { exp?: number };
+    return typeof value.exp === "number" && value.exp > Date.now() / 1000 ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === "string" && (USER_ROLES as string[]).includes(value);
+}
+
+function isSessionUser(value: unknown): value is SessionUser {
+  const u = value as SessionUser | null;
+  return !!u && typeof u.id === "string" && typeof u.name === "string" && isUserRole(u.role);
+}
+
+export function hasRole(user: SessionUser, role: UserRole): boolean {
+  return ROLE_RANK[user.role] >= ROLE_RANK[role];
+}
+
+/** Reviewers and admins see risk scores, flags and recommended actions; requesters never receive them */
+export function canSeeRisk(user: SessionUser): boolean {
+  return hasRole(user, "reviewer");
+}
+
+/** The signed-in user for the current request, if any */
+export async function getSessionUser(): Promise<SessionUser | null> {
+  const session = decodeSigned<{ user?: unknown }>(cookies().get(SESSION_COOKIE)?.value);
+  return session && isSessionUser(session.user) ? session.user : null;
+}
+
+/** For route handlers: the signed-in user if they hold at least `role` */
+export async function authorize(
+  role: UserRole = "requester"
+): Promise<{ ok: true; data: SessionUser } | { ok: false; error: string; status: number }> {
+  const user = await getSessionUser();
+  if (!user) return { ok: false, error: "Sign in to continue", status: 401 };
+  if (!hasRole(user, role)) return { ok: false, error: `This needs the ${role} role`, status: 403 };
+  return { ok: true, data: user };
+}
+
+/** For server pages: the signed-in user, or a redirect to /signin that comes back to `returnTo` */
+export async function requirePageUser(returnTo: string, role: UserRole = "requester"): Promise<SessionUser> {
+  const user = await getSessionUser();
+  if (!user) redirect(`/signin?returnTo=${encodeURIComponent(returnTo)}`);
+  if (!hasRole(user, role)) redirect(`/signin?returnTo=${encodeURIComponent(returnTo)}&error=forbidden`);
+  return user;
+}
+
+/**
+ * Only same-site paths, so sign-in cannot be used as an open redirect. The value is resolved the way a browser would,
+ * which also catches `/\evil.com` and paths with tabs or newlines that browsers strip.
+ */
+export function safeReturnTo(value: unknown): string {
+  if (typeof value !== "string" || !value.startsWith("/")) return "/";
+  const base = "http://return-to.invalid";
+  try {
+    const url = new URL(value, base);
+    return url.origin === base ? `${url.pathname}${url.search}${url.hash}` : "/";
+  } catch {
+    return "/";
+  }
+}
+
+export function setSessionCookie(response: NextResponse, user: SessionUser): void {
+  response.cookies.set(SESSION_COOKIE, encodeSigned({ user }, SESSION_TTL_SECONDS), {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: SESSION_TTL_SECONDS,
+  });
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE, "", { httpOnly: true, path: "/", maxAge: 0 });
+}
@@ -0,0 +1,243 @@
+import { randomBytes, randomUUID, timingSafeEqual } from "node:crypto";
+import type {
+  AnySectionKey,
+  ClarificationOutcome,
+  ClarificationQuestion,
+  ClarificationRequest,
+  SectionFeedback,
+  SectionKey,
+  SessionUser,
+  StatusChange,
+  StoredIntake,
+} from "@/app/types";
+import { canSeeRisk } from "@/lib/auth";
+import { generateDesignRequestSummary } from "@/lib/designSummary";
+import { loadFormDefinition } from "@/lib/formDefinition";
+import { collectAnswers, findSection } from "@/lib/formSections";
+import { toRequesterOutcome } from "@/lib/intakeAccess";
+import { getIntake, updateIntake } from "@/lib/intakeStore";
+import { getStatus, isClosed, planTransition } from "@/lib/intakeStatus";
+import { getProjectName } from "@/lib/intakeText";
+import { deriveRisk, getRecommendedAction } from "@/lib/risk";
+import { evaluateSection } from "@/lib/sectionEvaluation";
+
+/**
+ * Reviewer ↔ requester clarification rounds. A reviewer posts questions aimed at sections; the requester
+ * answers through a tokenised link while signed in; answers are appended to those sections, which are re-evaluated, and the
+ * risk score, recommended action and Design Request Summary are recomputed with a record of what changed.
+ */
+
+type ClarificationResult =
+  | { ok: true; data: { intake: StoredIntake; clarification: ClarificationRequest } }
+  | { ok: false; error: string; status: number };
+
+/** Relative link the requester opens to answer a round */
+export function clarificationLink(intakeId: string, token: string): string {
+  return `/clarify/${intakeId}?token=${encodeURIComponent(token)}`;
+}
+
+/** The round a requester link points at, compared in constant time */
+export function findClarification(intake: StoredIntake, token: string): ClarificationRequest | undefined {
+  const given = Buffer.from(token);
+  return (intake.clarifications ?? []).find((c) => {
+    const expected = Buffer.from(c.token);
+    return expected.length === given.length && timingSafeEqual(expected, given);
+  });
+}
+
+/** Validate `[{ section, question }]` from a request body */
+export function parseClarificationQuestions(
+  value: unknown
+): { ok: true; data: { section: AnySectionKey; question: string }[] } | { ok: false; error: string } {
+  if (!Array.isArray(value) || value.length === 0) return { ok: false, error: "Add at least one question" };
+  const questions: { section: AnySectionKey; question: string }[] = [];
+  for (const q of value as { section?: unknown; question?: unknown }[]) {
+    if (!q || typeof q.section !== "string" || typeof q.question !== "string" || !q.question.trim()) {
+      return { ok: false, error: "Each question needs a section and text" };
+    }
+    questions.push({ section: q.section, question: q.question.trim() });
+  }
+  return { ok: true, data: questions };
+}
+
+/** Post a round of questions and move the intake to Clarification Requested; 409 if it cannot take a round */
+export async function requestClarification(
+  intakeId: string,
+  questions: { section: AnySectionKey; question: string }[],
+  by: Pick<SessionUser, "id" | "name">
+): Promise<ClarificationResult> {
+  if (!by.name.trim()) return { ok: false, error: "Say who is asking", status: 400 };
+  const form = await loadFormDefinition();
+  const unknown = questions.find((q) => q.section !== "Opening" && !findSection(form, q.section));
+  if (unknown) return { ok: false, error: `Unknown section "${unknown.section}"`, status: 400 };
+
+  const clarification: ClarificationRequest = {
+    id: randomUUID(),
+    token: randomBytes(24).toString("base64url"),
+    createdAt: new Date().toISOString(),
+    createdBy: by.name.trim(),
+    questions: questions.map((q) => ({ id: randomUUID(), ...q })),
+  };
+  const reason = questions.map((q) => q.question).join(" ");
+
+  // Checked and planned on the latest record, so a round is only saved together with its status change
+  const attempt: { error?: string } = {};
+  const updated = await updateIntake(intakeId, (intake) => {
+    attempt.error = requestBlocker(intake);
+    if (attempt.error) return null;
+    const withRound = { ...intake, clarifications: [...(intake.clarifications ?? []), clarification] };
+    if (getStatus(intake) === "Clarification Requested") return withRound;
+    const transition = planTransition(intake, "Clarification Requested", by, reason);
+    if (!transition.ok) {
+      attempt.error = transition.error;
+      return null;
+    }
+    return { ...withRound, ...withStatusChange(intake, transition.data) };
+  });
+  if (attempt.error) return { ok: false, error: attempt.error, status: 409 };
+  if (!updated) return { ok: false, error: "Intake not found", status: 404 };
+  return { ok: true, data: { intake: updated, clarification } };
+}
+
+/** Why an intake cannot take a new round of questions */
+function requestBlocker(intake: StoredIntake): string | undefined {
+  if (isClosed(intake)) return `This intake is ${getStatus(intake)} and no longer takes questions`;
+  if ((intake.clarifications ?? []).some((c) => !c.outcome)) {
+    return "This intake already has unanswered clarification questions";
+  }
+  return undefined;
+}
+
+function withStatusChange(intake: StoredIntake, change: StatusChange): Pick<StoredIntake, "status" | "statusHistory"> {
+  return { status: change.to, statusHistory: [...(intake.statusHistory ?? []), change] };
+}
+
+/** Append answered questions to the section text so re-evaluation and the summary see them */
+function appendClarifications(text: string, questions: ClarificationQuestion[]): string {
+  const added = questions.map((q) => `Clarification — Q: ${q.question}\nA: ${q.answer}`).join("\n\n");
+  return text.trim() ? `${text.trim()}\n\n${added}` : added;
+}
+
+/** Why a round cannot be answered (any more); checked again on the latest record just before saving */
+function answerBlocker(intake: StoredIntake, clarificationId: string): { error: string; status: number } | null {
+  const round = (intake.clarifications ?? []).find((c) => c.id === clarificationId);
+  if (!round) return { error: "This clarification link is not valid", status: 404 };
+  if (round.outcome) return { error: "These questions have already been answered", status: 409 };
+  if (isClosed(intake)) return { error: `This intake is ${getStatus(intake)} and no longer takes answers`, status: 409 };
+  return null;
+}
+
+/** Record the requester's answers, re-evaluate the touched sections and recompute risk and summary */
+export async function answerClarification(
+  intakeId: string,
+  token: string,
+  answers: Record<string, string>,
+  by: Pick<SessionUser, "id" | "name">
+): Promise<ClarificationResult> {
+  const intake = await getIntake(intakeId);
+  const clarification = intake ? findClarification(intake, token) : undefined;
+  if (!intake || !clarification) return { ok: false, error: "This clarification link is not valid", status: 404 };
+  const blocker = answerBlocker(intake, clarification.id);
+  if (blocker) return { ok: false, ...blocker };
+
+  const questions = clarification.questions.map((q) => ({ ...q, answer: answers[q.id]?.trim() ?? "" }));
+  if (questions.some((q) => !q.answer)) return { ok: false, error: "Please answer every question", status: 400 };
+
+  const form = await loadFormDefinition();
+  const documentIds = intake.summary.supporting_documents ?? [];
+  let revisedOpening: string | undefined;
+  const revisedSections: Record<SectionKey, string> = {};
+  const reevaluated: SectionFeedback[] = [];
+  const sections = Array.from(new Set(questions.map((q) => q.section)));
+
+  for (const section of sections) {
+    const text = appendClarifications(
+      section === "Opening" ? intake.opening : intake.sectionValues[section] ?? "",
+      questions.filter((q) => q.section === section)
+    );
+    if (section === "Opening") revisedOpening = text;
+    else revisedSections[section] = text;
+
+    const feedback = await evaluateSection(section, text, documentIds);
+    if (feedback) reevaluated.push(feedback);
+  }
+
+  const { summary: designRequestSummary, error } = await generateDesignRequestSummary(
+    collectAnswers(form, revisedOpening ?? intake.opening, { ...intake.sectionValues, ...revisedSections }),
+    documentIds
+  );
+  if (error) console.error("[clarifications] summary model failed, using placeholder:", error);
+
+  // The model calls above are slow, so merge into the latest record and re-check it can still take the answers
+  const attempt: { answered?: ClarificationRequest; blocked?: { error: string; status: number } } = {};
+  const updated = await updateIntake(intakeId, (current) => {
+    attempt.blocked = answerBlocker(current, clarification.id) ?? undefined;
+    if (attempt.blocked) return null;
+    const feedbacks = current.feedbacks.map((f) => reevaluated.find((r) => r.section === f.section) ?? f);
+    feedbacks.push(...reevaluated.filter((r) => !current.feedbacks.some((f) => f.section === r.section)));
+    const { riskScore, flags } = deriveRisk(feedbacks);
+    const recommendedAction = getRecommendedAction(riskScore, flags);
+    const opening = revisedOpening ?? current.opening;
+
+    const outcome: ClarificationOutcome = {
+      answeredAt: new Date().toISOString(),
+      sectionsReevaluated: sections,
+      riskScoreBefore: current.summary.risk_score,
+      riskScoreAfter: riskScore,
+      flagsBefore: current.summary.flags,
+      flagsAfter: flags,
+      recommendedActionBefore: current.recommendedAction,
+      recommendedActionAfter: recommendedAction,
+      summaryBefore: current.summary.designRequestSummary,
+      summaryAfter: designRequestSummary,
+    };
+    const answered: ClarificationRequest = { ...clarification, questions, outcome };
+    attempt.answered = answered;
+    const transition =
+      getStatus(current) === "Clarification Requested"
+        ? planTransition(current, "In Review", by, "Clarification questions answered")
+        : null;
+
+    return {
+      ...current,
+      opening,
+      sectionValues: { ...current.sectionValues, ...revisedSections },
+      feedbacks,
+      recommendedAction,
+      summary: {
+        ...current.summary,
+        problem_statement: opening.trim(),
+        risk_score: riskScore,
+        flags,
+        designRequestSummary,
+      },
+      clarifications: (current.clarifications ?? []).map((c) => (c.id === answered.id ? answered : c)),
+      ...(transition?.ok ? withStatusChange(current, transition.data) : {}),
+    };
+  });
+  if (attempt.blocked) return { ok: false, ...attempt.blocked };
+  if (!updated || !attempt.answered) return { ok: false, error: "Intake not found", status: 404 };
+  return { ok: true, data: { intake: updated, clarification: attempt.answered } };
+}
+
+/** What the clarification page shows: the questions, the answers they extend and, once answered, what changed */
+export async function getClarificationView(intake: StoredIntake, clarification: ClarificationRequest, user: SessionUser) {
+  const form = await loadFormDefinition();
+  return {
+    project: getProjectName(intake.opening),
+    requestedBy: clarification.createdBy,
+    requestedAt: clarification.createdAt,
+    questions: clarification.questions.map((q) => ({
+      id: q.id,
+      section: q.section,
+      heading: q.section === "Opening" ? "Project basics" : findSection(form, q.section)?.heading ?? q.section,
+      currentAnswer: q.section === "Opening" ? intake.opening : intake.sectionValues[q.section] ?? "",
+      question: q.question,
+      answer: q.answer,
+    })),
+    outcome:
+      clarification.outcome && !canSeeRisk(user) ? toRequesterOutcome(clarification.outcome) : clarification.outcome,
+  };
+}
+
+export type ClarificationView = Awaited<ReturnType<typeof getClarificationView>>;
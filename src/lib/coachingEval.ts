@@ -0,0 +1,354 @@
+import { randomUUID } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { RISK_FLAGS, type PromptRef, type RiskFlag } from "@/app/types";
+import { loadFormDefinition } from "@/lib/formDefinition";
+import { findSection } from "@/lib/formSections";
+import { getProviderName, getRouteSettings } from "@/lib/llm";
+import { loadScoringRules, scoreWithRules } from "@/lib/scoringRules";
+import { evaluateSection } from "@/lib/sectionEvaluation";
+import { listRecords, readRecord, writeRecord } from "@/lib/storage";
+
+/**
+ * Coaching quality harness. A golden dataset of labelled answers (evals/coaching-golden.json, override with
+ * INTAKE_COACHING_GOLDEN) is run through the offline rules and/or the configured model; each run reports per-flag
+ * precision and recall plus risk-delta error against the labelled range, is stored, and can be diffed with an
+ * earlier run to see what a prompt or rule change did.
+ */
+
+export type CoachingEvaluator = "rules" | "model";
+
+export const COACHING_EVALUATORS: CoachingEvaluator[] = ["rules", "model"];
+
+export interface GoldenCase {
+  id: string;
+  /** "Opening" or a section id from the form definition */
+  section: string;
+  input: string;
+  expectedFlags: RiskFlag[];
+  /** Inclusive range a good evaluation's risk delta falls in */
+  riskDelta?: { min: number; max: number };
+  notes?: string;
+}
+
+export interface GoldenDataset {
+  version: number;
+  description?: string;
+  cases: GoldenCase[];
+}
+
+export interface CaseResult {
+  caseId: string;
+  flags: RiskFlag[];
+  riskDelta: number;
+  /** Distance outside the labelled range; 0 inside it */
+  riskDeltaError?: number;
+  /** Model evaluator only: why the model gave no evaluation (the case is left out of the metrics) */
+  error?: string;
+}
+
+export interface FlagMetrics {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  /** null when the evaluator never raised the flag */
+  precision: number | null;
+  /** null when no case expects the flag */
+  recall: number | null;
+}
+
+export interface EvaluatorReport {
+  evaluator: CoachingEvaluator;
+  /** Model evaluator: the prompt its evaluations came from */
+  prompt?: PromptRef;
+  model?: string;
+  cases: CaseResult[];
+  flags: Record<string, FlagMetrics>;
+  /** Over all flags together */
+  overall: FlagMetrics;
+  riskDelta: { scored: number; meanAbsoluteError: number | null; withinRange: number | null };
+  errors: number;
+}
+
+export interface CoachingEvalRun {
+  id: string;
+  createdAt: string;
+  datasetVersion: number;
+  provider: string;
+  reports: EvaluatorReport[];
+}
+
+export interface CaseChange {
+  caseId: string;
+  flagsAdded: RiskFlag[];
+  flagsRemoved: RiskFlag[];
+  riskDelta?: { before: number; after: number };
+  /** The evaluation errored in one run but not the other */
+  error?: { before?: string; after?: string };
+}
+
+export interface EvaluatorDiff {
+  evaluator: CoachingEvaluator;
+  promptBefore?: PromptRef;
+  promptAfter?: PromptRef;
+  /** After minus before; null when either side has no value */
+  precision: number | null;
+  recall: number | null;
+  meanAbsoluteError: number | null;
+  withinRange: number | null;
+  changed: CaseChange[];
+  /** Cases only one of the runs evaluated */
+  added: string[];
+  removed: string[];
+}
+
+export interface CoachingEvalDiff {
+  baseRunId: string;
+  runId: string;
+  evaluators: EvaluatorDiff[];
+}
+
+type EvalResult<T> = { ok: true; data: T } | { ok: false; error: string; status: number };
+
+const COLLECTION = "coaching-evals";
+
+export function getGoldenDatasetPath(): string {
+  const configured = process.env.INTAKE_COACHING_GOLDEN?.trim();
+  return configured ? path.resolve(configured) : path.join(process.cwd(), "evals", "coaching-golden.json");
+}
+
+function validateCase(raw: unknown, index: number, sections: Set<string>): { ok: true; data: GoldenCase } | { ok: false; error: string } {
+  const c = raw as GoldenCase | null;
+  const where = `cases[${index}]`;
+  if (!c || typeof c !== "object") return { ok: false, error: `${where} must be an object` };
+  if (typeof c.id !== "string" || !c.id.trim()) return { ok: false, error: `${where}.id must be a non-empty string` };
+  if (typeof c.section !== "string" || !sections.has(c.section)) {
+    return { ok: false, error: `${where}.section must be "Opening" or a section id from the form definition` };
+  }
+  if (typeof c.input !== "string") return { ok: false, error: `${where}.input must be a string` };
+  if (!Array.isArray(c.expectedFlags) || !c.expectedFlags.every((f) => (RISK_FLAGS as readonly string[]).includes(f))) {
+    return { ok: false, error: `${where}.expectedFlags must be a list of ${RISK_FLAGS.join(", ")}` };
+  }
+  if (c.riskDelta !== undefined) {
+    const { min, max } = c.riskDelta ?? {};
+    if (typeof min !== "number" || typeof max !== "number" || min > max) {
+      return { ok: false, error: `${where}.riskDelta must be { min, max } with min <= max` };
+    }
+  }
+  return { ok: true, data: c };
+}
+
+export async function loadGoldenDataset(): Promise<GoldenDataset> {
+  const file = getGoldenDatasetPath();
+  let raw: Partial<GoldenDataset>;
+  try {
+    raw = JSON.parse(await fs.readFile(file, "utf8"));
+  } catch (e) {
+    throw new Error(`Could not read the golden dataset at ${file}: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  if (!raw || !Array.isArray(raw.cases)) throw new Error(`Invalid golden dataset (${file}): cases must be a list`);
+  const form = await loadFormDefinition();
+  const sections = new Set(["Opening", ...form.sections.map((s) => s.id)]);
+  const cases: GoldenCase[] = [];
+  for (let i = 0; i < raw.cases.length; i++) {
+    const result = validateCase(raw.cases[i], i, sections);
+    if (!result.ok) throw new Error(`Invalid golden dataset (${file}): ${result.error}`);
+    if (cases.some((c) => c.id === result.data.id)) throw new Error(`Invalid golden dataset (${file}): duplicate case id "${result.data.id}"`);
+    cases.push(result.data);
+  }
+  return { version: typeof raw.version === "number" ? raw.version : 1, description: raw.description, cases };
+}
+
+function riskDeltaError(golden: GoldenCase, delta: number): number | undefined {
+  if (!golden.riskDelta) return undefined;
+  return Math.max(0, golden.riskDelta.min - delta, delta - golden.riskDelta.max);
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? Math.round((numerator / denominator) * 1000) / 1000 : null;
+}
+
+function flagMetrics(truePositives: number, falsePositives: number, falseNegatives: number): FlagMetrics {
+  return {
+    truePositives,
+    falsePositives,
+    falseNegatives,
+    precision: ratio(truePositives, truePositives + falsePositives),
+    recall: ratio(truePositives, truePositives + falseNegatives),
+  };
+}
+
+/** Per-flag and overall precision/recall plus risk-delta error; errored cases are left out */
+function scoreResults(
+  evaluator: CoachingEvaluator,
+  dataset: GoldenDataset,
+  cases: CaseResult[]
+): Omit<EvaluatorReport, "prompt" | "model"> {
+  const counts = new Map<string, { tp: number; fp: number; fn: number }>(RISK_FLAGS.map((f) => [f, { tp: 0, fp: 0, fn: 0 }]));
+  const errors: number[] = [];
+  for (const result of cases) {
+    const golden = dataset.cases.find((c) => c.id === result.caseId);
+    if (!golden || result.error) continue;
+    for (const flag of Array.from(new Set([...golden.expectedFlags, ...result.flags]))) {
+      const count = counts.get(flag) ?? { tp: 0, fp: 0, fn: 0 };
+      const expected = golden.expectedFlags.includes(flag);
+      const raised = result.flags.includes(flag);
+      if (expected && raised) count.tp++;
+      else if (raised) count.fp++;
+      else count.fn++;
+      counts.set(flag, count);
+    }
+    if (result.riskDeltaError !== undefined) errors.push(result.riskDeltaError);
+  }
+  const flags: Record<string, FlagMetrics> = {};
+  let tp = 0;
+  let fp = 0;
+  let fn = 0;
+  for (const [flag, count] of Array.from(counts)) {
+    flags[flag] = flagMetrics(count.tp, count.fp, count.fn);
+    tp += count.tp;
+    fp += count.fp;
+    fn += count.fn;
+  }
+  return {
+    evaluator,
+    cases,
+    flags,
+    overall: flagMetrics(tp, fp, fn),
+    riskDelta: {
+      scored: errors.length,
+      meanAbsoluteError: errors.length ? Math.round((errors.reduce((a, b) => a + b, 0) / errors.length) * 100) / 100 : null,
+      withinRange: ratio(errors.filter((e) => e === 0).length, errors.length),
+    },
+    errors: cases.filter((c) => c.error).length,
+  };
+}
+
+async function runRules(dataset: GoldenDataset): Promise<EvaluatorReport> {
+  const [rules, form] = await Promise.all([loadScoringRules(), loadFormDefinition()]);
+  const cases = dataset.cases.map((golden): CaseResult => {
+    const role = golden.section === "Opening" ? undefined : findSection(form, golden.section)?.role;
+    const result = scoreWithRules(rules, { section: golden.section, role, input: golden.input });
+    return {
+      caseId: golden.id,
+      flags: result.flags,
+      riskDelta: result.riskDelta,
+      riskDeltaError: riskDeltaError(golden, result.riskDelta),
+    };
+  });
+  return scoreResults("rules", dataset, cases);
+}
+
+/** One case at a time, so a run stays within provider rate limits */
+async function runModel(dataset: GoldenDataset): Promise<EvaluatorReport> {
+  const cases: CaseResult[] = [];
+  let prompt: PromptRef | undefined;
+  for (const golden of dataset.cases) {
+    const result = await evaluateSection(golden.section, golden.input, []);
+    if (!result || result.openaiError) {
+      cases.push({ caseId: golden.id, flags: [], riskDelta: 0, error: result?.openaiError ?? "Unknown section" });
+      continue;
+    }
+    prompt ??= result.prompt;
+    cases.push({
+      caseId: golden.id,
+      flags: result.flags,
+      riskDelta: result.riskDelta,
+      riskDeltaError: riskDeltaError(golden, result.riskDelta),
+    });
+  }
+  return { ...scoreResults("model", dataset, cases), prompt, model: getRouteSettings("evaluate-section").model };
+}
+
+/** Run the golden dataset through the chosen evaluators and store the run */
+export async function runCoachingEval(evaluators: CoachingEvaluator[]): Promise<CoachingEvalRun> {
+  const dataset = await loadGoldenDataset();
+  const reports: EvaluatorReport[] = [];
+  for (const evaluator of evaluators) {
+    reports.push(evaluator === "rules" ? await runRules(dataset) : await runModel(dataset));
+  }
+  const run: CoachingEvalRun = {
+    id: randomUUID(),
+    createdAt: new Date().toISOString(),
+    datasetVersion: dataset.version,
+    provider: getProviderName(),
+    reports,
+  };
+  await writeRecord(COLLECTION, run.id, run);
+  return run;
+}
+
+export async function getCoachingEvalRun(id: string): Promise<CoachingEvalRun | null> {
+  return readRecord<CoachingEvalRun>(COLLECTION, id);
+}
+
+/** Stored runs, newest first */
+export async function listCoachingEvalRuns(): Promise<CoachingEvalRun[]> {
+  const runs = await listRecords<CoachingEvalRun>(COLLECTION);
+  return runs.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+function change(before: number | null, after: number | null): number | null {
+  return before === null || after === null ? null : Math.round((after - before) * 1000) / 1000;
+}
+
+function diffReports(before: EvaluatorReport, after: EvaluatorReport): EvaluatorDiff {
+  const beforeCases = new Map(before.cases.map((c) => [c.caseId, c]));
+  const afterIds = new Set(after.cases.map((c) => c.caseId));
+  const changed: CaseChange[] = [];
+  for (const next of after.cases) {
+    const prev = beforeCases.get(next.caseId);
+    if (!prev) continue;
+    const entry: CaseChange = {
+      caseId: next.caseId,
+      flagsAdded: next.flags.filter((f) => !prev.flags.includes(f)),
+      flagsRemoved: prev.flags.filter((f) => !next.flags.includes(f)),
+    };
+    if (prev.riskDelta !== next.riskDelta) entry.riskDelta = { before: prev.riskDelta, after: next.riskDelta };
+    if (prev.error !== next.error) entry.error = { before: prev.error, after: next.error };
+    if (entry.flagsAdded.length || entry.flagsRemoved.length || entry.riskDelta || entry.error) changed.push(entry);
+  }
+  return {
+    evaluator: after.evaluator,
+    promptBefore: before.prompt,
+    promptAfter: after.prompt,
+    precision: change(before.overall.precision, after.overall.precision),
+    recall: change(before.overall.recall, after.overall.recall),
+    meanAbsoluteError: change(before.riskDelta.meanAbsoluteError, after.riskDelta.meanAbsoluteError),
+    withinRange: change(before.riskDelta.withinRange, after.riskDelta.withinRange),
+    changed,
+    added: after.cases.filter((c) => !beforeCases.has(c.caseId)).map((c) => c.caseId),
+    removed: before.cases.filter((c) => !afterIds.has(c.caseId)).map((c) => c.caseId),
+  };
+}
+
+/** What changed from `base` to `run`, for every evaluator both ran */
+export function diffCoachingEvalRuns(base: CoachingEvalRun, run: CoachingEvalRun): CoachingEvalDiff {
+  const evaluators: EvaluatorDiff[] = [];
+  for (const report of run.reports) {
+    const previous = base.reports.find((r) => r.evaluator === report.evaluator);
+    if (previous) evaluators.push(diffReports(previous, report));
+  }
+  return { baseRunId: base.id, runId: run.id, evaluators };
+}
+
+/**
+ * Run and diff: against `compareTo` when given, otherwise against the latest earlier run that used the same
+ * evaluators. 404 for an unknown `compareTo`.
+ */
+export async function runAndCompare(
+  evaluators: CoachingEvaluator[],
+  compareTo?: string
+): Promise<EvalResult<{ run: CoachingEvalRun; diff: CoachingEvalDiff | null }>> {
+  let base: CoachingEvalRun | null = null;
+  if (compareTo) {
+    base = await getCoachingEvalRun(compareTo);
+    if (!base) return { ok: false, error: "Evaluation run not found", status: 404 };
+  } else {
+    base =
+      (await listCoachingEvalRuns()).find((r) => evaluators.every((e) => r.reports.some((report) => report.evaluator === e))) ??
+      null;
+  }
+  const run = await runCoachingEval(evaluators);
+  return { ok: true, data: { run, diff: base ? diffCoachingEvalRuns(base, run) : null } };
+}
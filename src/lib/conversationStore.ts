@@ -0,0 +1,64 @@
+import { randomUUID } from "node:crypto";
+import type { ConversationTurn, DesignRequestSummaryField, StoredConversation } from "@/app/types";
+import { readRecord, writeRecord } from "@/lib/storage";
+
+const COLLECTION = "conversations";
+
+export async function createConversation(
+  ownerId: string,
+  greeting: ConversationTurn,
+  missingFields: DesignRequestSummaryField[]
+): Promise<StoredConversation> {
+  const now = new Date().toISOString();
+  const conversation: StoredConversation = {
+    id: randomUUID(),
+    createdAt: now,
+    updatedAt: now,
+    ownerId,
+    turns: [greeting],
+    extracted: {},
+    flags: [],
+    missingFields,
+  };
+  await writeRecord(COLLECTION, conversation.id, conversation);
+  return conversation;
+}
+
+export async function getConversation(id: string): Promise<StoredConversation | null> {
+  return readRecord<StoredConversation>(COLLECTION, id);
+}
+
+async function saveConversation(conversation: StoredConversation): Promise<StoredConversation> {
+  const saved = { ...conversation, updatedAt: new Date().toISOString() };
+  await writeRecord(COLLECTION, saved.id, saved);
+  return saved;
+}
+
+/** The update in flight per conversation, so read-modify-write cycles in this process run one after another */
+const pendingUpdates = new Map<string, Promise<StoredConversation | null>>();
+
+/**
+ * Apply a change to the latest stored conversation and bump updatedAt. `change` may return null to leave it
+ * untouched, e.g. when it has been submitted in the meantime. Returns null if nothing was written.
+ */
+export async function updateConversation(
+  id: string,
+  change: (conversation: StoredConversation) => StoredConversation | null
+): Promise<StoredConversation | null> {
+  const previous = pendingUpdates.get(id) ?? Promise.resolve(null);
+  const update = previous
+    .catch(() => null)
+    .then(async () => {
+      const existing = await getConversation(id);
+      if (!existing) return null;
+      const changed = change(existing);
+      if (!changed) return null;
+      return saveConversation({ ...changed, id: existing.id });
+    });
+  pendingUpdates.set(id, update);
+  try {
+    return await update;
+  } finally {
+    if (pendingUpdates.get(id) === update) pendingUpdates.delete(id);
+  }
+}
@@ -0,0 +1,56 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { continueConversation, startConversation } from "@/lib/conversations";
+import { chatCompletionJson } from "@/lib/llm";
+
+vi.mock("@/lib/llm", () => ({
+  chatCompletionJson: vi.fn(),
+  defineResponseSchema: (name: string, schema: unknown) => ({ name, schema }),
+}));
+
+const model = vi.mocked(chatCompletionJson);
+
+function modelTurn(flags: string[]) {
+  return { ok: true as const, data: { fields: {}, flags, reply: "Tell me more." } };
+}
+
+describe("continueConversation", () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(path.join(tmpdir(), "conversations-test-"));
+    vi.stubEnv("INTAKE_DATA_DIR", dataDir);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    model.mockReset();
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it("keeps flags raised on earlier turns when the model does not repeat them", async () => {
+    model.mockResolvedValueOnce(modelTurn(["Solution Bias"])).mockResolvedValueOnce(modelTurn(["Missing Metrics"]));
+    const started = await startConversation("user-1");
+
+    const first = await continueConversation(started, "We need a new dashboard button");
+    if (!first.ok) throw new Error(first.error);
+    const second = await continueConversation(first.data, "It should make things better");
+    if (!second.ok) throw new Error(second.error);
+
+    expect(second.data.flags).toEqual(["Solution Bias", "Missing Metrics"]);
+  });
+
+  it("does not repeat a flag raised again", async () => {
+    model.mockResolvedValue(modelTurn(["Solution Bias", "Solution Bias"]));
+    const started = await startConversation("user-1");
+
+    const first = await continueConversation(started, "Add a button");
+    if (!first.ok) throw new Error(first.error);
+    const second = await continueConversation(first.data, "A blue button");
+    if (!second.ok) throw new Error(second.error);
+
+    expect(second.data.flags).toEqual(["Solution Bias"]);
+  });
+});
@@ -0,0 +1,332 @@
+import {
+  RISK_FLAGS,
+  type ConversationTurn,
+  type DesignRequestSummary,
+  type DesignRequestSummaryField,
+  type IntakeSubmission,
+  type RiskContribution,
+  type RiskFlag,
+  type SectionFeedback,
+  type SectionKey,
+  type SectionRole,
+  type SessionUser,
+  type StoredConversation,
+  type StoredIntake,
+} from "@/app/types";
+import { canSeeRisk } from "@/lib/auth";
+import { createConversation, getConversation, updateConversation } from "@/lib/conversationStore";
+import { loadFormDefinition } from "@/lib/formDefinition";
+import { createIntake } from "@/lib/intakeStore";
+import { DESIGN_REQUEST_SUMMARY_LABELS } from "@/lib/intakeText";
+import { chatCompletionJson, defineResponseSchema } from "@/lib/llm";
+import { resolvePrompt } from "@/lib/prompts";
+import { loadScoringRules, scoreWithRules } from "@/lib/scoringRules";
+import { resolveSubmittedFeedbacks } from "@/lib/sealedFeedback";
+
+/**
+ * Chat-mode intake. The requester talks the request through over several turns; after each one the assistant
+ * extracts the Design Request Summary fields and flags from the transcript and asks only about fields still
+ * missing. Once every field is covered the conversation is submitted as a regular intake.
+ */
+
+type ConversationResult<T> = { ok: true; data: T } | { ok: false; error: string; status: number };
+
+const SUMMARY_FIELDS = Object.keys(DESIGN_REQUEST_SUMMARY_LABELS) as DesignRequestSummaryField[];
+
+export const MAX_MESSAGE_LENGTH = 4000;
+
+/** Earlier turns sent with each extraction; anything older is carried by the fields extracted so far */
+const PROMPT_TURNS = 12;
+
+export const CONVERSATION_GREETING =
+  "Hi! Let's talk through your design request. What's the project, and what isn't working today for the people using it?";
+
+/** What the scripted fallback asks for each missing field */
+const FIELD_QUESTIONS: Record<DesignRequestSummaryField, string> = {
+  problem: "What's happening today that isn't working, and who runs into it?",
+  desiredOutcome: "What would success look like once this is solved? A measurable target helps.",
+  usersImpacted: "Who is affected — which roles, teams or customer segments?",
+  businessValue: "Why does this matter to the business or to those users right now?",
+  constraints: "Are there technical limits, dependencies, deadlines or other constraints the design has to respect?",
+};
+
+const COMPLETE_REPLY = "Thanks — that covers everything the design team needs. Review the summary and submit when you're ready.";
+
+/** Which form section a summary field is filed under when the conversation becomes an intake */
+const FIELD_ROLES: Record<DesignRequestSummaryField, SectionRole> = {
+  problem: "problem",
+  usersImpacted: "problem",
+  desiredOutcome: "objectives",
+  businessValue: "objectives",
+  constraints: "constraints",
+};
+
+type ModelTurn = {
+  fields: Record<DesignRequestSummaryField, string | null>;
+  flags: (typeof RISK_FLAGS)[number][];
+  reply: string;
+};
+
+const TURN_SCHEMA = defineResponseSchema<ModelTurn>("conversation_turn", {
+  type: "object",
+  properties: {
+    fields: {
+      type: "object",
+      properties: Object.fromEntries(
+        Object.keys(DESIGN_REQUEST_SUMMARY_LABELS).map((field) => [field, { type: "string", nullable: true }])
+      ),
+    },
+    flags: { type: "array", items: { type: "string", enum: RISK_FLAGS } },
+    reply: { type: "string" },
+  },
+});
+
+/** What one turn adds: the fields it covered and the flags it raised, applied to the latest stored conversation */
+type TurnUpdate = Pick<StoredConversation, "extracted" | "flags"> & { reply: ConversationTurn };
+
+function isCovered(value: string | undefined): value is string {
+  return !!value && value.trim() !== "" && value.trim() !== "—";
+}
+
+function missingFieldsOf(extracted: StoredConversation["extracted"]): DesignRequestSummaryField[] {
+  return SUMMARY_FIELDS.filter((field) => !isCovered(extracted[field]));
+}
+
+function nextQuestion(missing: DesignRequestSummaryField[]): string {
+  return missing.length > 0 ? FIELD_QUESTIONS[missing[0]] : COMPLETE_REPLY;
+}
+
+/** Flags stay raised once any turn has raised them; later turns only add to them */
+function mergeFlags(flags: RiskFlag[], raised: RiskFlag[]): RiskFlag[] {
+  return [...flags, ...raised.filter((flag, i) => !flags.includes(flag) && raised.indexOf(flag) === i)];
+}
+
+async function extractWithModel(
+  conversation: StoredConversation,
+  message: string
+): Promise<{ ok: true; data: TurnUpdate } | { ok: false; error: string }> {
+  const known = SUMMARY_FIELDS.filter((field) => isCovered(conversation.extracted[field]))
+    .map((field) => `${field}: ${conversation.extracted[field]}`)
+    .join("\n");
+  const transcript = conversation.turns
+    .slice(-PROMPT_TURNS)
+    .map((turn) => `${turn.role === "user" ? "Requester" : "Assistant"}: ${turn.content}`)
+    .join("\n");
+  const userContent = [
+    `Fields so far:\n${known || "(none yet)"}`,
+    `Still missing: ${conversation.missingFields.join(", ") || "(nothing)"}`,
+    `Conversation:\n${transcript}`,
+    `Latest message: ${message}`,
+  ].join("\n\n");
+
+  const prompt = await resolvePrompt("conversation", { riskFlags: RISK_FLAGS.join(", ") });
+  const result = await chatCompletionJson(
+    "conversation",
+    [
+      { role: "system", content: prompt.text },
+      { role: "user", content: userContent },
+    ],
+    TURN_SCHEMA
+  );
+  if (!result.ok) return result;
+
+  const extracted: StoredConversation["extracted"] = {};
+  for (const field of SUMMARY_FIELDS) {
+    const value = result.data.fields[field];
+    if (value && isCovered(value)) extracted[field] = value.trim();
+  }
+  const reply = result.data.reply.trim() || nextQuestion(missingFieldsOf({ ...conversation.extracted, ...extracted }));
+  return {
+    ok: true,
+    data: {
+      extracted,
+      flags: result.data.flags,
+      reply: { role: "assistant", content: reply, at: new Date().toISOString(), source: "openai", prompt: prompt.ref },
+    },
+  };
+}
+
+/** Without the model: file the message under the field that was asked about and score it with the offline rules */
+async function placeholderTurn(conversation: StoredConversation, message: string, error: string): Promise<TurnUpdate> {
+  const extracted: StoredConversation["extracted"] = {};
+  let flags: RiskFlag[] = [];
+  const field = conversation.missingFields[0];
+  if (field) {
+    extracted[field] = message;
+    const form = await loadFormDefinition();
+    const section = form.sections.find((s) => s.role === FIELD_ROLES[field]);
+    if (section) {
+      const scored = scoreWithRules(await loadScoringRules(), { section: section.id, role: section.role, input: message });
+      flags = scored.flags;
+    }
+  }
+  const content = nextQuestion(missingFieldsOf({ ...conversation.extracted, ...extracted }));
+  return {
+    extracted,
+    flags,
+    reply: { role: "assistant", content, at: new Date().toISOString(), source: "placeholder", openaiError: error },
+  };
+}
+
+export async function startConversation(ownerId: string): Promise<StoredConversation> {
+  const greeting: ConversationTurn = { role: "assistant", content: CONVERSATION_GREETING, at: new Date().toISOString() };
+  return createConversation(ownerId, greeting, SUMMARY_FIELDS);
+}
+
+/** Add the requester's message, update the extracted fields and flags, and append the assistant's reply */
+export async function continueConversation(
+  conversation: StoredConversation,
+  rawMessage: unknown
+): Promise<ConversationResult<StoredConversation>> {
+  if (conversation.intakeId || conversation.submittingAt) {
+    return { ok: false, error: "This conversation has already been submitted", status: 409 };
+  }
+  const message = typeof rawMessage === "string" ? rawMessage.trim() : "";
+  if (!message) return { ok: false, error: "Write a message first", status: 400 };
+  if (message.length > MAX_MESSAGE_LENGTH) {
+    return { ok: false, error: `Keep each message under ${MAX_MESSAGE_LENGTH} characters`, status: 400 };
+  }
+
+  const userTurn: ConversationTurn = { role: "user", content: message, at: new Date().toISOString() };
+  const modelTurn = await extractWithModel(conversation, message);
+  if (!modelTurn.ok) console.error("[conversations] extraction failed, using scripted questions:", modelTurn.error);
+  const update = modelTurn.ok ? modelTurn.data : await placeholderTurn(conversation, message, modelTurn.error);
+
+  // Applied to the latest record, so messages sent while this one waited on the model are kept
+  const attempt: { submitted?: boolean } = {};
+  const saved = await updateConversation(conversation.id, (current) => {
+    if (current.intakeId || current.submittingAt) {
+      attempt.submitted = true;
+      return null;
+    }
+    const extracted = { ...current.extracted, ...update.extracted };
+    return {
+      ...current,
+      turns: [...current.turns, userTurn, update.reply],
+      extracted,
+      flags: mergeFlags(current.flags, update.flags),
+      missingFields: missingFieldsOf(extracted),
+    };
+  });
+  if (attempt.submitted) return { ok: false, error: "This conversation has already been submitted", status: 409 };
+  if (!saved) return { ok: false, error: "Conversation not found", status: 404 };
+  return { ok: true, data: saved };
+}
+
+/** Submit a complete conversation as an intake; 409 if it is incomplete or already submitted */
+export async function submitConversation(
+  conversation: StoredConversation,
+  user: SessionUser,
+  details: { product_pillar?: string; quarter_slated_for?: string }
+): Promise<ConversationResult<{ conversation: StoredConversation; intake: StoredIntake }>> {
+  // Claimed on the latest record before the intake is created, so a double submit only ever creates one
+  const attempt: { error?: string } = {};
+  const claimed = await updateConversation(conversation.id, (current) => {
+    if (current.intakeId || current.submittingAt) attempt.error = "This conversation has already been submitted";
+    else if (current.missingFields.length > 0) attempt.error = "Answer the remaining questions before submitting";
+    return attempt.error ? null : { ...current, submittingAt: new Date().toISOString() };
+  });
+  if (attempt.error) return { ok: false, error: attempt.error, status: 409 };
+  if (!claimed) return { ok: false, error: "Conversation not found", status: 404 };
+
+  try {
+    const intake = await createIntakeFrom(claimed, user, details);
+    const saved = await updateConversation(claimed.id, (current) => ({ ...withoutClaim(current), intakeId: intake.id }));
+    return { ok: true, data: { conversation: saved ?? { ...withoutClaim(claimed), intakeId: intake.id }, intake } };
+  } catch (e) {
+    await updateConversation(claimed.id, withoutClaim);
+    throw e;
+  }
+}
+
+function withoutClaim(conversation: StoredConversation): StoredConversation {
+  const released = { ...conversation };
+  delete released.submittingAt;
+  return released;
+}
+
+/** The intake a complete conversation becomes; its section answers are built from the extracted fields */
+async function createIntakeFrom(
+  conversation: StoredConversation,
+  user: SessionUser,
+  details: { product_pillar?: string; quarter_slated_for?: string }
+): Promise<StoredIntake> {
+  // The prompt behind the last model-written turn, so the summary traces back like a generated one
+  const prompt = conversation.turns.findLast((turn) => turn.prompt)?.prompt;
+  const summary: DesignRequestSummary = { ...(conversation.extracted as DesignRequestSummary), ...(prompt && { prompt }) };
+  const form = await loadFormDefinition();
+  const sectionValues: Record<SectionKey, string> = {};
+  for (const section of form.sections) {
+    if (!section.role) continue;
+    const value = SUMMARY_FIELDS.filter((field) => FIELD_ROLES[field] === section.role)
+      .map((field, i) => (i === 0 ? summary[field] : `${DESIGN_REQUEST_SUMMARY_LABELS[field]}: ${summary[field]}`))
+      .join("\n\n");
+    if (value) sectionValues[section.id] = value;
+  }
+  // Fields the form has no section for stay with the opening answer, so the evaluation still sees them
+  const firstMessage = conversation.turns.find((turn) => turn.role === "user")?.content ?? summary.problem;
+  const unfiled = SUMMARY_FIELDS.filter(
+    (field) => !form.sections.some((s) => s.role === FIELD_ROLES[field]) && summary[field] !== firstMessage
+  ).map((field) => `${DESIGN_REQUEST_SUMMARY_LABELS[field]}: ${summary[field]}`);
+
+  const submission: IntakeSubmission = {
+    opening: [firstMessage, ...unfiled].join("\n\n"),
+    sectionValues,
+    feedbacks: [],
+    summary: {
+      problem_statement: summary.problem,
+      desired_outcome: summary.desiredOutcome,
+      product_pillar: details.product_pillar || undefined,
+      quarter_slated_for: details.quarter_slated_for || undefined,
+      designRequestSummary: summary,
+    },
+  };
+  const feedbacks = withConversationFlags(await resolveSubmittedFeedbacks(submission, user), conversation);
+  const { id, name, email } = user;
+  return createIntake(submission, feedbacks, { id, name, email });
+}
+
+/**
+ * Flags raised during the chat that the re-evaluation did not raise again, added to the opening's evaluation so
+ * they count towards the intake's flags and recommended action like a wizard intake's do
+ */
+function withConversationFlags(feedbacks: SectionFeedback[], conversation: StoredConversation): SectionFeedback[] {
+  const raised = conversation.flags.filter((flag) => !feedbacks.some((f) => f.flags.includes(flag)));
+  if (raised.length === 0) return feedbacks;
+  const byModel = conversation.turns.some((turn) => turn.source === "openai");
+  const contribution: RiskContribution = {
+    section: "Opening",
+    kind: byModel ? "llm" : "rule",
+    delta: 0,
+    reason: "Raised during the conversation",
+    flags: raised,
+    source: byModel ? "openai" : "placeholder",
+  };
+  const opening = feedbacks.find((f) => f.section === "Opening");
+  if (!opening) {
+    const feedback = { feedback: "", suggestedImprovements: [], riskDelta: 0, source: contribution.source };
+    return [...feedbacks, { ...feedback, section: "Opening", flags: raised, contributions: [contribution] }];
+  }
+  return feedbacks.map((f) =>
+    f === opening
+      ? { ...f, flags: [...f.flags, ...raised], ...(f.contributions?.length && { contributions: [...f.contributions, contribution] }) }
+      : f
+  );
+}
+
+/** The conversation if it belongs to `user`; anyone else's looks missing */
+export async function getOwnConversation(id: string, user: SessionUser): Promise<ConversationResult<StoredConversation>> {
+  const conversation = await getConversation(id);
+  if (!conversation || conversation.ownerId !== user.id) return { ok: false, error: "Conversation not found", status: 404 };
+  return { ok: true, data: conversation };
+}
+
+export type ConversationView = Omit<StoredConversation, "flags"> & Partial<Pick<StoredConversation, "flags">>;
+
+/** The conversation as this user may see it: flags are for reviewers */
+export function conversationViewFor(user: SessionUser, conversation: StoredConversation): ConversationView {
+  if (canSeeRisk(user)) return conversation;
+  const view: ConversationView = { ...conversation };
+  delete view.flags;
+  return view;
+}
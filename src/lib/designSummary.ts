@@ -0,0 +1,92 @@
+import type { DesignRequestSummary, IntakeFormDefinition, SectionAnswer, SectionRole } from "@/app/types";
+import {
+  chatCompletionJson,
+  defineResponseSchema,
+  readPartialJsonStrings,
+  type PartialFieldsHandler,
+} from "@/lib/llm";
+import { DOCUMENT_CONTEXT_INSTRUCTION, getDocumentContext } from "@/lib/documentText";
+import { loadFormDefinition } from "@/lib/formDefinition";
+import { findSection } from "@/lib/formSections";
+import { DESIGN_REQUEST_SUMMARY_LABELS } from "@/lib/intakeText";
+import { resolvePrompt } from "@/lib/prompts";
+
+/** Design Request Summary generation shared by /api/generate-summary and clarification answers */
+
+const SUMMARY_SCHEMA = defineResponseSchema<DesignRequestSummary>("design_request_summary", {
+  type: "object",
+  properties: {
+    problem: { type: "string" },
+    desiredOutcome: { type: "string" },
+    usersImpacted: { type: "string" },
+    businessValue: { type: "string" },
+    constraints: { type: "string" },
+  },
+});
+
+async function generateSummaryWithModel(
+  answers: SectionAnswer[],
+  documentContext: string,
+  onProgress?: PartialFieldsHandler
+): Promise<{ ok: true; data: DesignRequestSummary } | { ok: false; error: string }> {
+  let userContent = answers
+    .map((a) => `${a.section === "Opening" ? "Opening / how can I help" : a.heading}: ${a.value}`)
+    .join("\n\n");
+  const prompt = await resolvePrompt("summary");
+  let systemPrompt = prompt.text;
+  if (documentContext) {
+    userContent += `\n\nSupporting documents:\n${documentContext}`;
+    systemPrompt += `\n\n${DOCUMENT_CONTEXT_INSTRUCTION} Use them to fill in fields the answers leave thin (e.g. users impacted, business value).`;
+  }
+
+  const messages = [
+    { role: "system" as const, content: systemPrompt },
+    { role: "user" as const, content: userContent },
+  ];
+  const result = await chatCompletionJson(
+    "summary",
+    messages,
+    SUMMARY_SCHEMA,
+    {
+      onContent:
+        onProgress && ((content) => onProgress(readPartialJsonStrings(content, Object.keys(DESIGN_REQUEST_SUMMARY_LABELS)))),
+      promptVersion: prompt.ref.version,
+    }
+  );
+  return result.ok ? { ok: true, data: { ...result.data, prompt: prompt.ref } } : result;
+}
+
+/** Placeholder when the model is unavailable: maps answers onto summary fields by section role */
+function placeholderSummary(form: IntakeFormDefinition, answers: SectionAnswer[]): DesignRequestSummary {
+  const byRole = (role: SectionRole) =>
+    answers.find((a) => findSection(form, a.section)?.role === role)?.value.trim() ?? "";
+  const opening = answers.find((a) => a.section === "Opening")?.value.trim() ?? "";
+  return {
+    problem: byRole("problem") || opening || "—",
+    desiredOutcome: byRole("objectives") || "—",
+    usersImpacted: "—",
+    businessValue: "—",
+    constraints: byRole("constraints") || "—",
+  };
+}
+
+/**
+ * Summarise the answers into a Design Request Summary. When the model fails the summary is
+ * assembled from the answers by section role, and `error` says why. With `onProgress` the fields are
+ * reported as the model writes them.
+ */
+export async function generateDesignRequestSummary(
+  answers: SectionAnswer[],
+  documentIds: string[],
+  onProgress?: PartialFieldsHandler
+): Promise<{ summary: DesignRequestSummary; error?: string }> {
+  const form = await loadFormDefinition();
+  const documentContext = await getDocumentContext(
+    documentIds,
+    `problem users business value outcome ${answers.map((a) => a.value).join("\n")}`
+  );
+
+  const result = await generateSummaryWithModel(answers, documentContext, onProgress);
+  if (result.ok) return { summary: result.data };
+  return { summary: placeholderSummary(form, answers), error: result.error };
+}
@@ -0,0 +1,173 @@
+import type { SessionUser, UploadedDocument } from "@/app/types";
+import { canDownloadUpload } from "@/lib/intakeAccess";
+import { getUpload, getUploadContent } from "@/lib/uploadStore";
+import { readRecord, writeRecord } from "@/lib/storage";
+
+/**
+ * Turn uploaded supporting documents (PDF, DOCX, Markdown, plain text) into text chunks the
+ * model can use as context. Extracted text is cached per upload so each file is parsed once.
+ */
+
+const TEXT_COLLECTION = "upload-text";
+
+const CHUNK_CHARS = 1500;
+const CHUNK_OVERLAP = 200;
+/** Default budget for document context added to a single prompt */
+export const DEFAULT_CONTEXT_CHARS = 6000;
+
+interface ExtractedText {
+  id: string;
+  text: string;
+  extractedAt: string;
+}
+
+export interface DocumentChunk {
+  documentId: string;
+  fileName: string;
+  index: number;
+  text: string;
+}
+
+function extensionOf(fileName: string): string {
+  return fileName.toLowerCase().match(/\.[a-z0-9]+$/)?.[0] ?? "";
+}
+
+export function isExtractable(doc: UploadedDocument): boolean {
+  return [".pdf", ".docx", ".md", ".txt"].includes(extensionOf(doc.fileName));
+}
+
+async function extractRaw(doc: UploadedDocument, content: Buffer): Promise<string> {
+  switch (extensionOf(doc.fileName)) {
+    case ".pdf": {
+      const { extractText, getDocumentProxy } = await import("unpdf");
+      const pdf = await getDocumentProxy(new Uint8Array(content));
+      const { text } = await extractText(pdf, { mergePages: true });
+      return text;
+    }
+    case ".docx": {
+      const mammoth = await import("mammoth");
+      const { value } = await mammoth.extractRawText({ buffer: content });
+      return value;
+    }
+    default:
+      return content.toString("utf8");
+  }
+}
+
+function normalize(text: string): string {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .replace(/[ \t]+/g, " ")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/** Extracted text for an upload, or null if it is missing or not a text document. */
+export async function getDocumentText(id: string): Promise<string | null> {
+  const cached = await readRecord<ExtractedText>(TEXT_COLLECTION, id);
+  if (cached) return cached.text;
+
+  const doc = await getUpload(id);
+  if (!doc || !isExtractable(doc)) return null;
+  const content = await getUploadContent(id);
+  if (!content) return null;
+
+  try {
+    const text = normalize(await extractRaw(doc, content));
+    await writeRecord<ExtractedText>(TEXT_COLLECTION, id, { id, text, extractedAt: new Date().toISOString() });
+    return text;
+  } catch (e) {
+    console.error(`[documentText] could not extract text from ${doc.fileName}:`, e);
+    return null;
+  }
+}
+
+/** Split text into overlapping chunks, preferring paragraph then sentence boundaries. */
+export function chunkText(text: string, maxChars = CHUNK_CHARS, overlap = CHUNK_OVERLAP): string[] {
+  const chunks: string[] = [];
+  let start = 0;
+  while (start < text.length) {
+    let end = Math.min(text.length, start + maxChars);
+    if (end < text.length) {
+      const window = text.slice(start, end);
+      const breakAt = Math.max(window.lastIndexOf("\n\n"), window.lastIndexOf(". "));
+      if (breakAt > maxChars / 2) end = start + breakAt + 1;
+    }
+    const chunk = text.slice(start, end).trim();
+    if (chunk) chunks.push(chunk);
+    if (end >= text.length) break;
+    start = Math.max(end - overlap, start + 1);
+  }
+  return chunks;
+}
+
+function terms(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[a-z0-9]{4,}/g) ?? []);
+}
+
+/**
+ * Pick the chunks most relevant to `query` (term overlap) that fit in `maxChars`,
+ * returned in document order so excerpts read naturally.
+ */
+export function selectChunks(chunks: DocumentChunk[], query: string, maxChars: number): DocumentChunk[] {
+  const queryTerms = terms(query);
+  const scored = chunks.map((chunk, order) => {
+    let score = 0;
+    terms(chunk.text).forEach((t) => {
+      if (queryTerms.has(t)) score++;
+    });
+    // Earlier chunks (titles, overviews) win ties
+    return { chunk, order, score: score - order * 0.001 };
+  });
+  const picked: typeof scored = [];
+  let used = 0;
+  for (const entry of [...scored].sort((a, b) => b.score - a.score)) {
+    if (used + entry.chunk.text.length > maxChars) continue;
+    picked.push(entry);
+    used += entry.chunk.text.length;
+  }
+  return picked.sort((a, b) => a.order - b.order).map((e) => e.chunk);
+}
+
+/**
+ * Build a prompt-ready block of excerpts from the given uploads, most relevant to `query` first
+ * within the budget. Returns "" when there is nothing usable. Ids from a request must first go through
+ * parseDocumentIds or usableDocumentIds, so a prompt only ever sees uploads the caller may read.
+ */
+export async function getDocumentContext(
+  documentIds: string[],
+  query: string,
+  maxChars = DEFAULT_CONTEXT_CHARS
+): Promise<string> {
+  const chunks: DocumentChunk[] = [];
+  for (const id of documentIds.slice(0, 20)) {
+    const [doc, text] = await Promise.all([getUpload(id), getDocumentText(id)]);
+    if (!doc || !text) continue;
+    chunkText(text).forEach((chunkTextValue, index) =>
+      chunks.push({ documentId: id, fileName: doc.fileName, index, text: chunkTextValue })
+    );
+  }
+  if (chunks.length === 0) return "";
+
+  return selectChunks(chunks, query, maxChars)
+    .map((c) => `[${c.fileName}, excerpt ${c.index + 1}]\n${c.text}`)
+    .join("\n\n");
+}
+
+/** The uploads among `ids` that `user` may put in a prompt: their own, or any for reviewers. Unknown ids are dropped. */
+export async function usableDocumentIds(ids: string[], user: SessionUser): Promise<string[]> {
+  const docs = await Promise.all(ids.map((id) => getUpload(id)));
+  return ids.filter((_, i) => {
+    const doc = docs[i];
+    return !!doc && canDownloadUpload(user, doc);
+  });
+}
+
+/** Read `documentIds` from a request body, keeping only strings naming uploads `user` may use. */
+export async function parseDocumentIds(value: unknown, user: SessionUser): Promise<string[]> {
+  const ids = Array.isArray(value) ? value.filter((v): v is string => typeof v === "string") : [];
+  return usableDocumentIds(ids, user);
+}
+
+/** Appended to system prompts when excerpts are included */
+export const DOCUMENT_CONTEXT_INSTRUCTION = `The requester attached supporting documents; excerpts follow their answer under "Supporting documents". Treat that content as information they have already provided: use it, and do not ask for details the documents already cover.`;
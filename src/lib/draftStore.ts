@@ -0,0 +1,50 @@
+import { randomUUID } from "node:crypto";
+import type { IntakeDraftState, StoredDraft } from "@/app/types";
+import { deleteRecord, readRecord, writeRecord } from "@/lib/storage";
+
+const COLLECTION = "drafts";
+
+/** Drafts may carry a generated mockup image, but nothing much bigger than that */
+const MAX_DRAFT_BYTES = 5 * 1024 * 1024;
+
+/** Validate an untrusted request body into draft state (shape check only; the wizard owns the contents). */
+export function parseDraftState(
+  body: unknown
+): { ok: true; data: IntakeDraftState } | { ok: false; error: string } {
+  const state = (body as { state?: IntakeDraftState } | null)?.state;
+  if (!state || typeof state !== "object") return { ok: false, error: "Missing draft state" };
+  if (typeof state.currentStep !== "number" || typeof state.openingResponse !== "string") {
+    return { ok: false, error: "Invalid draft state" };
+  }
+  if (!state.sectionValues || typeof state.sectionValues !== "object" || !state.feedbacks || typeof state.feedbacks !== "object") {
+    return { ok: false, error: "Invalid draft state" };
+  }
+  if (JSON.stringify(state).length > MAX_DRAFT_BYTES) {
+    return { ok: false, error: "Draft is too large" };
+  }
+  return { ok: true, data: state };
+}
+
+export async function createDraft(state: IntakeDraftState, ownerId: string): Promise<StoredDraft> {
+  const now = new Date().toISOString();
+  const draft: StoredDraft = { id: randomUUID(), createdAt: now, updatedAt: now, ownerId, state };
+  await writeRecord(COLLECTION, draft.id, draft);
+  return draft;
+}
+
+export async function getDraft(id: string): Promise<StoredDraft | null> {
+  return readRecord<StoredDraft>(COLLECTION, id);
+}
+
+/** Replace a draft's state. Returns null if the draft does not exist. */
+export async function saveDraft(id: string, state: IntakeDraftState): Promise<StoredDraft | null> {
+  const existing = await getDraft(id);
+  if (!existing) return null;
+  const draft: StoredDraft = { ...existing, state, updatedAt: new Date().toISOString() };
+  await writeRecord(COLLECTION, id, draft);
+  return draft;
+}
+
+export async function deleteDraft(id: string): Promise<boolean> {
+  return deleteRecord(COLLECTION, id);
+}
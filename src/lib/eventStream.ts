@@ -0,0 +1,54 @@
+/**
+ * Server-sent events for routes that can stream their model output. Clients opt in with `Accept: text/event-stream`.
+ * Events, in order:
+ * - `delta` { field, text }: text appended to a field of the reply (e.g. "feedback", "problem")
+ * - `fallback` { error }: the model failed; discard the streamed text, the result comes from the placeholder path
+ * - `result`: the final structured payload, the same JSON the non-streaming route returns
+ * - `error` { error }: nothing more will come
+ */
+
+export type SendEvent = (event: "delta" | "fallback" | "result" | "error", data: unknown) => void;
+
+export function wantsEventStream(req: Request): boolean {
+  return req.headers.get("accept")?.includes("text/event-stream") ?? false;
+}
+
+/** Run `produce` with an event sender and stream what it sends; a thrown error becomes an `error` event */
+export function eventStreamResponse(logPrefix: string, failureMessage: string, produce: (send: SendEvent) => Promise<void>) {
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send: SendEvent = (event, data) =>
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      try {
+        await produce(send);
+      } catch (e) {
+        console.error(`[${logPrefix}] stream error:`, e);
+        send("error", { error: failureMessage });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
+
+/** Turns "fields so far" snapshots into `delta` events carrying only the newly appended text */
+export function fieldDeltaSender(send: SendEvent): (fields: Record<string, string>) => void {
+  const sent: Record<string, string> = {};
+  return (fields) => {
+    for (const [field, text] of Object.entries(fields)) {
+      const previous = sent[field] ?? "";
+      if (text.length > previous.length && text.startsWith(previous)) {
+        send("delta", { field, text: text.slice(previous.length) });
+        sent[field] = text;
+      }
+    }
+  };
+}
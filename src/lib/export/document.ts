@@ -0,0 +1,192 @@
+import type { StoredIntake, UploadedDocument } from "@/app/types";
+import { loadFormDefinition } from "@/lib/formDefinition";
+import { getStatus } from "@/lib/intakeStatus";
+import { REFERENCE_CONCEPT_LABELS, getProjectName, summaryEntries } from "@/lib/intakeText";
+import { explainRisk, formatRiskDelta } from "@/lib/risk";
+import { getUpload, getUploadContent } from "@/lib/uploadStore";
+
+/**
+ * The intake as a format-neutral document: a title, metadata and headed sections of simple blocks. The Markdown,
+ * PDF and DOCX renderers only lay this out, so all three exports always carry the same content.
+ */
+
+export interface ExportImage {
+  data: Buffer;
+  type: "png" | "jpg";
+  width: number;
+  height: number;
+}
+
+export type ExportBlock =
+  | { kind: "field"; label: string; value: string | string[] }
+  | { kind: "subheading"; text: string }
+  | { kind: "paragraph"; text: string }
+  | { kind: "bullets"; items: string[] }
+  | { kind: "image"; image: ExportImage; alt: string }
+  /** Secondary text such as which prompt produced a block */
+  | { kind: "note"; text: string };
+
+export interface ExportSection {
+  heading: string;
+  blocks: ExportBlock[];
+}
+
+export interface IntakeExportDocument {
+  title: string;
+  meta: { label: string; value: string }[];
+  sections: ExportSection[];
+  /** Base name for the downloaded file, without extension */
+  fileBaseName: string;
+}
+
+export interface ExportOptions {
+  /** Add the reviewer view (risk score, flags, recommended action, coaching). Reviewers only. */
+  includeReview: boolean;
+}
+
+function formatDateTime(iso: string): string {
+  const date = new Date(iso);
+  return `${date.toLocaleString("en-US", { dateStyle: "medium", timeStyle: "short", timeZone: "UTC" })} UTC`;
+}
+
+/** Width and height from a PNG or JPEG header, or null for anything else */
+function imageDimensions(data: Buffer, type: ExportImage["type"]): { width: number; height: number } | null {
+  if (type === "png") {
+    return data.length >= 24 ? { width: data.readUInt32BE(16), height: data.readUInt32BE(20) } : null;
+  }
+  // JPEG: walk the segments to the first start-of-frame marker
+  let offset = 2;
+  while (offset + 9 < data.length) {
+    if (data[offset] !== 0xff) return null;
+    const marker = data[offset + 1];
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { height: data.readUInt16BE(offset + 5), width: data.readUInt16BE(offset + 7) };
+    }
+    offset += 2 + data.readUInt16BE(offset + 2);
+  }
+  return null;
+}
+
+function toExportImage(data: Buffer, contentType: string): ExportImage | null {
+  const type = /png/i.test(contentType) ? "png" : /jpe?g/i.test(contentType) ? "jpg" : null;
+  if (!type) return null;
+  const size = imageDimensions(data, type);
+  return size && size.width > 0 && size.height > 0 ? { data, type, ...size } : null;
+}
+
+/** The stored mockup as embeddable image data; a note when it cannot be embedded */
+async function loadMockup(intake: StoredIntake): Promise<ExportBlock | null> {
+  const alt = "Generated design request mockup";
+  if (intake.mockupImageId) {
+    const upload = await getUpload(intake.mockupImageId);
+    const content = upload && (await getUploadContent(upload.id));
+    const image = upload && content ? toExportImage(content, upload.contentType) : null;
+    return image
+      ? { kind: "image", image, alt }
+      : { kind: "note", text: "The mockup is not a PNG or JPEG image, so it is not included here. It is available in the app." };
+  }
+  if (intake.mockupImageUrl) {
+    // Older intakes kept the provider link; exports never fetch it
+    return { kind: "note", text: "The mockup was kept as an external link, so it is not included here." };
+  }
+  return null;
+}
+
+function reviewSection(intake: StoredIntake): ExportSection {
+  const breakdown = explainRisk(intake.feedbacks);
+  const blocks: ExportBlock[] = [
+    { kind: "field", label: "Risk score", value: `${intake.summary.risk_score}/100` },
+    { kind: "field", label: "Recommended action", value: `${breakdown.recommendedAction}. ${breakdown.actionReason}` },
+    { kind: "field", label: "Flags", value: intake.summary.flags.length > 0 ? intake.summary.flags.join(", ") : "None" },
+  ];
+  for (const f of intake.feedbacks) {
+    blocks.push(
+      { kind: "subheading", text: `${f.section} (${formatRiskDelta(f.riskDelta)})` },
+      { kind: "paragraph", text: f.feedback }
+    );
+    if (f.suggestedImprovements.length > 0) blocks.push({ kind: "bullets", items: f.suggestedImprovements });
+    if (f.flags.length > 0) blocks.push({ kind: "note", text: `Flags: ${f.flags.join(", ")}` });
+  }
+  if (breakdown.contributions.length > 0) {
+    blocks.push(
+      { kind: "subheading", text: "Risk breakdown" },
+      {
+        kind: "bullets",
+        items: breakdown.contributions.map((c) => {
+          const from = c.kind === "llm" ? "model" : `rule ${c.ruleId ?? ""}`.trim();
+          const flags = c.flags.length > 0 ? ` [${c.flags.join(", ")}]` : "";
+          return `${formatRiskDelta(c.delta)} ${c.section}, ${from}: ${c.reason}${flags}`;
+        }),
+      },
+      {
+        kind: "note",
+        text: `Sum of deltas ${breakdown.total}, clamped to a score of ${breakdown.riskScore}.`,
+      }
+    );
+  }
+  return { heading: "UX internal view", blocks };
+}
+
+/** Everything that goes into an export of `intake`, with the mockup loaded and section ids resolved to headings */
+export async function buildIntakeExport(intake: StoredIntake, options: ExportOptions): Promise<IntakeExportDocument> {
+  const { summary } = intake;
+  const form = await loadFormDefinition();
+  const headings = new Map(form.sections.map((s) => [s.id, s.heading]));
+  const documents = (await Promise.all((summary.supporting_documents ?? []).map((id) => getUpload(id)))).filter(
+    (d): d is UploadedDocument => d !== null
+  );
+  const title = getProjectName(intake.opening);
+
+  const meta = [
+    { label: "Reference", value: intake.id },
+    { label: "Submitted", value: formatDateTime(intake.createdAt) },
+    ...(intake.owner ? [{ label: "Submitted by", value: intake.owner.name }] : []),
+    { label: "Status", value: getStatus(intake) },
+    { label: "Product pillar", value: summary.product_pillar || "—" },
+    { label: "Quarter", value: summary.quarter_slated_for || "—" },
+  ];
+
+  const sections: ExportSection[] = [];
+  if (summary.designRequestSummary) {
+    const { prompt } = summary.designRequestSummary;
+    const blocks = summaryEntries(summary.designRequestSummary).map((e): ExportBlock => ({ kind: "field", ...e }));
+    if (prompt) blocks.push({ kind: "note", text: `Prompt ${prompt.id} v${prompt.version}` });
+    sections.push({ heading: "Design request summary", blocks });
+  }
+
+  const mockup = await loadMockup(intake);
+  const concept = summary.referenceConcept;
+  if (concept || mockup) {
+    const blocks: ExportBlock[] = concept
+      ? (Object.keys(REFERENCE_CONCEPT_LABELS) as (keyof typeof REFERENCE_CONCEPT_LABELS)[]).map((key) => ({
+          kind: "field",
+          label: REFERENCE_CONCEPT_LABELS[key],
+          value: concept[key],
+        }))
+      : [];
+    if (concept?.prompt) blocks.push({ kind: "note", text: `Prompt ${concept.prompt.id} v${concept.prompt.version}` });
+    if (mockup) blocks.push(mockup);
+    sections.push({ heading: "Reference concept", blocks });
+  }
+
+  const answers: ExportBlock[] = [
+    { kind: "field", label: "Opening", value: intake.opening },
+    ...Object.entries(intake.sectionValues)
+      .filter(([, value]) => value.trim())
+      .map(([id, value]): ExportBlock => ({ kind: "field", label: headings.get(id) ?? id, value })),
+  ];
+  if (documents.length > 0) {
+    answers.push({ kind: "field", label: "Supporting documents", value: documents.map((d) => d.fileName) });
+  }
+  sections.push({ heading: "Answers", blocks: answers });
+
+  if (options.includeReview) sections.push(reviewSection(intake));
+
+  const slug = title
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return { title, meta, sections, fileBaseName: `${slug || "design-request"}-${intake.id.slice(0, 8)}` };
+}
@@ -0,0 +1,113 @@
+import {
+  AlignmentType,
+  Document,
+  Footer,
+  HeadingLevel,
+  ImageRun,
+  Packer,
+  PageNumber,
+  Paragraph,
+  TextRun,
+} from "docx";
+import type { ExportBlock, IntakeExportDocument } from "@/lib/export/document";
+
+/** Image box in pixels; about the text width of an A4 or Letter page with default margins */
+const MAX_IMAGE_WIDTH = 600;
+const MAX_IMAGE_HEIGHT = 400;
+const MUTED = "6B7280";
+
+/** One run per line so line breaks inside an answer survive */
+function lines(text: string, style: { bold?: boolean; italics?: boolean; color?: string; size?: number } = {}): TextRun[] {
+  return text.split("\n").map((line, i) => new TextRun({ text: line, break: i > 0 ? 1 : undefined, ...style }));
+}
+
+function bullet(text: string): Paragraph {
+  return new Paragraph({ bullet: { level: 0 }, children: lines(text) });
+}
+
+function renderBlock(block: ExportBlock): Paragraph[] {
+  switch (block.kind) {
+    case "field": {
+      const label = new Paragraph({
+        spacing: { before: 160 },
+        children: [new TextRun({ text: block.label, bold: true, color: MUTED, size: 18 })],
+      });
+      if (Array.isArray(block.value)) {
+        return [label, ...(block.value.length > 0 ? block.value.map(bullet) : [new Paragraph("—")])];
+      }
+      return [label, new Paragraph({ children: lines(block.value.trim() || "—") })];
+    }
+    case "subheading":
+      return [new Paragraph({ heading: HeadingLevel.HEADING_2, children: [new TextRun(block.text)] })];
+    case "paragraph":
+      return [new Paragraph({ spacing: { before: 80 }, children: lines(block.text.trim()) })];
+    case "bullets":
+      return block.items.map(bullet);
+    case "image": {
+      const { data, type, width, height } = block.image;
+      const scale = Math.min(1, MAX_IMAGE_WIDTH / width, MAX_IMAGE_HEIGHT / height);
+      return [
+        new Paragraph({
+          spacing: { before: 160, after: 160 },
+          children: [
+            new ImageRun({
+              type,
+              data,
+              transformation: { width: Math.round(width * scale), height: Math.round(height * scale) },
+              altText: { name: "Mockup", title: block.alt, description: block.alt },
+            }),
+          ],
+        }),
+      ];
+    }
+    case "note":
+      return [new Paragraph({ spacing: { before: 60 }, children: lines(block.text, { italics: true, color: MUTED, size: 17 }) })];
+  }
+}
+
+export async function renderDocx(doc: IntakeExportDocument): Promise<Buffer> {
+  const children: Paragraph[] = [
+    new Paragraph({ heading: HeadingLevel.TITLE, children: [new TextRun(doc.title)] }),
+    ...doc.meta.map(
+      (m) =>
+        new Paragraph({
+          children: [
+            new TextRun({ text: `${m.label}: `, bold: true, color: MUTED, size: 18 }),
+            new TextRun({ text: m.value, color: MUTED, size: 18 }),
+          ],
+        })
+    ),
+  ];
+  for (const section of doc.sections) {
+    children.push(new Paragraph({ heading: HeadingLevel.HEADING_1, children: [new TextRun(section.heading)] }));
+    for (const block of section.blocks) children.push(...renderBlock(block));
+  }
+
+  const document = new Document({
+    title: doc.title,
+    subject: "UX design request",
+    creator: "UX intake form",
+    sections: [
+      {
+        footers: {
+          default: new Footer({
+            children: [
+              new Paragraph({
+                alignment: AlignmentType.RIGHT,
+                children: [
+                  new TextRun({
+                    children: ["Page ", PageNumber.CURRENT, " of ", PageNumber.TOTAL_PAGES],
+                    color: MUTED,
+                    size: 16,
+                  }),
+                ],
+              }),
+            ],
+          }),
+        },
+        children,
+      },
+    ],
+  });
+  return Packer.toBuffer(document);
+}
@@ -0,0 +1,40 @@
+import type { StoredIntake } from "@/app/types";
+import { buildIntakeExport, type ExportOptions } from "@/lib/export/document";
+import { renderDocx } from "@/lib/export/docx";
+import { renderMarkdown } from "@/lib/export/markdown";
+import { renderPdf } from "@/lib/export/pdf";
+
+export type { ExportOptions, IntakeExportDocument } from "@/lib/export/document";
+
+export const EXPORT_FORMATS = ["markdown", "pdf", "docx"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === "string" && (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+const FORMATS: Record<ExportFormat, { extension: string; contentType: string }> = {
+  markdown: { extension: "md", contentType: "text/markdown; charset=utf-8" },
+  pdf: { extension: "pdf", contentType: "application/pdf" },
+  docx: { extension: "docx", contentType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document" },
+};
+
+export interface ExportedFile {
+  fileName: string;
+  contentType: string;
+  content: Uint8Array;
+}
+
+/** The complete intake as a downloadable file in `format` */
+export async function exportIntake(intake: StoredIntake, format: ExportFormat, options: ExportOptions): Promise<ExportedFile> {
+  const doc = await buildIntakeExport(intake, options);
+  const content =
+    format === "markdown"
+      ? new TextEncoder().encode(renderMarkdown(doc))
+      : format === "pdf"
+        ? await renderPdf(doc)
+        : new Uint8Array(await renderDocx(doc));
+  const { extension, contentType } = FORMATS[format];
+  return { fileName: `${doc.fileBaseName}.${extension}`, contentType, content };
+}
@@ -0,0 +1,47 @@
+import type { ExportBlock, IntakeExportDocument } from "@/lib/export/document";
+
+/** Escape characters Markdown would treat as formatting, so answers render as the requester typed them */
+function escapeMarkdown(text: string): string {
+  return text
+    .replace(/([\\`*_[\]<>|])/g, "\\$1")
+    .replace(/^(\s*)([#>+-]|\d+\.)(?=\s)/gm, "$1\\$2");
+}
+
+/** Keep line breaks inside a paragraph (Markdown would otherwise join them) */
+function multiline(text: string): string {
+  return escapeMarkdown(text.trim())
+    .split(/\n{2,}/)
+    .map((paragraph) => paragraph.replace(/\n/g, "  \n"))
+    .join("\n\n");
+}
+
+function renderBlock(block: ExportBlock): string {
+  switch (block.kind) {
+    case "field":
+      return Array.isArray(block.value)
+        ? `**${block.label}**\n\n${block.value.map((item) => `- ${escapeMarkdown(item)}`).join("\n") || "—"}`
+        : `**${block.label}**\n\n${multiline(block.value) || "—"}`;
+    case "subheading":
+      return `### ${escapeMarkdown(block.text)}`;
+    case "paragraph":
+      return multiline(block.text);
+    case "bullets":
+      return block.items.map((item) => `- ${escapeMarkdown(item)}`).join("\n");
+    case "image": {
+      const mime = block.image.type === "jpg" ? "image/jpeg" : "image/png";
+      return `![${block.alt}](data:${mime};base64,${block.image.data.toString("base64")})`;
+    }
+    case "note":
+      return `_${escapeMarkdown(block.text)}_`;
+  }
+}
+
+/** A single self-contained Markdown file; the mockup is embedded as a data URL */
+export function renderMarkdown(doc: IntakeExportDocument): string {
+  const parts = [
+    `# ${escapeMarkdown(doc.title)}`,
+    doc.meta.map((m) => `**${m.label}:** ${escapeMarkdown(m.value)}`).join("  \n"),
+    ...doc.sections.flatMap((section) => [`## ${section.heading}`, ...section.blocks.map(renderBlock)]),
+  ];
+  return `${parts.join("\n\n")}\n`;
+}
@@ -0,0 +1,194 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from "pdf-lib";
+import type { ExportBlock, IntakeExportDocument } from "@/lib/export/document";
+
+/** A4 portrait with the standard PDF fonts, so nothing has to be read from disk or bundled */
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 56;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const MAX_IMAGE_HEIGHT = 360;
+
+const TEXT = rgb(0.12, 0.14, 0.18);
+const MUTED = rgb(0.42, 0.45, 0.5);
+const RULE = rgb(0.82, 0.84, 0.87);
+
+interface Fonts {
+  regular: PDFFont;
+  bold: PDFFont;
+  italic: PDFFont;
+}
+
+const characterSets = new WeakMap<PDFFont, Set<number>>();
+
+/** The standard fonts only cover WinAnsi; anything else is transliterated where possible, else replaced with "?" */
+function encodable(font: PDFFont, text: string): string {
+  const charset = characterSets.get(font) ?? new Set(font.getCharacterSet());
+  characterSets.set(font, charset);
+  return Array.from(text.replace(/\t/g, "    "))
+    .map((ch) => {
+      if (ch === "\n" || charset.has(ch.codePointAt(0)!)) return ch;
+      const base = ch.normalize("NFKD").replace(/[\u0300-\u036f]/g, "");
+      return base && Array.from(base).every((c) => charset.has(c.codePointAt(0)!)) ? base : "?";
+    })
+    .join("");
+}
+
+/** Break text into lines no wider than `width`; explicit newlines are kept and overlong words are split */
+function wrap(text: string, font: PDFFont, size: number, width: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of encodable(font, text).split("\n")) {
+    let line = "";
+    for (const word of paragraph.split(/ +/)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (font.widthOfTextAtSize(candidate, size) <= width) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      line = "";
+      let rest = word;
+      while (font.widthOfTextAtSize(rest, size) > width) {
+        let cut = rest.length - 1;
+        while (cut > 1 && font.widthOfTextAtSize(rest.slice(0, cut), size) > width) cut--;
+        lines.push(rest.slice(0, cut));
+        rest = rest.slice(cut);
+      }
+      line = rest;
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/** Top-to-bottom writer that starts a new page whenever the next element would not fit */
+class PdfWriter {
+  private page: PDFPage;
+  private y = PAGE_HEIGHT - MARGIN;
+
+  constructor(
+    private readonly pdf: PDFDocument,
+    private readonly fonts: Fonts
+  ) {
+    this.page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  }
+
+  private ensureSpace(height: number) {
+    if (this.y - height >= MARGIN) return;
+    this.page = this.pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  gap(height: number) {
+    this.y -= height;
+  }
+
+  text(text: string, opts: { font?: PDFFont; size?: number; color?: typeof TEXT; indent?: number; bullet?: string } = {}) {
+    const { font = this.fonts.regular, size = 10.5, color = TEXT, indent = 0, bullet } = opts;
+    const lineHeight = size * 1.4;
+    const lines = wrap(text, font, size, CONTENT_WIDTH - indent);
+    lines.forEach((line, i) => {
+      this.ensureSpace(lineHeight);
+      this.y -= lineHeight;
+      if (bullet && i === 0) {
+        this.page.drawText(bullet, { x: MARGIN + indent - 10, y: this.y + size * 0.3, size, font, color });
+      }
+      if (line) this.page.drawText(line, { x: MARGIN + indent, y: this.y + size * 0.3, size, font, color });
+    });
+  }
+
+  heading(text: string) {
+    // Keep a heading together with at least a couple of lines of what follows
+    this.ensureSpace(80);
+    this.gap(14);
+    this.text(text, { font: this.fonts.bold, size: 14 });
+    this.gap(4);
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y },
+      end: { x: PAGE_WIDTH - MARGIN, y: this.y },
+      thickness: 0.75,
+      color: RULE,
+    });
+    this.gap(6);
+  }
+
+  async image(data: Buffer, type: "png" | "jpg", width: number, height: number) {
+    const embedded = type === "png" ? await this.pdf.embedPng(data) : await this.pdf.embedJpg(data);
+    const scale = Math.min(1, CONTENT_WIDTH / width, MAX_IMAGE_HEIGHT / height);
+    const w = width * scale;
+    const h = height * scale;
+    this.gap(6);
+    this.ensureSpace(h);
+    this.y -= h;
+    this.page.drawImage(embedded, { x: MARGIN, y: this.y, width: w, height: h });
+    this.gap(6);
+  }
+}
+
+async function renderBlock(writer: PdfWriter, fonts: Fonts, block: ExportBlock) {
+  switch (block.kind) {
+    case "field":
+      writer.gap(6);
+      writer.text(block.label, { font: fonts.bold, size: 9, color: MUTED });
+      if (Array.isArray(block.value)) {
+        if (block.value.length === 0) writer.text("—");
+        block.value.forEach((item) => writer.text(item, { indent: 14, bullet: "•" }));
+      } else {
+        writer.text(block.value.trim() || "—");
+      }
+      return;
+    case "subheading":
+      writer.gap(10);
+      writer.text(block.text, { font: fonts.bold, size: 11.5 });
+      return;
+    case "paragraph":
+      writer.gap(2);
+      writer.text(block.text.trim());
+      return;
+    case "bullets":
+      block.items.forEach((item) => writer.text(item, { indent: 14, bullet: "•" }));
+      return;
+    case "image":
+      await writer.image(block.image.data, block.image.type, block.image.width, block.image.height);
+      return;
+    case "note":
+      writer.gap(2);
+      writer.text(block.text, { font: fonts.italic, size: 8.5, color: MUTED });
+      return;
+  }
+}
+
+export async function renderPdf(doc: IntakeExportDocument): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(doc.title);
+  pdf.setSubject("UX design request");
+  pdf.setCreator("UX intake form");
+  const fonts: Fonts = {
+    regular: await pdf.embedFont(StandardFonts.Helvetica),
+    bold: await pdf.embedFont(StandardFonts.HelveticaBold),
+    italic: await pdf.embedFont(StandardFonts.HelveticaOblique),
+  };
+
+  const writer = new PdfWriter(pdf, fonts);
+  writer.text(doc.title, { font: fonts.bold, size: 20 });
+  writer.gap(6);
+  for (const m of doc.meta) writer.text(`${m.label}: ${m.value}`, { size: 9, color: MUTED });
+  for (const section of doc.sections) {
+    writer.heading(section.heading);
+    for (const block of section.blocks) await renderBlock(writer, fonts, block);
+  }
+
+  const pages = pdf.getPages();
+  const title = encodable(fonts.regular, doc.title);
+  const footer = title.length > 60 ? `${title.slice(0, 57)}...` : title;
+  pages.forEach((page, i) => {
+    const label = `${footer} · page ${i + 1} of ${pages.length}`;
+    page.drawText(label, {
+      x: PAGE_WIDTH - MARGIN - fonts.regular.widthOfTextAtSize(label, 8),
+      y: MARGIN / 2,
+      size: 8,
+      font: fonts.regular,
+      color: MUTED,
+    });
+  });
+  return pdf.save();
+}
@@ -0,0 +1,104 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import type { FormSectionDefinition, IntakeFormDefinition, SectionRole } from "@/app/types";
+
+/**
+ * Loads the intake form definition (sections, copy, prompts, coaching guidance) at runtime.
+ * Defaults to config/intake-form.json; point INTAKE_FORM_CONFIG at another file to customise the form.
+ * Read on every call so edits apply without a restart.
+ */
+
+const ROLES: SectionRole[] = ["problem", "objectives", "constraints"];
+
+export function getFormConfigPath(): string {
+  const configured = process.env.INTAKE_FORM_CONFIG?.trim();
+  return configured ? path.resolve(configured) : path.join(process.cwd(), "config", "intake-form.json");
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "string");
+}
+
+function optionalString(value: unknown): value is string | undefined {
+  return value === undefined || typeof value === "string";
+}
+
+function validateSection(raw: unknown, index: number): { ok: true; data: FormSectionDefinition } | { ok: false; error: string } {
+  const s = raw as Partial<FormSectionDefinition> | null;
+  const where = `sections[${index}]`;
+  if (!s || typeof s !== "object") return { ok: false, error: `${where} must be an object` };
+  if (typeof s.id !== "string" || !s.id.trim() || s.id === "Opening") {
+    return { ok: false, error: `${where}.id must be a non-empty string other than "Opening"` };
+  }
+  if (typeof s.heading !== "string" || typeof s.intro !== "string") {
+    return { ok: false, error: `${where} needs a heading and an intro` };
+  }
+  if (!isStringArray(s.prompts)) return { ok: false, error: `${where}.prompts must be a list of strings` };
+  if (![s.contextIntro, s.placeholder, s.hint, s.coachingGuidance].every(optionalString)) {
+    return { ok: false, error: `${where}: contextIntro, placeholder, hint and coachingGuidance must be strings` };
+  }
+  if (s.role !== undefined && !ROLES.includes(s.role)) {
+    return { ok: false, error: `${where}.role must be one of ${ROLES.join(", ")}` };
+  }
+  return {
+    ok: true,
+    data: {
+      id: s.id,
+      heading: s.heading,
+      intro: s.intro,
+      contextIntro: s.contextIntro,
+      prompts: s.prompts,
+      placeholder: s.placeholder,
+      hint: s.hint,
+      coachingGuidance: s.coachingGuidance,
+      required: s.required !== false,
+      role: s.role,
+      followUpQuestions: s.followUpQuestions === true,
+    },
+  };
+}
+
+export function validateFormDefinition(raw: unknown): { ok: true; data: IntakeFormDefinition } | { ok: false; error: string } {
+  const d = raw as Partial<IntakeFormDefinition> | null;
+  if (!d || typeof d !== "object") return { ok: false, error: "Form definition must be a JSON object" };
+  const o = d.opening;
+  if (!o || typeof o.welcome !== "string" || typeof o.prompt !== "string") {
+    return { ok: false, error: "opening needs a welcome and a prompt" };
+  }
+  if (!optionalString(o.placeholder) || !optionalString(o.coachingGuidance)) {
+    return { ok: false, error: "opening.placeholder and opening.coachingGuidance must be strings" };
+  }
+  if (!Array.isArray(d.sections) || d.sections.length === 0) {
+    return { ok: false, error: "sections must be a non-empty list" };
+  }
+  const sections: FormSectionDefinition[] = [];
+  for (let i = 0; i < d.sections.length; i++) {
+    const result = validateSection(d.sections[i], i);
+    if (!result.ok) return result;
+    if (sections.some((s) => s.id === result.data.id)) {
+      return { ok: false, error: `Duplicate section id "${result.data.id}"` };
+    }
+    sections.push(result.data);
+  }
+  return {
+    ok: true,
+    data: {
+      version: typeof d.version === "number" ? d.version : 1,
+      opening: { welcome: o.welcome, prompt: o.prompt, placeholder: o.placeholder, coachingGuidance: o.coachingGuidance },
+      sections,
+    },
+  };
+}
+
+export async function loadFormDefinition(): Promise<IntakeFormDefinition> {
+  const file = getFormConfigPath();
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await fs.readFile(file, "utf8"));
+  } catch (e) {
+    throw new Error(`Could not read form definition at ${file}: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  const result = validateFormDefinition(raw);
+  if (!result.ok) throw new Error(`Invalid form definition (${file}): ${result.error}`);
+  return result.data;
+}
@@ -0,0 +1,41 @@
+import type { IntakeFormDefinition, SectionAnswer, SectionRole } from "@/app/types";
+
+/** Pure helpers over a form definition; safe to use from client components */
+
+export function findSection(form: IntakeFormDefinition, id: string) {
+  return form.sections.find((s) => s.id === id);
+}
+
+/** Text of the first section with the given role, or "" */
+export function answerForRole(
+  form: IntakeFormDefinition,
+  sectionValues: Record<string, string>,
+  role: SectionRole
+): string {
+  const section = form.sections.find((s) => s.role === role);
+  return section ? sectionValues[section.id]?.trim() ?? "" : "";
+}
+
+/** Opening plus every non-empty section answer, in form order */
+export function collectAnswers(
+  form: IntakeFormDefinition,
+  opening: string,
+  sectionValues: Record<string, string>
+): SectionAnswer[] {
+  const answers: SectionAnswer[] = [];
+  if (opening.trim()) answers.push({ section: "Opening", heading: "Opening", value: opening.trim() });
+  for (const s of form.sections) {
+    const value = sectionValues[s.id]?.trim();
+    if (value) answers.push({ section: s.id, heading: s.heading, value });
+  }
+  return answers;
+}
+
+/** Parse a `answers` request field, ignoring malformed entries */
+export function parseSectionAnswers(value: unknown): SectionAnswer[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter(
+    (a): a is SectionAnswer =>
+      !!a && typeof a.section === "string" && typeof a.heading === "string" && typeof a.value === "string"
+  );
+}
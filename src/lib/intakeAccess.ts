@@ -0,0 +1,74 @@
+import type {
+  ClarificationOutcome,
+  ClarificationRequest,
+  IntakeSummary,
+  RequesterClarificationOutcome,
+  SectionFeedback,
+  SessionUser,
+  StoredIntake,
+  UploadedDocument,
+} from "@/app/types";
+import { canSeeRisk } from "@/lib/auth";
+
+/** Who may see which intakes, and the risk-free view requesters get of their own */
+
+export type RequesterIntake = Omit<
+  StoredIntake,
+  "feedbacks" | "summary" | "recommendedAction" | "statusHistory" | "clarifications"
+> & {
+  feedbacks: Omit<SectionFeedback, "riskDelta" | "flags" | "contributions">[];
+  summary: Omit<IntakeSummary, "risk_score" | "flags">;
+  clarifications: (Omit<ClarificationRequest, "outcome"> & { outcome?: RequesterClarificationOutcome })[];
+};
+
+export function isIntakeOwner(user: SessionUser, intake: StoredIntake): boolean {
+  return intake.owner?.id === user.id;
+}
+
+/** Reviewers see every intake; requesters only the ones they submitted */
+export function canViewIntake(user: SessionUser, intake: StoredIntake): boolean {
+  return canSeeRisk(user) || isIntakeOwner(user, intake);
+}
+
+export function canDownloadUpload(user: SessionUser, doc: UploadedDocument): boolean {
+  return canSeeRisk(user) || doc.ownerId === user.id;
+}
+
+export function toRequesterOutcome(outcome: ClarificationOutcome): RequesterClarificationOutcome {
+  const { answeredAt, sectionsReevaluated, summaryBefore, summaryAfter } = outcome;
+  return { answeredAt, sectionsReevaluated, summaryBefore, summaryAfter };
+}
+
+export function toRequesterIntake(intake: StoredIntake): RequesterIntake {
+  const { summary, feedbacks, clarifications, ...rest } = intake;
+  const view = {
+    ...rest,
+    feedbacks: feedbacks.map(({ section, feedback, suggestedImprovements, source }) => ({
+      section,
+      feedback,
+      suggestedImprovements,
+      source,
+    })),
+    summary: {
+      problem_statement: summary.problem_statement,
+      desired_outcome: summary.desired_outcome,
+      product_pillar: summary.product_pillar,
+      quarter_slated_for: summary.quarter_slated_for,
+      supporting_documents: summary.supporting_documents,
+      designRequestSummary: summary.designRequestSummary,
+      referenceConcept: summary.referenceConcept,
+    },
+    clarifications: (clarifications ?? []).map((c) => ({
+      ...c,
+      outcome: c.outcome ? toRequesterOutcome(c.outcome) : undefined,
+    })),
+  };
+  delete (view as Partial<StoredIntake>).recommendedAction;
+  delete (view as Partial<StoredIntake>).statusHistory;
+  return view;
+}
+
+/** The intake as this user may see it */
+export function intakeViewFor(user: SessionUser, intake: StoredIntake): StoredIntake | RequesterIntake {
+  return canSeeRisk(user) ? intake : toRequesterIntake(intake);
+}
@@ -0,0 +1,86 @@
+import type { IntakeStatus, RecommendedAction, SessionUser, StatusChange, StoredIntake } from "@/app/types";
+
+/** In queue order */
+export const INTAKE_STATUSES: IntakeStatus[] = [
+  "New",
+  "In Review",
+  "Clarification Requested",
+  "Backlog Ready",
+  "Scheduled",
+  "In Design",
+  "Done",
+  "Declined",
+];
+
+/** Allowed next statuses. Done is final; a declined intake can only be reopened for review. */
+export const STATUS_TRANSITIONS: Record<IntakeStatus, IntakeStatus[]> = {
+  New: ["In Review", "Clarification Requested", "Backlog Ready", "Declined"],
+  "In Review": ["Clarification Requested", "Backlog Ready", "Declined"],
+  "Clarification Requested": ["In Review", "Backlog Ready", "Declined"],
+  "Backlog Ready": ["Scheduled", "In Review", "Declined"],
+  Scheduled: ["In Design", "Backlog Ready", "Declined"],
+  "In Design": ["Done", "Scheduled"],
+  Done: [],
+  Declined: ["In Review"],
+};
+
+/** Closed intakes no longer take clarification answers */
+const CLOSED_STATUSES: IntakeStatus[] = ["Done", "Declined"];
+
+/** Moving into these needs a reason the requester can act on */
+const REASON_REQUIRED: IntakeStatus[] = ["Clarification Requested", "Declined"];
+
+export function isIntakeStatus(value: unknown): value is IntakeStatus {
+  return typeof value === "string" && (INTAKE_STATUSES as string[]).includes(value);
+}
+
+export function getStatus(intake: Pick<StoredIntake, "status">): IntakeStatus {
+  return intake.status ?? "New";
+}
+
+export function isClosed(intake: Pick<StoredIntake, "status">): boolean {
+  return CLOSED_STATUSES.includes(getStatus(intake));
+}
+
+export function allowedTransitions(intake: Pick<StoredIntake, "status">): IntakeStatus[] {
+  return STATUS_TRANSITIONS[getStatus(intake)];
+}
+
+/** Where a new intake starts, from the recommended action computed at submission */
+export function initialStatus(action: RecommendedAction): IntakeStatus {
+  switch (action) {
+    case "Strategic Review Required":
+      return "In Review";
+    case "Clarification Call Recommended":
+      return "Clarification Requested";
+    case "Backlog Ready":
+      return "Backlog Ready";
+  }
+}
+
+export function initialStatusChange(action: RecommendedAction, at: string): StatusChange {
+  return { from: null, to: initialStatus(action), at, by: "system", reason: `Recommended action: ${action}` };
+}
+
+/** Check a requested transition; returns the change to record, attributed to `by` */
+export function planTransition(
+  intake: Pick<StoredIntake, "status">,
+  to: IntakeStatus,
+  by: Pick<SessionUser, "id" | "name">,
+  reason: string | undefined
+): { ok: true; data: StatusChange } | { ok: false; error: string } {
+  const from = getStatus(intake);
+  if (!STATUS_TRANSITIONS[from].includes(to)) {
+    const allowed = STATUS_TRANSITIONS[from];
+    return {
+      ok: false,
+      error: `Cannot move from ${from} to ${to}${allowed.length > 0 ? ` (allowed: ${allowed.join(", ")})` : "; it is final"}`,
+    };
+  }
+  if (!by.id) return { ok: false, error: "Say who is making the change" };
+  if (REASON_REQUIRED.includes(to) && !reason?.trim()) return { ok: false, error: `A reason is required for ${to}` };
+  return {
+    ok: true,
+    data: { from, to, at: new Date().toISOString(), by: by.name, byId: by.id, reason: reason?.trim() || undefined },
+  };
+}
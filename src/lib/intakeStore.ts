@@ -0,0 +1,240 @@
+import { randomUUID } from "node:crypto";
+import {
+  type CoachingFeedback,
+  type IntakeOwner,
+  type IntakeFormDefinition,
+  type IntakeStatus,
+  type IntakeSubmission,
+  type SectionFeedback,
+  type SectionKey,
+  type SessionUser,
+  type StoredIntake,
+} from "@/app/types";
+import { usableDocumentIds } from "@/lib/documentText";
+import { canDownloadUpload } from "@/lib/intakeAccess";
+import { initialStatus, initialStatusChange, planTransition } from "@/lib/intakeStatus";
+import { normalizeReferenceConcept } from "@/lib/intakeText";
+import { deriveRisk, getRecommendedAction } from "@/lib/risk";
+import { listRecords, readRecord, writeRecord } from "@/lib/storage";
+import { getUpload, saveUpload } from "@/lib/uploadStore";
+
+const COLLECTION = "intakes";
+
+/** Mockups come from /api/generate-mockup as an upload id, or as inline image data in older drafts */
+const MOCKUP_DATA_URL = /^data:(image\/(?:png|jpeg|gif|webp));base64,([A-Za-z0-9+/]+=*)$/;
+const UPLOAD_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "string");
+}
+
+function isCoachingFeedback(value: unknown): value is CoachingFeedback {
+  const f = value as CoachingFeedback;
+  return (
+    !!f &&
+    typeof f.section === "string" &&
+    typeof f.feedback === "string" &&
+    isStringArray(f.suggestedImprovements) &&
+    (f.sealed === undefined || typeof f.sealed === "string")
+  );
+}
+
+/** Validate an untrusted request body into an IntakeSubmission against the current form definition. */
+export function parseIntakeSubmission(
+  body: unknown,
+  form: IntakeFormDefinition
+): { ok: true; data: IntakeSubmission } | { ok: false; error: string } {
+  const b = body as Partial<IntakeSubmission> | null;
+  if (!b || typeof b !== "object") return { ok: false, error: "Body must be a JSON object" };
+  if (typeof b.opening !== "string" || !b.opening.trim()) {
+    return { ok: false, error: "Missing opening response" };
+  }
+  if (!b.sectionValues || typeof b.sectionValues !== "object") {
+    return { ok: false, error: "Missing sectionValues" };
+  }
+  // Answers to sections the form no longer has are dropped; required ones must be filled in
+  const submitted = b.sectionValues as Record<string, unknown>;
+  const sectionValues: Record<SectionKey, string> = {};
+  for (const section of form.sections) {
+    const value = submitted[section.id];
+    if (typeof value === "string") sectionValues[section.id] = value;
+    if (section.required && !sectionValues[section.id]?.trim()) {
+      return { ok: false, error: `Missing answer for "${section.heading}"` };
+    }
+  }
+  if (!Array.isArray(b.feedbacks) || !b.feedbacks.every(isCoachingFeedback)) {
+    return { ok: false, error: "feedbacks must be an array of section evaluations" };
+  }
+  const s = b.summary;
+  if (!s || typeof s !== "object") {
+    return { ok: false, error: "Missing or invalid summary" };
+  }
+  if (s.supporting_documents !== undefined && !isStringArray(s.supporting_documents)) {
+    return { ok: false, error: "supporting_documents must be an array of upload ids" };
+  }
+  if (
+    (s.product_pillar !== undefined && typeof s.product_pillar !== "string") ||
+    (s.quarter_slated_for !== undefined && typeof s.quarter_slated_for !== "string")
+  ) {
+    return { ok: false, error: "product_pillar and quarter_slated_for must be strings" };
+  }
+  if (
+    b.mockupImage !== undefined &&
+    (typeof b.mockupImage !== "string" || !(MOCKUP_DATA_URL.test(b.mockupImage) || UPLOAD_ID.test(b.mockupImage)))
+  ) {
+    return { ok: false, error: "mockupImage must be an image data URL or the upload id of a generated mockup" };
+  }
+  return {
+    ok: true,
+    data: {
+      opening: b.opening,
+      sectionValues,
+      feedbacks: b.feedbacks,
+      // Any risk fields the client sent are dropped; the server derives them from the sealed evaluations
+      summary: {
+        problem_statement: typeof s.problem_statement === "string" ? s.problem_statement : b.opening.trim(),
+        desired_outcome: typeof s.desired_outcome === "string" ? s.desired_outcome : "",
+        product_pillar: s.product_pillar,
+        quarter_slated_for: s.quarter_slated_for,
+        supporting_documents: s.supporting_documents,
+        designRequestSummary: s.designRequestSummary,
+        referenceConcept: s.referenceConcept && normalizeReferenceConcept(s.referenceConcept),
+      },
+      mockupImage: b.mockupImage,
+    },
+  };
+}
+
+/**
+ * Check that the uploads a submission refers to exist and that `user` may use them: their own, or any for reviewers.
+ * Call before createIntake; returns the error to send back as a 400.
+ */
+export async function checkSubmissionUploads(
+  submission: IntakeSubmission,
+  user: SessionUser
+): Promise<{ ok: true } | { ok: false; error: string }> {
+  const documentIds = submission.summary.supporting_documents ?? [];
+  if ((await usableDocumentIds(documentIds, user)).length !== documentIds.length) {
+    return { ok: false, error: "supporting_documents must be upload ids of documents you uploaded" };
+  }
+  if (submission.mockupImage && UPLOAD_ID.test(submission.mockupImage)) {
+    const upload = await getUpload(submission.mockupImage);
+    if (!upload || !canDownloadUpload(user, upload) || !upload.contentType.startsWith("image/")) {
+      return { ok: false, error: "mockupImage does not refer to one of your generated mockups" };
+    }
+  }
+  return { ok: true };
+}
+
+/** Keep the generated mockup as an upload rather than inline in the record; it already is one unless it is a data URL */
+async function storeMockup(image: string | undefined, owner: IntakeOwner): Promise<Pick<StoredIntake, "mockupImageId">> {
+  if (!image) return {};
+  const dataUrl = image.match(MOCKUP_DATA_URL);
+  if (!dataUrl) return { mockupImageId: image };
+  const extension = dataUrl[1] === "image/jpeg" ? "jpg" : dataUrl[1].split("/")[1];
+  const upload = await saveUpload(`mockup.${extension}`, dataUrl[1], Buffer.from(dataUrl[2], "base64"), owner.id);
+  return { mockupImageId: upload.id };
+}
+
+/**
+ * Store a submission for `owner`. `feedbacks` must be trusted evaluations (see resolveSubmittedFeedbacks);
+ * the risk score, flags and recommended action are derived from them here.
+ */
+export async function createIntake(
+  submission: IntakeSubmission,
+  feedbacks: SectionFeedback[],
+  owner: IntakeOwner
+): Promise<StoredIntake> {
+  const now = new Date().toISOString();
+  const { riskScore, flags } = deriveRisk(feedbacks);
+  const recommendedAction = getRecommendedAction(riskScore, flags);
+  const intake: StoredIntake = {
+    opening: submission.opening,
+    sectionValues: submission.sectionValues,
+    feedbacks,
+    summary: { ...submission.summary, risk_score: riskScore, flags },
+    ...(await storeMockup(submission.mockupImage, owner)),
+    id: randomUUID(),
+    owner,
+    createdAt: now,
+    updatedAt: now,
+    recommendedAction,
+    status: initialStatus(recommendedAction),
+    statusHistory: [initialStatusChange(recommendedAction, now)],
+  };
+  await writeRecord(COLLECTION, intake.id, intake);
+  return intake;
+}
+
+/** Bring records written by older versions up to the current shape */
+function normalizeIntake(intake: StoredIntake): StoredIntake {
+  const concept = intake.summary.referenceConcept;
+  return concept ? { ...intake, summary: { ...intake.summary, referenceConcept: normalizeReferenceConcept(concept) } } : intake;
+}
+
+export async function getIntake(id: string): Promise<StoredIntake | null> {
+  const intake = await readRecord<StoredIntake>(COLLECTION, id);
+  return intake && normalizeIntake(intake);
+}
+
+/** All intakes, newest first */
+export async function listIntakes(): Promise<StoredIntake[]> {
+  const intakes = (await listRecords<StoredIntake>(COLLECTION)).map(normalizeIntake);
+  return intakes.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/** The update in flight per intake, so read-modify-write cycles in this process run one after another */
+const pendingUpdates = new Map<string, Promise<StoredIntake | null>>();
+
+/**
+ * Apply a change to the latest stored intake and bump updatedAt. `change` may return null to leave the intake
+ * untouched, e.g. when the record no longer allows it. Returns null if nothing was written.
+ */
+export async function updateIntake(
+  id: string,
+  change: (intake: StoredIntake) => StoredIntake | null
+): Promise<StoredIntake | null> {
+  const previous = pendingUpdates.get(id) ?? Promise.resolve(null);
+  const update = previous
+    .catch(() => null)
+    .then(async () => {
+      const existing = await getIntake(id);
+      if (!existing) return null;
+      const changed = change(existing);
+      if (!changed) return null;
+      const updated: StoredIntake = { ...changed, id: existing.id, updatedAt: new Date().toISOString() };
+      await writeRecord(COLLECTION, id, updated);
+      return updated;
+    });
+  pendingUpdates.set(id, update);
+  try {
+    return await update;
+  } finally {
+    if (pendingUpdates.get(id) === update) pendingUpdates.delete(id);
+  }
+}
+
+/** Move an intake to a new status if the workflow allows it, recording who, when and why */
+export async function transitionIntakeStatus(
+  id: string,
+  to: IntakeStatus,
+  by: Pick<SessionUser, "id" | "name">,
+  reason?: string
+): Promise<{ ok: true; data: StoredIntake } | { ok: false; error: string; status: number }> {
+  // Planned against the latest record, so concurrent changes cannot skip the workflow or misstate `from`
+  const attempt: { error?: string } = {};
+  const updated = await updateIntake(id, (intake) => {
+    const planned = planTransition(intake, to, by, reason);
+    if (!planned.ok) {
+      attempt.error = planned.error;
+      return null;
+    }
+    return {
+      ...intake,
+      status: planned.data.to,
+      statusHistory: [...(intake.statusHistory ?? []), planned.data],
+    };
+  });
+  if (attempt.error) return { ok: false, error: attempt.error, status: 409 };
+  return updated ? { ok: true, data: updated } : { ok: false, error: "Intake not found", status: 404 };
+}
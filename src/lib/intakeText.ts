@@ -0,0 +1,58 @@
+import type { DesignRequestSummary, DesignRequestSummaryField, ReferenceConcept, ReferenceConceptField } from "@/app/types";
+
+/** Project name as the requester typed it: the first line of the opening answer, trimmed to a title. */
+export function getProjectName(opening: string): string {
+  const firstLine = opening.trim().split(/\n/)[0]?.trim() ?? "";
+  // "Project Alpha — new initiative…" → "Project Alpha"
+  const name = firstLine.split(/\s+[—–-]\s+|[.,;:]\s/)[0]?.trim() || firstLine;
+  if (!name) return "Untitled design request";
+  return name.length > 120 ? `${name.slice(0, 117)}…` : name;
+}
+
+export const DESIGN_REQUEST_SUMMARY_LABELS: Record<DesignRequestSummaryField, string> = {
+  problem: "Problem",
+  desiredOutcome: "Desired Outcome",
+  usersImpacted: "Users Impacted",
+  businessValue: "Business Value",
+  constraints: "Constraints",
+};
+
+/** Label/value pairs of a Design Request Summary, in display order */
+export function summaryEntries(summary: DesignRequestSummary): { label: string; value: string }[] {
+  return (Object.keys(DESIGN_REQUEST_SUMMARY_LABELS) as DesignRequestSummaryField[]).map((key) => ({
+    label: DESIGN_REQUEST_SUMMARY_LABELS[key],
+    value: summary[key],
+  }));
+}
+
+export const REFERENCE_CONCEPT_LABELS: Record<ReferenceConceptField, string> = {
+  experienceGoal: "Experience Goal",
+  suggestedLayout: "Suggested Layout",
+  keyElements: "Key Elements",
+  interactionModel: "Interaction Model",
+  designConsiderations: "Design Considerations",
+};
+
+/** A concept whose keyElements may still be the single string older records stored, as a list */
+export function normalizeReferenceConcept(concept: ReferenceConcept): ReferenceConcept {
+  const keyElements = concept.keyElements as string[] | string;
+  if (Array.isArray(keyElements)) return concept;
+  return {
+    ...concept,
+    keyElements: keyElements
+      .split(/\n|;\s*/)
+      .map((item) => item.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, "").trim())
+      .filter((item) => item && item !== "—"),
+  };
+}
+
+/** Label/value pairs of a Reference Concept, in display order; list fields become one bullet per line */
+export function conceptEntries(concept: ReferenceConcept): { label: string; value: string }[] {
+  return (Object.keys(REFERENCE_CONCEPT_LABELS) as ReferenceConceptField[]).map((key) => {
+    const value = concept[key];
+    return {
+      label: REFERENCE_CONCEPT_LABELS[key],
+      value: Array.isArray(value) ? (value.length > 0 ? value.map((item) => `• ${item}`).join("\n") : "—") : value,
+    };
+  });
+}
@@ -0,0 +1,33 @@
+import type { StoredIntake } from "@/app/types";
+import { isJiraAutoExportEnabled, syncIntakeToJira } from "@/lib/integrations/jira";
+import { isMondayAutoExportEnabled, syncIntakeToMonday } from "@/lib/integrations/monday";
+import { notifyIntakeSubmitted } from "@/lib/integrations/notifications";
+
+/**
+ * Everything that follows a new intake, wherever it was submitted: the Monday.com and Jira auto-exports, then the
+ * Slack/Teams notification. Best effort: the intake is saved either way, failures are logged, and a failed export can
+ * be retried via /api/intakes/:id/monday or /jira. `reviewUrl` is the absolute link to the reviewer detail page.
+ * Returns the intake with any new integration links.
+ */
+export async function afterIntakeSubmitted(intake: StoredIntake, reviewUrl: string): Promise<StoredIntake> {
+  let current = intake;
+  if (isMondayAutoExportEnabled()) {
+    const exported = await syncIntakeToMonday(current);
+    if (exported.ok) {
+      current = exported.data;
+    } else {
+      console.error(`[intakes] Monday.com export of intake ${intake.id} failed:`, exported.error);
+    }
+  }
+  if (isJiraAutoExportEnabled()) {
+    const exported = await syncIntakeToJira(current, { intakeUrl: reviewUrl });
+    if (exported.ok) {
+      current = exported.data;
+    } else {
+      console.error(`[intakes] Jira export of intake ${intake.id} failed:`, exported.error);
+    }
+  }
+  // Last, so the message can link the Jira issue; failures are logged inside
+  await notifyIntakeSubmitted(current, reviewUrl);
+  return current;
+}
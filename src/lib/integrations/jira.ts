@@ -0,0 +1,321 @@
+import type { RecommendedAction, StoredIntake, UploadedDocument } from "@/app/types";
+import { updateIntake } from "@/lib/intakeStore";
+import { getProjectName, summaryEntries } from "@/lib/intakeText";
+import { getUpload, getUploadContent } from "@/lib/uploadStore";
+
+/**
+ * Create Jira issues (or epics) from submitted intakes via the Jira Cloud REST API v3.
+ *
+ * Env:
+ * - JIRA_BASE_URL, JIRA_PROJECT_KEY (required); point JIRA_BASE_URL at `npm run jira:stand-in` for testing
+ * - JIRA_EMAIL + JIRA_API_TOKEN (required): Atlassian account email and API token, sent as basic auth. Jira Data
+ *   Center is not supported: it has no v3 API and does not take ADF descriptions
+ * - JIRA_ISSUE_TYPE: default issue type, e.g. Task (default) or Epic; the export route can override it per intake
+ * - JIRA_EPIC_NAME_FIELD: custom field id for "Epic Name" on company-managed projects that still require it
+ * - JIRA_PRIORITY_MAP: JSON mapping recommended actions to priority names; an action left out sets no priority
+ * - JIRA_LABELS: comma-separated labels added to every issue (default ux-intake)
+ * - JIRA_AUTO_EXPORT=true: create an issue for every intake as soon as it is submitted
+ */
+
+export interface JiraConfig {
+  baseUrl: string;
+  /** Value of the Authorization header */
+  authorization: string;
+  projectKey: string;
+  issueType: string;
+  epicNameField?: string;
+  priorities: Partial<Record<RecommendedAction, string>>;
+  labels: string[];
+}
+
+/** Atlassian Document Format node; only the handful of node types the description uses */
+export interface AdfNode {
+  type: string;
+  attrs?: Record<string, unknown>;
+  content?: AdfNode[];
+  text?: string;
+  marks?: { type: string; attrs?: Record<string, unknown> }[];
+}
+
+export interface AdfDocument {
+  version: 1;
+  type: "doc";
+  content: AdfNode[];
+}
+
+export interface JiraExportOptions {
+  /** Issue type for this intake instead of JIRA_ISSUE_TYPE, e.g. "Epic" */
+  issueType?: string;
+  /** Absolute link to the intake in this app, added to the description */
+  intakeUrl?: string;
+}
+
+const RECOMMENDED_ACTIONS: RecommendedAction[] = [
+  "Strategic Review Required",
+  "Clarification Call Recommended",
+  "Backlog Ready",
+];
+
+const DEFAULT_PRIORITIES: Record<RecommendedAction, string> = {
+  "Strategic Review Required": "High",
+  "Clarification Call Recommended": "Medium",
+  "Backlog Ready": "Low",
+};
+
+const REQUEST_TIMEOUT_MS = 15_000;
+
+function parsePriorityMap(raw: string | undefined): { ok: true; data: JiraConfig["priorities"] } | { ok: false; error: string } {
+  if (!raw?.trim()) return { ok: true, data: DEFAULT_PRIORITIES };
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(raw) as Record<string, unknown>;
+  } catch {
+    return { ok: false, error: "JIRA_PRIORITY_MAP is not valid JSON." };
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    return { ok: false, error: "JIRA_PRIORITY_MAP must be an object of recommended action to priority name." };
+  }
+  const priorities: JiraConfig["priorities"] = {};
+  for (const [action, priority] of Object.entries(parsed)) {
+    if (!RECOMMENDED_ACTIONS.includes(action as RecommendedAction)) {
+      return {
+        ok: false,
+        error: `JIRA_PRIORITY_MAP: unknown recommended action "${action}" (expected one of ${RECOMMENDED_ACTIONS.join(", ")}).`,
+      };
+    }
+    if (typeof priority !== "string" || !priority.trim()) {
+      return { ok: false, error: `JIRA_PRIORITY_MAP: "${action}" needs a priority name.` };
+    }
+    priorities[action as RecommendedAction] = priority.trim();
+  }
+  return { ok: true, data: priorities };
+}
+
+export function getJiraConfig(): { ok: true; data: JiraConfig } | { ok: false; error: string } {
+  const baseUrl = process.env.JIRA_BASE_URL?.trim().replace(/\/+$/, "");
+  const projectKey = process.env.JIRA_PROJECT_KEY?.trim();
+  const email = process.env.JIRA_EMAIL?.trim();
+  const token = process.env.JIRA_API_TOKEN?.trim();
+  if (!baseUrl || !projectKey || !email || !token) {
+    return {
+      ok: false,
+      error: "JIRA_BASE_URL, JIRA_PROJECT_KEY, JIRA_EMAIL and JIRA_API_TOKEN must be set to create Jira issues.",
+    };
+  }
+  const priorities = parsePriorityMap(process.env.JIRA_PRIORITY_MAP);
+  if (!priorities.ok) return priorities;
+  return {
+    ok: true,
+    data: {
+      baseUrl,
+      authorization: `Basic ${Buffer.from(`${email}:${token}`).toString("base64")}`,
+      projectKey,
+      issueType: process.env.JIRA_ISSUE_TYPE?.trim() || "Task",
+      epicNameField: process.env.JIRA_EPIC_NAME_FIELD?.trim() || undefined,
+      priorities: priorities.data,
+      labels: (process.env.JIRA_LABELS ?? "ux-intake")
+        .split(",")
+        .map(toLabel)
+        .filter(Boolean),
+    },
+  };
+}
+
+export function isJiraAutoExportEnabled(): boolean {
+  return process.env.JIRA_AUTO_EXPORT?.trim().toLowerCase() === "true";
+}
+
+/** Jira labels cannot contain spaces: "Missing Metrics" → "missing-metrics" */
+function toLabel(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9_.-]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/** Configured labels plus one per flag and the product pillar, without duplicates */
+export function buildLabels(intake: StoredIntake, config: Pick<JiraConfig, "labels">): string[] {
+  const { flags, product_pillar } = intake.summary;
+  const pillar = product_pillar ? toLabel(product_pillar) : "";
+  const labels = [...config.labels, ...flags.map(toLabel), ...(pillar ? [`pillar-${pillar}`] : [])];
+  return Array.from(new Set(labels.filter(Boolean)));
+}
+
+const text = (value: string, marks?: AdfNode["marks"]): AdfNode => ({ type: "text", text: value, ...(marks && { marks }) });
+
+/** A paragraph that keeps the answer's line breaks; ADF rejects empty text nodes */
+function paragraph(value: string): AdfNode {
+  const lines = value.split("\n");
+  const content = lines.flatMap((line, i): AdfNode[] => [
+    ...(i > 0 ? [{ type: "hardBreak" }] : []),
+    ...(line ? [text(line)] : []),
+  ]);
+  return { type: "paragraph", content };
+}
+
+/** Issue description: the Design Request Summary (or the opening answer) and where the intake came from */
+export function buildDescription(intake: StoredIntake, intakeUrl?: string): AdfDocument {
+  const summary = intake.summary.designRequestSummary;
+  const content: AdfNode[] = [{ type: "heading", attrs: { level: 3 }, content: [text("Design Request Summary")] }];
+  if (summary) {
+    for (const { label, value } of summaryEntries(summary)) {
+      content.push(
+        { type: "paragraph", content: [text(label, [{ type: "strong" }])] },
+        paragraph(value.trim() || "—")
+      );
+    }
+  } else {
+    content.push(paragraph(intake.opening.trim()));
+  }
+  content.push(
+    { type: "rule" },
+    {
+      type: "paragraph",
+      content: [
+        text(`Recommended action: ${intake.recommendedAction} · risk score ${intake.summary.risk_score}/100`),
+        { type: "hardBreak" },
+        text("Intake: "),
+        intakeUrl ? text(intake.id, [{ type: "link", attrs: { href: intakeUrl } }]) : text(intake.id, [{ type: "code" }]),
+      ],
+    }
+  );
+  return { version: 1, type: "doc", content };
+}
+
+/** `fields` for POST /rest/api/3/issue */
+export function buildIssueFields(
+  intake: StoredIntake,
+  config: JiraConfig,
+  options: JiraExportOptions = {}
+): Record<string, unknown> {
+  const issueType = options.issueType ?? config.issueType;
+  const summary = getProjectName(intake.opening).slice(0, 255);
+  const priority = config.priorities[intake.recommendedAction];
+  return {
+    project: { key: config.projectKey },
+    issuetype: { name: issueType },
+    summary,
+    description: buildDescription(intake, options.intakeUrl),
+    labels: buildLabels(intake, config),
+    ...(priority && { priority: { name: priority } }),
+    ...(config.epicNameField && issueType.toLowerCase() === "epic" && { [config.epicNameField]: summary }),
+  };
+}
+
+type JiraResult<T> = { ok: true; data: T } | { ok: false; error: string };
+
+async function jiraRequest<T>(config: JiraConfig, path: string, init: { body: string | FormData; json?: boolean }): Promise<JiraResult<T>> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    const res = await fetch(`${config.baseUrl}${path}`, {
+      method: "POST",
+      signal: controller.signal,
+      headers: {
+        Authorization: config.authorization,
+        Accept: "application/json",
+        ...(init.json ? { "Content-Type": "application/json" } : { "X-Atlassian-Token": "no-check" }),
+      },
+      body: init.body,
+    });
+    const json = (await res.json().catch(() => ({}))) as T & {
+      errorMessages?: string[];
+      errors?: Record<string, string>;
+    };
+    if (!res.ok) {
+      const detail = [...(json.errorMessages ?? []), ...Object.entries(json.errors ?? {}).map(([f, m]) => `${f}: ${m}`)];
+      console.error("[jira] API error:", res.status, JSON.stringify(json).slice(0, 500));
+      return { ok: false, error: `Jira error: ${detail.join("; ") || `HTTP ${res.status}`}` };
+    }
+    return { ok: true, data: json };
+  } catch (e) {
+    if ((e as Error).name === "AbortError") {
+      return { ok: false, error: "Jira request timed out." };
+    }
+    return { ok: false, error: `Jira request failed: ${e instanceof Error ? e.message : String(e)}` };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/** Supporting documents and the stored mockup, as files to attach */
+async function attachmentsFor(intake: StoredIntake): Promise<{ doc: UploadedDocument; content: Buffer }[]> {
+  const ids = [...(intake.summary.supporting_documents ?? []), ...(intake.mockupImageId ? [intake.mockupImageId] : [])];
+  const files = await Promise.all(
+    ids.map(async (id) => {
+      const doc = await getUpload(id);
+      const content = doc && (await getUploadContent(doc.id));
+      return doc && content ? { doc, content } : null;
+    })
+  );
+  return files.filter((f): f is { doc: UploadedDocument; content: Buffer } => f !== null);
+}
+
+/**
+ * Create the issue, then attach the supporting documents one by one.
+ * Returns the new issue; storing it on the intake is up to the caller.
+ */
+export async function exportIntakeToJira(
+  intake: StoredIntake,
+  config: JiraConfig,
+  options: JiraExportOptions = {}
+): Promise<JiraResult<{ id: string; key: string; url: string; attached: number }>> {
+  const created = await jiraRequest<{ id?: string; key?: string }>(config, "/rest/api/3/issue", {
+    body: JSON.stringify({ fields: buildIssueFields(intake, config, options) }),
+    json: true,
+  });
+  if (!created.ok) return created;
+  const { id, key } = created.data;
+  if (!id || !key) return { ok: false, error: "Jira did not return an issue key." };
+
+  let attached = 0;
+  for (const { doc, content } of await attachmentsFor(intake)) {
+    const form = new FormData();
+    form.append("file", new Blob([new Uint8Array(content)], { type: doc.contentType }), doc.fileName);
+    const upload = await jiraRequest(config, `/rest/api/3/issue/${encodeURIComponent(key)}/attachments`, { body: form });
+    if (upload.ok) {
+      attached++;
+    } else {
+      // The issue exists; keep its key so a retry doesn't create a duplicate
+      console.error(`[jira] issue ${key} created but attaching ${doc.fileName} failed:`, upload.error);
+    }
+  }
+  return { ok: true, data: { id: String(id), key, url: `${config.baseUrl}/browse/${key}`, attached } };
+}
+
+/**
+ * Create a Jira issue for an intake using the env config and record its key on the intake.
+ * Already-exported intakes are returned unchanged so retries never create duplicate issues.
+ */
+export async function syncIntakeToJira(
+  intake: StoredIntake,
+  options: JiraExportOptions = {}
+): Promise<JiraResult<StoredIntake>> {
+  if (intake.integrations?.jira) return { ok: true, data: intake };
+  const config = getJiraConfig();
+  if (!config.ok) return config;
+
+  const exported = await exportIntakeToJira(intake, config.data, options);
+  if (!exported.ok) return exported;
+
+  const { id, key, url } = exported.data;
+  const updated = await updateIntake(intake.id, (current) => ({
+    ...current,
+    integrations: {
+      ...current.integrations,
+      jira: {
+        id,
+        key,
+        url,
+        projectKey: config.data.projectKey,
+        issueType: options.issueType ?? config.data.issueType,
+        exportedAt: new Date().toISOString(),
+      },
+    },
+  }));
+  if (!updated) return { ok: false, error: "Intake was deleted during export." };
+  return { ok: true, data: updated };
+}
@@ -0,0 +1,239 @@
+import type { StoredIntake } from "@/app/types";
+import { updateIntake } from "@/lib/intakeStore";
+import { getProjectName, summaryEntries } from "@/lib/intakeText";
+
+/**
+ * Export submitted intakes to a Monday.com board via the GraphQL API.
+ *
+ * Env:
+ * - MONDAY_API_TOKEN, MONDAY_BOARD_ID (required), MONDAY_GROUP_ID (optional)
+ * - MONDAY_API_URL: defaults to https://api.monday.com/v2; point at a local stand-in server for testing
+ * - MONDAY_COLUMN_MAP: JSON mapping intake fields to board columns, e.g.
+ *   {"risk_score":{"column":"numbers","type":"numbers"},"recommendedAction":{"column":"status","type":"status"}}
+ *   A plain string value is treated as a text column id.
+ * - MONDAY_AUTO_EXPORT=true: export every intake as soon as it is submitted
+ */
+
+export type MondayField = "risk_score" | "flags" | "recommendedAction" | "product_pillar" | "quarter";
+
+export type MondayColumnType = "text" | "long_text" | "numbers" | "status" | "dropdown";
+
+export interface MondayColumn {
+  column: string;
+  type: MondayColumnType;
+}
+
+export interface MondayConfig {
+  apiUrl: string;
+  token: string;
+  boardId: string;
+  groupId?: string;
+  columns: Partial<Record<MondayField, MondayColumn>>;
+}
+
+const MONDAY_FIELDS: MondayField[] = ["risk_score", "flags", "recommendedAction", "product_pillar", "quarter"];
+const COLUMN_TYPES: MondayColumnType[] = ["text", "long_text", "numbers", "status", "dropdown"];
+
+function parseColumnMap(raw: string | undefined): { ok: true; data: MondayConfig["columns"] } | { ok: false; error: string } {
+  if (!raw?.trim()) return { ok: true, data: {} };
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(raw) as Record<string, unknown>;
+  } catch {
+    return { ok: false, error: "MONDAY_COLUMN_MAP is not valid JSON." };
+  }
+  const columns: MondayConfig["columns"] = {};
+  for (const [field, value] of Object.entries(parsed)) {
+    if (!MONDAY_FIELDS.includes(field as MondayField)) {
+      return { ok: false, error: `MONDAY_COLUMN_MAP: unknown field "${field}" (expected one of ${MONDAY_FIELDS.join(", ")}).` };
+    }
+    if (typeof value === "string") {
+      columns[field as MondayField] = { column: value, type: "text" };
+      continue;
+    }
+    const col = value as Partial<MondayColumn> | null;
+    if (!col || typeof col.column !== "string" || !COLUMN_TYPES.includes(col.type as MondayColumnType)) {
+      return { ok: false, error: `MONDAY_COLUMN_MAP: "${field}" needs a column id and a type (${COLUMN_TYPES.join(", ")}).` };
+    }
+    columns[field as MondayField] = { column: col.column, type: col.type as MondayColumnType };
+  }
+  return { ok: true, data: columns };
+}
+
+export function getMondayConfig(): { ok: true; data: MondayConfig } | { ok: false; error: string } {
+  const token = process.env.MONDAY_API_TOKEN?.trim();
+  const boardId = process.env.MONDAY_BOARD_ID?.trim();
+  if (!token || !boardId) {
+    return { ok: false, error: "MONDAY_API_TOKEN and MONDAY_BOARD_ID must be set to export to Monday.com." };
+  }
+  const columns = parseColumnMap(process.env.MONDAY_COLUMN_MAP);
+  if (!columns.ok) return columns;
+  return {
+    ok: true,
+    data: {
+      apiUrl: process.env.MONDAY_API_URL?.trim() || "https://api.monday.com/v2",
+      token,
+      boardId,
+      groupId: process.env.MONDAY_GROUP_ID?.trim() || undefined,
+      columns: columns.data,
+    },
+  };
+}
+
+export function isMondayAutoExportEnabled(): boolean {
+  return process.env.MONDAY_AUTO_EXPORT?.trim().toLowerCase() === "true";
+}
+
+function fieldValues(intake: StoredIntake): Record<MondayField, string | string[] | number | undefined> {
+  return {
+    risk_score: intake.summary.risk_score,
+    flags: intake.summary.flags,
+    recommendedAction: intake.recommendedAction,
+    product_pillar: intake.summary.product_pillar,
+    quarter: intake.summary.quarter_slated_for,
+  };
+}
+
+function columnValue(type: MondayColumnType, value: string | string[] | number): unknown {
+  const text = Array.isArray(value) ? value.join(", ") : String(value);
+  switch (type) {
+    case "numbers":
+      return String(value);
+    case "status":
+      return { label: text };
+    case "dropdown":
+      return { labels: Array.isArray(value) ? value : [text] };
+    case "long_text":
+      return { text };
+    case "text":
+      return text;
+  }
+}
+
+/** Monday column_values payload for an intake, using the configured column mapping */
+export function buildColumnValues(intake: StoredIntake, columns: MondayConfig["columns"]): Record<string, unknown> {
+  const values = fieldValues(intake);
+  const out: Record<string, unknown> = {};
+  for (const field of MONDAY_FIELDS) {
+    const mapping = columns[field];
+    const value = values[field];
+    if (!mapping || value === undefined || (Array.isArray(value) && value.length === 0)) continue;
+    out[mapping.column] = columnValue(mapping.type, value);
+  }
+  return out;
+}
+
+/** Update body posted on the item: the Design Request Summary (Monday renders basic HTML) */
+export function buildUpdateBody(intake: StoredIntake): string {
+  const escape = (s: string) => s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+  const summary = intake.summary.designRequestSummary;
+  const parts = ["<h3>Design Request Summary</h3>"];
+  if (summary) {
+    for (const { label, value } of summaryEntries(summary)) {
+      parts.push(`<p><strong>${label}</strong><br>${escape(value).replace(/\n/g, "<br>")}</p>`);
+    }
+  } else {
+    parts.push(`<p>${escape(intake.opening)}</p>`);
+  }
+  parts.push(`<p>Intake id: ${intake.id}</p>`);
+  return parts.join("\n");
+}
+
+async function mondayRequest<T>(
+  config: MondayConfig,
+  query: string,
+  variables: Record<string, unknown>
+): Promise<{ ok: true; data: T } | { ok: false; error: string }> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), 15_000);
+  try {
+    const res = await fetch(config.apiUrl, {
+      method: "POST",
+      signal: controller.signal,
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: config.token,
+        "API-Version": "2024-10",
+      },
+      body: JSON.stringify({ query, variables }),
+    });
+    const json = (await res.json().catch(() => ({}))) as {
+      data?: T;
+      errors?: { message?: string }[];
+      error_message?: string;
+    };
+    if (!res.ok || json.errors?.length || json.error_message) {
+      const detail = json.errors?.[0]?.message ?? json.error_message ?? `HTTP ${res.status}`;
+      console.error("[monday] API error:", res.status, JSON.stringify(json).slice(0, 500));
+      return { ok: false, error: `Monday.com error: ${detail}` };
+    }
+    if (!json.data) return { ok: false, error: "Monday.com returned no data." };
+    return { ok: true, data: json.data };
+  } catch (e) {
+    if ((e as Error).name === "AbortError") {
+      return { ok: false, error: "Monday.com request timed out." };
+    }
+    return { ok: false, error: `Monday.com request failed: ${e instanceof Error ? e.message : String(e)}` };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+const CREATE_ITEM = `mutation ($boardId: ID!, $groupId: String, $itemName: String!, $columnValues: JSON) {
+  create_item (board_id: $boardId, group_id: $groupId, item_name: $itemName, column_values: $columnValues, create_labels_if_missing: true) { id }
+}`;
+
+const CREATE_UPDATE = `mutation ($itemId: ID!, $body: String!) {
+  create_update (item_id: $itemId, body: $body) { id }
+}`;
+
+/**
+ * Create a board item for the intake and post the summary as an update.
+ * Returns the new item id; storing it on the intake is up to the caller.
+ */
+export async function exportIntakeToMonday(
+  intake: StoredIntake,
+  config: MondayConfig
+): Promise<{ ok: true; data: { itemId: string } } | { ok: false; error: string }> {
+  const created = await mondayRequest<{ create_item?: { id?: string } }>(config, CREATE_ITEM, {
+    boardId: config.boardId,
+    groupId: config.groupId ?? null,
+    itemName: getProjectName(intake.opening),
+    columnValues: JSON.stringify(buildColumnValues(intake, config.columns)),
+  });
+  if (!created.ok) return created;
+  const itemId = created.data.create_item?.id;
+  if (!itemId) return { ok: false, error: "Monday.com did not return an item id." };
+
+  const update = await mondayRequest(config, CREATE_UPDATE, { itemId, body: buildUpdateBody(intake) });
+  if (!update.ok) {
+    // The item exists; keep its id so a retry doesn't create a duplicate
+    console.error(`[monday] item ${itemId} created but posting the summary failed:`, update.error);
+  }
+  return { ok: true, data: { itemId: String(itemId) } };
+}
+
+/**
+ * Export an intake using the env config and record the item id on it.
+ * Already-exported intakes are returned unchanged so retries never create duplicate items.
+ */
+export async function syncIntakeToMonday(
+  intake: StoredIntake
+): Promise<{ ok: true; data: StoredIntake } | { ok: false; error: string }> {
+  if (intake.integrations?.monday) return { ok: true, data: intake };
+  const config = getMondayConfig();
+  if (!config.ok) return config;
+
+  const exported = await exportIntakeToMonday(intake, config.data);
+  if (!exported.ok) return exported;
+
+  const updated = await updateIntake(intake.id, (current) => ({
+    ...current,
+    integrations: {
+      ...current.integrations,
+      monday: { id: exported.data.itemId, boardId: config.data.boardId, exportedAt: new Date().toISOString() },
+    },
+  }));
+  if (!updated) return { ok: false, error: "Intake was deleted during export." };
+  return { ok: true, data: updated };
+}
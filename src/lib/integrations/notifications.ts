@@ -0,0 +1,223 @@
+import type { RecommendedAction, StoredIntake } from "@/app/types";
+import { getProjectName } from "@/lib/intakeText";
+
+/**
+ * Tell reviewers about new intakes through Slack (Block Kit) and Microsoft Teams (Adaptive Card) incoming webhooks.
+ *
+ * Env:
+ * - SLACK_WEBHOOK_URL and/or TEAMS_WEBHOOK_URL: where new intakes are announced
+ * - SLACK_STRATEGIC_WEBHOOK_URL / TEAMS_STRATEGIC_WEBHOOK_URL: separate channel for "Strategic Review Required"
+ *   intakes; those go to the regular webhook when unset
+ * - NOTIFY_ACTIONS: comma-separated recommended actions worth a notification (default: all of them), e.g.
+ *   "Strategic Review Required,Clarification Call Recommended" to skip intakes that are Backlog Ready
+ */
+
+export type NotificationChannel = "slack" | "teams";
+
+interface ChannelWebhooks {
+  default?: string;
+  strategic?: string;
+}
+
+export interface NotificationConfig {
+  webhooks: Record<NotificationChannel, ChannelWebhooks>;
+  actions: RecommendedAction[];
+}
+
+const RECOMMENDED_ACTIONS: RecommendedAction[] = [
+  "Strategic Review Required",
+  "Clarification Call Recommended",
+  "Backlog Ready",
+];
+
+const WEBHOOK_ENV: Record<NotificationChannel, { default: string; strategic: string }> = {
+  slack: { default: "SLACK_WEBHOOK_URL", strategic: "SLACK_STRATEGIC_WEBHOOK_URL" },
+  teams: { default: "TEAMS_WEBHOOK_URL", strategic: "TEAMS_STRATEGIC_WEBHOOK_URL" },
+};
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+function webhookUrl(name: string): { ok: true; data?: string } | { ok: false; error: string } {
+  const value = process.env[name]?.trim();
+  if (!value) return { ok: true };
+  try {
+    const url = new URL(value);
+    if (url.protocol !== "https:" && url.protocol !== "http:") throw new Error(url.protocol);
+  } catch {
+    return { ok: false, error: `${name} is not a valid http(s) URL.` };
+  }
+  return { ok: true, data: value };
+}
+
+export function getNotificationConfig(): { ok: true; data: NotificationConfig } | { ok: false; error: string } {
+  const webhooks = { slack: {}, teams: {} } as NotificationConfig["webhooks"];
+  for (const channel of Object.keys(WEBHOOK_ENV) as NotificationChannel[]) {
+    for (const kind of ["default", "strategic"] as const) {
+      const url = webhookUrl(WEBHOOK_ENV[channel][kind]);
+      if (!url.ok) return url;
+      webhooks[channel][kind] = url.data;
+    }
+  }
+  const raw = process.env.NOTIFY_ACTIONS?.trim();
+  const actions = raw ? raw.split(",").map((a) => a.trim()).filter(Boolean) : RECOMMENDED_ACTIONS;
+  const unknown = actions.find((a) => !RECOMMENDED_ACTIONS.includes(a as RecommendedAction));
+  if (unknown) {
+    return {
+      ok: false,
+      error: `NOTIFY_ACTIONS: unknown recommended action "${unknown}" (expected any of ${RECOMMENDED_ACTIONS.join(", ")}).`,
+    };
+  }
+  return { ok: true, data: { webhooks, actions: actions as RecommendedAction[] } };
+}
+
+/** The webhook an intake goes to on a channel: strategic reviews to their own channel when one is configured */
+export function webhookFor(webhooks: ChannelWebhooks, action: RecommendedAction): string | undefined {
+  return (action === "Strategic Review Required" && webhooks.strategic) || webhooks.default;
+}
+
+function facts(intake: StoredIntake): { title: string; value: string }[] {
+  const { summary } = intake;
+  return [
+    { title: "Pillar", value: summary.product_pillar || "—" },
+    { title: "Quarter", value: summary.quarter_slated_for || "—" },
+    { title: "Risk score", value: `${summary.risk_score}/100` },
+    { title: "Recommended action", value: intake.recommendedAction },
+    { title: "Flags", value: summary.flags.length > 0 ? summary.flags.join(", ") : "None" },
+  ];
+}
+
+/** Slack treats &, < and > as control characters in mrkdwn and plain_text */
+const escapeSlack = (s: string) => s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+/** Block Kit message for a Slack incoming webhook; `text` is the fallback for notifications */
+export function buildSlackMessage(intake: StoredIntake, reviewUrl: string): Record<string, unknown> {
+  const project = getProjectName(intake.opening);
+  const strategic = intake.recommendedAction === "Strategic Review Required";
+  return {
+    text: `New design request: ${escapeSlack(project)} (${intake.recommendedAction}, risk ${intake.summary.risk_score}/100)`,
+    blocks: [
+      {
+        type: "header",
+        text: { type: "plain_text", text: `${strategic ? "⚠️ " : ""}New design request: ${project}`.slice(0, 150) },
+      },
+      {
+        type: "section",
+        fields: facts(intake).map((f) => ({ type: "mrkdwn", text: `*${f.title}*\n${escapeSlack(f.value)}` })),
+      },
+      {
+        type: "actions",
+        elements: [
+          {
+            type: "button",
+            text: { type: "plain_text", text: "Review intake" },
+            url: reviewUrl,
+            ...(strategic && { style: "danger" }),
+          },
+          ...(intake.integrations?.jira
+            ? [{ type: "button", text: { type: "plain_text", text: intake.integrations.jira.key }, url: intake.integrations.jira.url }]
+            : []),
+        ],
+      },
+      {
+        type: "context",
+        elements: [{ type: "mrkdwn", text: `Submitted by ${escapeSlack(intake.owner?.name ?? "unknown")} · ${intake.id}` }],
+      },
+    ],
+  };
+}
+
+/** Adaptive Card wrapped in the message envelope Teams incoming webhooks and Workflows expect */
+export function buildTeamsMessage(intake: StoredIntake, reviewUrl: string): Record<string, unknown> {
+  const project = getProjectName(intake.opening);
+  const strategic = intake.recommendedAction === "Strategic Review Required";
+  return {
+    type: "message",
+    attachments: [
+      {
+        contentType: "application/vnd.microsoft.card.adaptive",
+        contentUrl: null,
+        content: {
+          $schema: "http://adaptivecards.io/schemas/adaptive-card.json",
+          type: "AdaptiveCard",
+          version: "1.4",
+          body: [
+            {
+              type: "TextBlock",
+              text: `New design request: ${project}`,
+              size: "Large",
+              weight: "Bolder",
+              wrap: true,
+              ...(strategic && { color: "Attention" }),
+            },
+            { type: "FactSet", facts: facts(intake) },
+            {
+              type: "TextBlock",
+              text: `Submitted by ${intake.owner?.name ?? "unknown"} · ${intake.id}`,
+              isSubtle: true,
+              size: "Small",
+              wrap: true,
+            },
+          ],
+          actions: [
+            { type: "Action.OpenUrl", title: "Review intake", url: reviewUrl },
+            ...(intake.integrations?.jira
+              ? [{ type: "Action.OpenUrl", title: intake.integrations.jira.key, url: intake.integrations.jira.url }]
+              : []),
+          ],
+        },
+      },
+    ],
+  };
+}
+
+async function postWebhook(url: string, payload: Record<string, unknown>): Promise<{ ok: true } | { ok: false; error: string }> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    const res = await fetch(url, {
+      method: "POST",
+      signal: controller.signal,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    if (!res.ok) {
+      const detail = (await res.text().catch(() => "")).slice(0, 200);
+      return { ok: false, error: `HTTP ${res.status}${detail ? `: ${detail}` : ""}` };
+    }
+    return { ok: true };
+  } catch (e) {
+    if ((e as Error).name === "AbortError") return { ok: false, error: "request timed out" };
+    return { ok: false, error: e instanceof Error ? e.message : String(e) };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Announce a submitted intake on every configured channel. Best effort: failures are logged, never thrown, and the
+ * result lists which channels were notified. `reviewUrl` is the absolute link to the reviewer detail page.
+ */
+export async function notifyIntakeSubmitted(
+  intake: StoredIntake,
+  reviewUrl: string
+): Promise<{ channel: NotificationChannel; ok: boolean; error?: string }[]> {
+  const config = getNotificationConfig();
+  if (!config.ok) {
+    console.error("[notifications]", config.error);
+    return [];
+  }
+  if (!config.data.actions.includes(intake.recommendedAction)) return [];
+
+  const builders: Record<NotificationChannel, typeof buildSlackMessage> = { slack: buildSlackMessage, teams: buildTeamsMessage };
+  const sends = (Object.keys(builders) as NotificationChannel[]).flatMap((channel) => {
+    const url = webhookFor(config.data.webhooks[channel], intake.recommendedAction);
+    return url ? [{ channel, url }] : [];
+  });
+  return Promise.all(
+    sends.map(async ({ channel, url }) => {
+      const sent = await postWebhook(url, builders[channel](intake, reviewUrl));
+      if (!sent.ok) console.error(`[notifications] ${channel} notification for intake ${intake.id} failed:`, sent.error);
+      return sent.ok ? { channel, ok: true } : { channel, ok: false, error: sent.error };
+    })
+  );
+}
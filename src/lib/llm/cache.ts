@@ -0,0 +1,105 @@
+import { createHash } from "node:crypto";
+import { getCacheSettings, type LlmRoute } from "@/lib/llm/config";
+import type { ChatMessage } from "@/lib/llm/client";
+import { deleteRecord, readRecord, writeRecord } from "@/lib/storage";
+
+/**
+ * Content-addressed cache for validated model replies. The key hashes everything that decides the reply — route,
+ * prompt version, provider, model, reply schema and the normalized messages — so identical input gets identical
+ * output without another paid completion, and a prompt or model change never serves a stale entry.
+ */
+
+export interface CacheKeyParts {
+  route: LlmRoute;
+  /** Bumped by the caller whenever its prompt or the handling of the reply changes */
+  promptVersion: string;
+  provider: string;
+  model: string;
+  schemaName: string;
+  messages: ChatMessage[];
+}
+
+export interface LlmCacheEntry {
+  key: string;
+  route: LlmRoute;
+  promptVersion: string;
+  model: string;
+  createdAt: string;
+  expiresAt: string;
+  data: unknown;
+}
+
+/** Where entries live; "local" is the only backend for now and keeps them under the data dir */
+export interface LlmCacheBackend {
+  get(key: string): Promise<LlmCacheEntry | null>;
+  set(entry: LlmCacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+const COLLECTION = "llm-cache";
+
+const localBackend: LlmCacheBackend = {
+  get: (key) => readRecord<LlmCacheEntry>(COLLECTION, key),
+  set: (entry) => writeRecord(COLLECTION, entry.key, entry),
+  delete: async (key) => {
+    await deleteRecord(COLLECTION, key);
+  },
+};
+
+function getBackend(): LlmCacheBackend | null {
+  return getCacheSettings().backend === "local" ? localBackend : null;
+}
+
+/** Whitespace and Unicode form differences are not meaningful input, so they do not split the cache */
+export function normalizeContent(content: string): string {
+  return content.normalize("NFC").replace(/\s+/g, " ").trim();
+}
+
+export function cacheKey(parts: CacheKeyParts): string {
+  const canonical = JSON.stringify([
+    parts.route,
+    parts.promptVersion,
+    parts.provider,
+    parts.model,
+    parts.schemaName,
+    parts.messages.map((m) => [m.role, normalizeContent(m.content)]),
+  ]);
+  return createHash("sha256").update(canonical).digest("hex");
+}
+
+/** A live entry's data, or null on a miss; expired entries are removed. Cache errors count as a miss. */
+export async function readCachedReply(key: string): Promise<unknown | null> {
+  const backend = getBackend();
+  if (!backend) return null;
+  try {
+    const entry = await backend.get(key);
+    if (!entry) return null;
+    if (Date.parse(entry.expiresAt) <= Date.now()) {
+      await backend.delete(key);
+      return null;
+    }
+    return entry.data;
+  } catch (e) {
+    console.error("[llm-cache] read failed:", e);
+    return null;
+  }
+}
+
+export async function writeCachedReply(key: string, parts: CacheKeyParts, data: unknown): Promise<void> {
+  const backend = getBackend();
+  if (!backend) return;
+  const now = Date.now();
+  try {
+    await backend.set({
+      key,
+      route: parts.route,
+      promptVersion: parts.promptVersion,
+      model: parts.model,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + getCacheSettings().ttlSeconds * 1000).toISOString(),
+      data,
+    });
+  } catch (e) {
+    console.error("[llm-cache] write failed:", e);
+  }
+}
@@ -0,0 +1,507 @@
+import { cacheKey, readCachedReply, writeCachedReply, type CacheKeyParts } from "@/lib/llm/cache";
+import {
+  getProviderConfig,
+  getRepairAttempts,
+  getRouteSettings,
+  getStructuredOutputMode,
+  isRecordingFixtures,
+  type LlmProviderConfig,
+  type LlmRoute,
+} from "@/lib/llm/config";
+import { recordFixture, replayFixture } from "@/lib/llm/fixtures";
+import { MOCK_IMAGE_B64, mockChatCompletion } from "@/lib/llm/mock";
+import { callWithRetry, parseRetryAfter, recordLlmFailure, type AttemptResult } from "@/lib/llm/resilience";
+import { toWireSchema, validateSchema, type ResponseSchema } from "@/lib/llm/schema";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export type LlmResult<T> = { ok: true; data: T } | { ok: false; error: string; status?: number };
+
+export interface JsonCompletionOptions {
+  /** Streams the first attempt's text as it arrives */
+  onContent?: (contentSoFar: string) => void;
+  /** Caches the validated reply under this prompt version; see cache.ts. Omit for replies that must stay fresh. */
+  promptVersion?: string;
+}
+
+export interface CompletionOptions {
+  /** Sent as `response_format`; see chatCompletionJson */
+  responseFormat?: Record<string, unknown>;
+}
+
+// Corporate proxies that re-sign TLS need this; opt-in only (LLM_TLS_INSECURE=true).
+if (process.env.LLM_TLS_INSECURE?.trim().toLowerCase() === "true") {
+  process.env.NODE_TLS_REJECT_UNAUTHORIZED = "0";
+}
+
+function endpointUrl(config: LlmProviderConfig, model: string, path: string): string {
+  if (config.provider === "azure") {
+    return `${config.baseUrl}/${encodeURIComponent(model)}/${path}?api-version=${config.apiVersion}`;
+  }
+  return `${config.baseUrl}/${path}`;
+}
+
+function authHeaders(config: LlmProviderConfig): Record<string, string> {
+  if (!config.apiKey) return {};
+  return config.provider === "azure" ? { "api-key": config.apiKey } : { Authorization: `Bearer ${config.apiKey}` };
+}
+
+function describeHttpError(config: LlmProviderConfig, status: number, errText: string): string {
+  if (status === 401) {
+    return `Invalid ${config.label} API key (401). Check your credentials in .env.local.`;
+  }
+  if (status === 429) return `${config.label} rate limit exceeded (429). Try again in a moment.`;
+  if (status >= 500) return `${config.label} server error. Try again later.`;
+  try {
+    const errJson = JSON.parse(errText) as { error?: { message?: string } };
+    const detail = errJson?.error?.message?.slice(0, 150);
+    return detail ? `${config.label} error: ${detail}` : `${config.label} error (${status}). Check server logs.`;
+  } catch {
+    return `${config.label} error (${status}). Check server logs.`;
+  }
+}
+
+function describeFetchError(config: LlmProviderConfig, e: unknown, timeoutMs: number): string {
+  if ((e as Error).name === "AbortError") {
+    return `Request timed out (${Math.round(timeoutMs / 1000)}s). Check your connection and try again.`;
+  }
+  const msg = e instanceof Error ? e.message : "Unknown error";
+  const isNetworkError =
+    /fetch failed|ECONNREFUSED|ENOTFOUND|ETIMEDOUT|ECONNRESET|network|socket hang up/i.test(msg);
+  if (isNetworkError) {
+    let host = config.baseUrl;
+    try {
+      host = new URL(config.baseUrl).host;
+    } catch {
+      // keep the raw base URL
+    }
+    return `Network error: could not reach ${config.label} at ${host}. Common causes: VPN or firewall blocking the host, no internet, or corporate proxy. Try a different network or check with your IT team.`;
+  }
+  return `${config.label} request failed: ${msg}`;
+}
+
+/** Whether a failed response is worth another attempt: rate limits and server errors, but not an exhausted quota */
+function isRetryableStatus(status: number, errText: string): boolean {
+  if (status === 429) return !/insufficient_quota/.test(errText);
+  return status === 408 || status >= 500;
+}
+
+async function httpFailure(config: LlmProviderConfig, res: Response): Promise<AttemptResult<never>> {
+  const errText = await res.text();
+  console.error(`${config.label} API error:`, res.status, errText.slice(0, 500));
+  return {
+    ok: false,
+    error: describeHttpError(config, res.status, errText),
+    status: res.status,
+    retryable: isRetryableStatus(res.status, errText),
+    retryAfterMs: parseRetryAfter(res.headers),
+  };
+}
+
+/** Timeouts are not retried: the provider already had the route's full timeout to answer */
+function fetchFailure(config: LlmProviderConfig, e: unknown, timeoutMs: number): AttemptResult<never> {
+  return { ok: false, error: describeFetchError(config, e, timeoutMs), retryable: (e as Error).name !== "AbortError" };
+}
+
+async function postJson(
+  config: LlmProviderConfig,
+  url: string,
+  body: unknown,
+  timeoutMs: number
+): Promise<LlmResult<unknown>> {
+  return callWithRetry(config.label, async () => {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      const res = await fetch(url, {
+        method: "POST",
+        signal: controller.signal,
+        headers: { "Content-Type": "application/json", ...authHeaders(config) },
+        body: JSON.stringify(body),
+      });
+      if (!res.ok) return await httpFailure(config, res);
+      return { ok: true, data: await res.json() };
+    } catch (e) {
+      console.error(`${config.label} request error:`, e);
+      return fetchFailure(config, e, timeoutMs);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  });
+}
+
+/**
+ * Run a chat completion for the given route using the configured provider and that route's
+ * model/temperature settings. Returns the assistant message text.
+ */
+export async function chatCompletion(
+  route: LlmRoute,
+  messages: ChatMessage[],
+  options: CompletionOptions = {}
+): Promise<LlmResult<string>> {
+  const configResult = getProviderConfig();
+  if (!configResult.ok) return configResult;
+  const config = configResult.data;
+  const settings = getRouteSettings(route);
+
+  if (config.provider === "mock") {
+    return { ok: true, data: mockChatCompletion(route, messages) };
+  }
+  if (config.provider === "replay") return replayChat(route, messages);
+
+  const result = await postJson(
+    config,
+    endpointUrl(config, settings.model, "chat/completions"),
+    {
+      model: settings.model,
+      messages,
+      temperature: settings.temperature,
+      max_tokens: settings.maxTokens,
+      ...(options.responseFormat && { response_format: options.responseFormat }),
+    },
+    settings.timeoutMs
+  );
+  if (!result.ok) return result;
+
+  const data = result.data as { choices?: { message?: { content?: string } }[] };
+  const content = data.choices?.[0]?.message?.content?.trim();
+  if (!content) {
+    return { ok: false, error: `${config.label} returned an empty response. Try again.` };
+  }
+  if (isRecordingFixtures()) await recordFixture(config, settings.model, { kind: "chat", route, messages }, { content });
+  return { ok: true, data: content };
+}
+
+async function replayChat(route: LlmRoute, messages: ChatMessage[]): Promise<LlmResult<string>> {
+  const replayed = await replayFixture({ kind: "chat", route, messages });
+  if (!replayed.ok) return replayed;
+  if (!("content" in replayed.data)) return { ok: false, error: `Recorded fixture for ${route} is not a chat response.` };
+  return { ok: true, data: replayed.data.content };
+}
+
+/** Receives the string fields of a streamed JSON reply as they grow; see readPartialJsonStrings */
+export type PartialFieldsHandler = (fields: Record<string, string>) => void;
+
+/** How much of a canned (mock or replayed) reply is released per chunk, and how often */
+const MOCK_STREAM_CHUNK = 12;
+const MOCK_STREAM_DELAY_MS = 15;
+
+/**
+ * Streaming variant of chatCompletion: calls `onContent` with the reply so far as tokens arrive and resolves with
+ * the full text. The route's timeout applies to the wait for each chunk rather than to the whole reply.
+ */
+export async function chatCompletionStream(
+  route: LlmRoute,
+  messages: ChatMessage[],
+  onContent: (contentSoFar: string) => void,
+  options: CompletionOptions = {}
+): Promise<LlmResult<string>> {
+  const configResult = getProviderConfig();
+  if (!configResult.ok) return configResult;
+  const config = configResult.data;
+  const settings = getRouteSettings(route);
+
+  // Canned replies are released a chunk at a time so the UI streams as it would against a real provider
+  if (config.provider === "mock" || config.provider === "replay") {
+    const canned: LlmResult<string> =
+      config.provider === "mock" ? { ok: true, data: mockChatCompletion(route, messages) } : await replayChat(route, messages);
+    if (!canned.ok) return canned;
+    const content = canned.data;
+    for (let end = MOCK_STREAM_CHUNK; end < content.length + MOCK_STREAM_CHUNK; end += MOCK_STREAM_CHUNK) {
+      onContent(content.slice(0, end));
+      await new Promise((resolve) => setTimeout(resolve, MOCK_STREAM_DELAY_MS));
+    }
+    return { ok: true, data: content };
+  }
+
+  const controller = new AbortController();
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const resetTimeout = () => {
+    clearTimeout(timeoutId);
+    timeoutId = setTimeout(() => controller.abort(), settings.timeoutMs);
+  };
+  try {
+    // Only opening the stream is retried; once tokens have been shown a failure is final
+    const opened = await callWithRetry(config.label, async () => {
+      resetTimeout();
+      try {
+        const res = await fetch(endpointUrl(config, settings.model, "chat/completions"), {
+          method: "POST",
+          signal: controller.signal,
+          headers: { "Content-Type": "application/json", ...authHeaders(config) },
+          body: JSON.stringify({
+            model: settings.model,
+            messages,
+            temperature: settings.temperature,
+            max_tokens: settings.maxTokens,
+            stream: true,
+            ...(options.responseFormat && { response_format: options.responseFormat }),
+          }),
+        });
+        if (!res.ok) return await httpFailure(config, res);
+        return { ok: true, data: res };
+      } catch (e) {
+        console.error(`${config.label} stream error:`, e);
+        return fetchFailure(config, e, settings.timeoutMs);
+      } finally {
+        clearTimeout(timeoutId);
+      }
+    });
+    if (!opened.ok) return opened;
+    const res = opened.data;
+    if (!res.body) return { ok: false, error: `${config.label} returned an empty response. Try again.` };
+
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let content = "";
+    resetTimeout();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      resetTimeout();
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      for (const line of lines) {
+        if (!line.startsWith("data:")) continue;
+        const data = line.slice(5).trim();
+        if (data === "[DONE]") continue;
+        try {
+          const delta = (JSON.parse(data) as { choices?: { delta?: { content?: string } }[] }).choices?.[0]?.delta?.content;
+          if (delta) {
+            content += delta;
+            onContent(content);
+          }
+        } catch {
+          // Keep-alive comments and malformed chunks carry no content
+        }
+      }
+    }
+    content = content.trim();
+    if (!content) return { ok: false, error: `${config.label} returned an empty response. Try again.` };
+    if (isRecordingFixtures()) await recordFixture(config, settings.model, { kind: "chat", route, messages }, { content });
+    return { ok: true, data: content };
+  } catch (e) {
+    console.error(`${config.label} stream error:`, e);
+    const error = describeFetchError(config, e, settings.timeoutMs);
+    recordLlmFailure(error);
+    return { ok: false, error };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+function responseFormatFor(config: LlmProviderConfig, schema: ResponseSchema<unknown>): Record<string, unknown> | undefined {
+  switch (getStructuredOutputMode(config.provider)) {
+    case "json_schema":
+      return { type: "json_schema", json_schema: { name: schema.name, strict: true, schema: toWireSchema(schema.schema) } };
+    case "json_object":
+      return { type: "json_object" };
+    case "none":
+      return undefined;
+  }
+}
+
+/** Validation problems sent back to the model per repair attempt */
+const MAX_REPORTED_ERRORS = 10;
+
+/**
+ * Chat completion whose reply must be a JSON object matching `schema`. The schema is requested through the
+ * provider's structured-output mode where configured and always checked here; a reply that fails is sent back
+ * with its validation errors for another try (LLM_REPAIR_ATTEMPTS). With `onContent` the first attempt streams;
+ * with `promptVersion` a valid reply is cached and a cache hit skips the provider (not for mock or replayed replies,
+ * nor while recording fixtures).
+ */
+export async function chatCompletionJson<T>(
+  route: LlmRoute,
+  messages: ChatMessage[],
+  schema: ResponseSchema<T>,
+  { onContent, promptVersion }: JsonCompletionOptions = {}
+): Promise<LlmResult<T>> {
+  const configResult = getProviderConfig();
+  if (!configResult.ok) return configResult;
+  const config = configResult.data;
+  const options = { responseFormat: responseFormatFor(config, schema) };
+  const attempts = 1 + getRepairAttempts();
+
+  // Canned providers need no cache, and a recording session must reach the provider to capture every request
+  const cacheParts: CacheKeyParts | null =
+    promptVersion && config.provider !== "mock" && config.provider !== "replay" && !isRecordingFixtures()
+      ? {
+          route,
+          promptVersion,
+          provider: config.provider,
+          model: getRouteSettings(route).model,
+          schemaName: schema.name,
+          messages,
+        }
+      : null;
+  const key = cacheParts && cacheKey(cacheParts);
+  if (key) {
+    const cached = await readCachedReply(key);
+    // Entries were validated when written; re-checking guards against a schema changed without a version bump
+    if (cached !== null && validateSchema(schema.schema, cached).length === 0) {
+      onContent?.(JSON.stringify(cached));
+      return { ok: true, data: cached as T };
+    }
+  }
+
+  let attemptMessages = messages;
+  let errors: string[] = [];
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    const result =
+      attempt === 1 && onContent
+        ? await chatCompletionStream(route, attemptMessages, onContent, options)
+        : await chatCompletion(route, attemptMessages, options);
+    if (!result.ok) return result;
+
+    const parsed = parseJsonContent<unknown>(result.data);
+    errors = parsed.ok ? validateSchema(schema.schema, parsed.data) : ["$: the reply was not valid JSON"];
+    if (parsed.ok && errors.length === 0) {
+      if (cacheParts && key) await writeCachedReply(key, cacheParts, parsed.data);
+      return { ok: true, data: parsed.data as T };
+    }
+
+    console.error(`${config.label} reply for ${route} failed validation (attempt ${attempt}/${attempts}):`, errors.join("; "));
+    attemptMessages = [
+      ...messages,
+      { role: "assistant", content: result.data },
+      {
+        role: "user",
+        content: `That reply does not match the required JSON schema:\n- ${errors.slice(0, MAX_REPORTED_ERRORS).join("\n- ")}\n\nReply again with the corrected JSON object only.`,
+      },
+    ];
+  }
+  return {
+    ok: false,
+    error: `Model response did not match the expected format (${errors.slice(0, 3).join("; ")}). Try again.`,
+  };
+}
+
+/**
+ * Generate a single image as base64 PNG data. Backends that answer with a hosted link are downloaded here, once,
+ * so callers never have to fetch an image URL themselves.
+ */
+export async function generateImage(prompt: string, size = "1024x1024"): Promise<LlmResult<{ b64: string }>> {
+  const configResult = getProviderConfig();
+  if (!configResult.ok) return configResult;
+  const config = configResult.data;
+  const settings = getRouteSettings("mockup-image");
+
+  if (config.provider === "mock") {
+    return { ok: true, data: { b64: MOCK_IMAGE_B64 } };
+  }
+  if (config.provider === "replay") {
+    const replayed = await replayFixture({ kind: "image", route: "mockup-image", prompt, size });
+    if (!replayed.ok) return replayed;
+    if (!("b64" in replayed.data)) return { ok: false, error: "Recorded fixture for mockup-image is not an image." };
+    return { ok: true, data: { b64: replayed.data.b64 } };
+  }
+
+  const result = await postJson(
+    config,
+    endpointUrl(config, settings.model, "images/generations"),
+    { model: settings.model, prompt, n: 1, size, response_format: "b64_json" },
+    settings.timeoutMs
+  );
+  if (!result.ok) return result;
+
+  const data = result.data as { data?: { b64_json?: string; url?: string }[] };
+  const first = Array.isArray(data.data) ? data.data[0] : undefined;
+  let b64 = first?.b64_json;
+  if (!b64 && first?.url) {
+    const downloaded = await downloadImage(first.url, settings.timeoutMs);
+    if (!downloaded.ok) return downloaded;
+    b64 = downloaded.data;
+  }
+  if (!b64) {
+    console.error("Unexpected image response shape:", data);
+    return { ok: false, error: "Image response missing b64_json or url", status: 500 };
+  }
+  if (isRecordingFixtures()) {
+    await recordFixture(config, settings.model, { kind: "image", route: "mockup-image", prompt, size }, { b64 });
+  }
+  return { ok: true, data: { b64 } };
+}
+
+/** Fetch an image the provider returned as a link; only ever called with the provider's own response */
+async function downloadImage(url: string, timeoutMs: number): Promise<LlmResult<string>> {
+  try {
+    const res = await fetch(url, { signal: AbortSignal.timeout(timeoutMs) });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    return { ok: true, data: Buffer.from(await res.arrayBuffer()).toString("base64") };
+  } catch (e) {
+    console.error("[llm] could not download the generated image:", e);
+    return { ok: false, error: "Could not download the generated image. Try again.", status: 502 };
+  }
+}
+
+/** Parse a model reply as JSON, tolerating an optional markdown code fence around it. */
+export function parseJsonContent<T>(content: string): LlmResult<T> {
+  const raw = content.replace(/^```(?:json)?\s*|\s*```$/g, "").trim();
+  try {
+    return { ok: true, data: JSON.parse(raw) as T };
+  } catch {
+    return { ok: false, error: "Model response was not valid JSON. Try again." };
+  }
+}
+
+const JSON_ESCAPES: Record<string, string> = { '"': '"', "\\": "\\", "/": "/", b: "\b", f: "\f", n: "\n", r: "\r", t: "\t" };
+
+/** The string starting at `start` (just past its opening quote), possibly unterminated, and where it ends */
+function readPartialString(content: string, start: number): { value: string; end: number; closed: boolean } {
+  let value = "";
+  for (let i = start; i < content.length; i++) {
+    const ch = content[i];
+    if (ch === '"') return { value, end: i + 1, closed: true };
+    if (ch !== "\\") {
+      value += ch;
+      continue;
+    }
+    const next = content[i + 1];
+    if (next === undefined) break;
+    if (next === "u") {
+      const hex = content.slice(i + 2, i + 6);
+      if (!/^[0-9a-fA-F]{4}$/.test(hex)) break;
+      value += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+    } else {
+      value += JSON_ESCAPES[next] ?? next;
+      i += 1;
+    }
+  }
+  return { value, end: content.length, closed: false };
+}
+
+/**
+ * The text fields of a JSON object that is still arriving: finished values plus the unterminated tail of the one
+ * being written, with string arrays joined one item per line. Lets streaming routes show text before the reply
+ * can be parsed; the final parse stays authoritative.
+ */
+export function readPartialJsonStrings(content: string, keys: readonly string[]): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const key of keys) {
+    const start = content.match(new RegExp(`"${key}"\\s*:\\s*([\\["])`));
+    if (!start || start.index === undefined) continue;
+    let position = start.index + start[0].length;
+    if (start[1] === '"') {
+      fields[key] = readPartialString(content, position).value;
+      continue;
+    }
+    const items: string[] = [];
+    for (;;) {
+      const next = content.slice(position).match(/^\s*,?\s*(["\]])/);
+      if (!next || next[1] === "]") break;
+      const item = readPartialString(content, position + next[0].length);
+      items.push(item.value);
+      if (!item.closed) break;
+      position = item.end;
+    }
+    fields[key] = items.join("\n");
+  }
+  return fields;
+}
@@ -0,0 +1,231 @@
+import path from "node:path";
+
+/**
+ * LLM provider configuration, read from env at call time so .env.local edits apply after restart.
+ *
+ * LLM_PROVIDER selects the backend:
+ * - "openai" (default): OPENAI_API_KEY, optional OPENAI_BASE_URL (e.g. an internal gateway)
+ * - "azure": AZURE_OPENAI_ENDPOINT, AZURE_OPENAI_API_KEY, AZURE_OPENAI_API_VERSION, AZURE_OPENAI_DEPLOYMENT
+ * - "openai-compatible": LLM_BASE_URL (e.g. http://localhost:11434/v1 for Ollama), optional LLM_API_KEY
+ * - "mock": deterministic in-process responses, no network (tests / offline dev)
+ * - "replay": serves responses recorded with LLM_RECORD_FIXTURES=true from LLM_FIXTURES_DIR (default ./fixtures/llm),
+ *   matched by request fingerprint, so the full flow runs offline with real model output
+ *
+ * Per-route overrides: LLM_MODEL_<ROUTE>, LLM_TEMPERATURE_<ROUTE>, LLM_MAX_TOKENS_<ROUTE>, LLM_TIMEOUT_MS_<ROUTE>
+ * where <ROUTE> is the route id upper-cased with dashes as underscores (e.g. LLM_MODEL_EVALUATE_SECTION).
+ * LLM_MODEL sets the default model for every route.
+ *
+ * JSON replies are validated against each route's schema. LLM_STRUCTURED_OUTPUT picks how the schema is requested:
+ * "json_schema" (strict structured outputs; default for openai), "json_object" (JSON mode; default for azure, whose
+ * default API version predates structured outputs) or "none" (prompt only; default for openai-compatible servers).
+ * LLM_REPAIR_ATTEMPTS (default 1, max 3) is how often an invalid reply is sent back with its validation errors.
+ *
+ * Rate limits (429), server errors (5xx) and network failures are retried with exponential backoff and jitter:
+ * LLM_RETRY_MAX (default 2), LLM_RETRY_BASE_MS (default 500), LLM_RETRY_MAX_DELAY_MS (default 8000; a longer
+ * Retry-After is not waited out). After LLM_BREAKER_THRESHOLD (default 5) failed calls in a row the circuit breaker
+ * opens and calls fail fast for LLM_BREAKER_COOLDOWN_MS (default 30000) before a single trial call is let through.
+ *
+ * Validated evaluation and generation replies are cached by route, prompt version, model and normalized input:
+ * LLM_CACHE is "local" (default; stored under the data dir) or "off", LLM_CACHE_TTL_SECONDS defaults to 7 days.
+ */
+
+export type LlmProviderName = "openai" | "azure" | "openai-compatible" | "mock" | "replay";
+
+export type StructuredOutputMode = "json_schema" | "json_object" | "none";
+
+/** Logical callers of the provider; each gets its own model/temperature settings */
+export type LlmRoute =
+  | "evaluate-section"
+  | "follow-up-questions"
+  | "summary"
+  | "visual-concept"
+  | "conversation"
+  | "connection-check"
+  | "mockup-image";
+
+export interface LlmRouteSettings {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  timeoutMs: number;
+}
+
+export interface LlmRetryPolicy {
+  /** Retries after the first attempt */
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface LlmBreakerSettings {
+  /** Consecutive failed calls that open the breaker */
+  failureThreshold: number;
+  cooldownMs: number;
+}
+
+export type LlmCacheBackendName = "local" | "off";
+
+export interface LlmCacheSettings {
+  backend: LlmCacheBackendName;
+  ttlSeconds: number;
+}
+
+export interface LlmProviderConfig {
+  provider: LlmProviderName;
+  /** Base URL up to and including the API version segment, e.g. https://api.openai.com/v1 */
+  baseUrl: string;
+  apiKey: string;
+  /** Azure only */
+  apiVersion?: string;
+  /** Human-readable name used in error messages */
+  label: string;
+}
+
+const ROUTE_DEFAULTS: Record<LlmRoute, LlmRouteSettings> = {
+  "evaluate-section": { model: "gpt-4o-mini", temperature: 0.3, maxTokens: 500, timeoutMs: 20_000 },
+  "follow-up-questions": { model: "gpt-4o-mini", temperature: 0.4, maxTokens: 600, timeoutMs: 20_000 },
+  summary: { model: "gpt-4o-mini", temperature: 0.3, maxTokens: 800, timeoutMs: 25_000 },
+  "visual-concept": { model: "gpt-4o-mini", temperature: 0.4, maxTokens: 1000, timeoutMs: 30_000 },
+  conversation: { model: "gpt-4o-mini", temperature: 0.4, maxTokens: 900, timeoutMs: 25_000 },
+  "connection-check": { model: "gpt-4o-mini", temperature: 0, maxTokens: 1, timeoutMs: 10_000 },
+  "mockup-image": { model: "dall-e-2", temperature: 0, maxTokens: 0, timeoutMs: 60_000 },
+};
+
+const PROVIDERS: LlmProviderName[] = ["openai", "azure", "openai-compatible", "mock", "replay"];
+
+function env(name: string): string | undefined {
+  const value = process.env[name]?.trim();
+  return value ? value : undefined;
+}
+
+function envNumber(name: string): number | undefined {
+  const raw = env(name);
+  if (raw === undefined) return undefined;
+  const n = Number(raw);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+export function getProviderName(): LlmProviderName {
+  const configured = env("LLM_PROVIDER")?.toLowerCase();
+  return PROVIDERS.includes(configured as LlmProviderName) ? (configured as LlmProviderName) : "openai";
+}
+
+/** Resolve provider connection details, or an error describing what is missing. */
+export function getProviderConfig(): { ok: true; data: LlmProviderConfig } | { ok: false; error: string } {
+  const provider = getProviderName();
+  switch (provider) {
+    case "openai": {
+      const apiKey = env("OPENAI_API_KEY");
+      if (!apiKey) {
+        return { ok: false, error: "OPENAI_API_KEY is not set. Add it to .env.local and restart the server." };
+      }
+      const baseUrl = (env("OPENAI_BASE_URL") ?? "https://api.openai.com/v1").replace(/\/+$/, "");
+      return { ok: true, data: { provider, baseUrl, apiKey, label: "OpenAI" } };
+    }
+    case "azure": {
+      const endpoint = env("AZURE_OPENAI_ENDPOINT");
+      const apiKey = env("AZURE_OPENAI_API_KEY");
+      if (!endpoint || !apiKey) {
+        return {
+          ok: false,
+          error: "AZURE_OPENAI_ENDPOINT and AZURE_OPENAI_API_KEY must be set when LLM_PROVIDER=azure.",
+        };
+      }
+      return {
+        ok: true,
+        data: {
+          provider,
+          baseUrl: `${endpoint.replace(/\/+$/, "")}/openai/deployments`,
+          apiKey,
+          apiVersion: env("AZURE_OPENAI_API_VERSION") ?? "2024-06-01",
+          label: "Azure OpenAI",
+        },
+      };
+    }
+    case "openai-compatible": {
+      const baseUrl = env("LLM_BASE_URL");
+      if (!baseUrl) {
+        return { ok: false, error: "LLM_BASE_URL must be set when LLM_PROVIDER=openai-compatible." };
+      }
+      return {
+        ok: true,
+        data: { provider, baseUrl: baseUrl.replace(/\/+$/, ""), apiKey: env("LLM_API_KEY") ?? "", label: "Model server" },
+      };
+    }
+    case "mock":
+      return { ok: true, data: { provider, baseUrl: "mock://", apiKey: "", label: "Mock provider" } };
+    case "replay":
+      return { ok: true, data: { provider, baseUrl: "replay://", apiKey: "", label: "Recorded fixtures" } };
+  }
+}
+
+const STRUCTURED_OUTPUT_MODES: StructuredOutputMode[] = ["json_schema", "json_object", "none"];
+
+const DEFAULT_STRUCTURED_OUTPUT: Record<LlmProviderName, StructuredOutputMode> = {
+  openai: "json_schema",
+  azure: "json_object",
+  "openai-compatible": "none",
+  mock: "none",
+  replay: "none",
+};
+
+export function getStructuredOutputMode(provider: LlmProviderName): StructuredOutputMode {
+  const configured = env("LLM_STRUCTURED_OUTPUT")?.toLowerCase();
+  return STRUCTURED_OUTPUT_MODES.includes(configured as StructuredOutputMode)
+    ? (configured as StructuredOutputMode)
+    : DEFAULT_STRUCTURED_OUTPUT[provider];
+}
+
+/** Extra attempts after a reply fails validation */
+export function getRepairAttempts(): number {
+  return Math.min(3, Math.max(0, Math.floor(envNumber("LLM_REPAIR_ATTEMPTS") ?? 1)));
+}
+
+export function getRetryPolicy(): LlmRetryPolicy {
+  return {
+    maxRetries: Math.min(5, Math.max(0, Math.floor(envNumber("LLM_RETRY_MAX") ?? 2))),
+    baseDelayMs: Math.max(0, envNumber("LLM_RETRY_BASE_MS") ?? 500),
+    maxDelayMs: Math.max(0, envNumber("LLM_RETRY_MAX_DELAY_MS") ?? 8_000),
+  };
+}
+
+export function getBreakerSettings(): LlmBreakerSettings {
+  return {
+    failureThreshold: Math.max(1, Math.floor(envNumber("LLM_BREAKER_THRESHOLD") ?? 5)),
+    cooldownMs: Math.max(0, envNumber("LLM_BREAKER_COOLDOWN_MS") ?? 30_000),
+  };
+}
+
+export function getCacheSettings(): LlmCacheSettings {
+  return {
+    backend: env("LLM_CACHE")?.toLowerCase() === "off" ? "off" : "local",
+    ttlSeconds: Math.max(0, envNumber("LLM_CACHE_TTL_SECONDS") ?? 7 * 24 * 60 * 60),
+  };
+}
+
+/** Where recorded request/response fixtures are written and replayed from */
+export function getFixturesDir(): string {
+  const configured = env("LLM_FIXTURES_DIR");
+  return configured ? path.resolve(configured) : path.join(process.cwd(), "fixtures", "llm");
+}
+
+/** LLM_RECORD_FIXTURES=true: save every successful provider response as a fixture for the replay provider */
+export function isRecordingFixtures(): boolean {
+  return env("LLM_RECORD_FIXTURES")?.toLowerCase() === "true";
+}
+
+export function getRouteSettings(route: LlmRoute): LlmRouteSettings {
+  const defaults = ROUTE_DEFAULTS[route];
+  const suffix = route.toUpperCase().replace(/-/g, "_");
+  // LLM_MODEL / the Azure deployment name only apply to chat routes; images keep their own model
+  const sharedModel =
+    route === "mockup-image"
+      ? undefined
+      : env("LLM_MODEL") ?? (getProviderName() === "azure" ? env("AZURE_OPENAI_DEPLOYMENT") : undefined);
+  return {
+    model: env(`LLM_MODEL_${suffix}`) ?? sharedModel ?? defaults.model,
+    temperature: envNumber(`LLM_TEMPERATURE_${suffix}`) ?? defaults.temperature,
+    maxTokens: envNumber(`LLM_MAX_TOKENS_${suffix}`) ?? defaults.maxTokens,
+    timeoutMs: envNumber(`LLM_TIMEOUT_MS_${suffix}`) ?? defaults.timeoutMs,
+  };
+}
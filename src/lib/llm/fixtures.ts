@@ -0,0 +1,86 @@
+import { createHash } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { normalizeContent } from "@/lib/llm/cache";
+import type { ChatMessage, LlmResult } from "@/lib/llm/client";
+import { getFixturesDir, type LlmProviderConfig, type LlmRoute } from "@/lib/llm/config";
+
+/**
+ * Record-and-replay fixtures. With LLM_RECORD_FIXTURES=true every successful response from a real provider is saved
+ * under LLM_FIXTURES_DIR/<route>/<fingerprint>.json; LLM_PROVIDER=replay serves them back. The fingerprint covers
+ * what the request asks (route plus messages, or image prompt and size) but not the model or provider, so fixtures
+ * recorded against one backend replay under any model settings. Images are stored as base64, never as URLs.
+ */
+
+export type FixtureRequest =
+  | { kind: "chat"; route: LlmRoute; messages: ChatMessage[] }
+  | { kind: "image"; route: "mockup-image"; prompt: string; size: string };
+
+export type FixtureResponse = { content: string } | { b64: string };
+
+export interface LlmFixture {
+  fingerprint: string;
+  recordedAt: string;
+  /** Where it was recorded from, for reference only */
+  provider: string;
+  model: string;
+  request: FixtureRequest;
+  response: FixtureResponse;
+}
+
+export function fixtureFingerprint(request: FixtureRequest): string {
+  const canonical =
+    request.kind === "chat"
+      ? JSON.stringify([request.kind, request.route, request.messages.map((m) => [m.role, normalizeContent(m.content)])])
+      : JSON.stringify([request.kind, request.route, normalizeContent(request.prompt), request.size]);
+  return createHash("sha256").update(canonical).digest("hex");
+}
+
+function fixturePath(route: LlmRoute, fingerprint: string): string {
+  return path.join(getFixturesDir(), route, `${fingerprint}.json`);
+}
+
+/** Save a response; failures are logged and otherwise ignored so recording never breaks a request */
+export async function recordFixture(
+  config: LlmProviderConfig,
+  model: string,
+  request: FixtureRequest,
+  response: FixtureResponse
+): Promise<void> {
+  const fingerprint = fixtureFingerprint(request);
+  const fixture: LlmFixture = {
+    fingerprint,
+    recordedAt: new Date().toISOString(),
+    provider: config.provider,
+    model,
+    request,
+    response,
+  };
+  try {
+    const file = fixturePath(request.route, fingerprint);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, JSON.stringify(fixture, null, 2), "utf8");
+  } catch (e) {
+    console.error("[llm-fixtures] could not record fixture:", e);
+  }
+}
+
+/** The recorded response for `request`, or an error naming the fingerprint that has no fixture */
+export async function replayFixture(request: FixtureRequest): Promise<LlmResult<FixtureResponse>> {
+  const fingerprint = fixtureFingerprint(request);
+  const file = fixturePath(request.route, fingerprint);
+  try {
+    const fixture = JSON.parse(await fs.readFile(file, "utf8")) as LlmFixture;
+    return { ok: true, data: fixture.response };
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error(`[llm-fixtures] unreadable fixture ${file}:`, e);
+      return { ok: false, error: `Recorded fixture for ${request.route} is unreadable. Record it again.` };
+    }
+    console.error(`[llm-fixtures] no fixture for ${request.route} (${fingerprint})`);
+    return {
+      ok: false,
+      error: `No recorded response for this ${request.route} request. Record one with LLM_RECORD_FIXTURES=true and a real provider.`,
+    };
+  }
+}
@@ -0,0 +1,42 @@
+export {
+  chatCompletion,
+  chatCompletionJson,
+  chatCompletionStream,
+  generateImage,
+  parseJsonContent,
+  readPartialJsonStrings,
+  type ChatMessage,
+  type CompletionOptions,
+  type JsonCompletionOptions,
+  type LlmResult,
+  type PartialFieldsHandler,
+} from "@/lib/llm/client";
+export {
+  getBreakerSettings,
+  getCacheSettings,
+  getFixturesDir,
+  getProviderConfig,
+  getProviderName,
+  getRepairAttempts,
+  getRetryPolicy,
+  getRouteSettings,
+  getStructuredOutputMode,
+  isRecordingFixtures,
+  type LlmBreakerSettings,
+  type LlmCacheBackendName,
+  type LlmCacheSettings,
+  type LlmProviderName,
+  type LlmRetryPolicy,
+  type LlmRoute,
+  type LlmRouteSettings,
+  type StructuredOutputMode,
+} from "@/lib/llm/config";
+export { getLlmHealth, type BreakerState, type LlmHealth } from "@/lib/llm/resilience";
+export {
+  defineResponseSchema,
+  toWireSchema,
+  validateSchema,
+  type JsonSchema,
+  type ObjectSchema,
+  type ResponseSchema,
+} from "@/lib/llm/schema";
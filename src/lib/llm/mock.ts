@@ -0,0 +1,95 @@
+import type { LlmRoute } from "@/lib/llm/config";
+import type { ChatMessage } from "@/lib/llm/client";
+
+/**
+ * Deterministic in-process stand-in for a model (LLM_PROVIDER=mock).
+ * Same input always yields the same output, so flows and tests run offline and repeatably.
+ */
+
+/** 1×1 grey PNG, enough for the mockup step to render something */
+export const MOCK_IMAGE_B64 =
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=";
+
+function hash(text: string): number {
+  let h = 0;
+  for (let i = 0; i < text.length; i++) h = (h * 31 + text.charCodeAt(i)) >>> 0;
+  return h;
+}
+
+/** Value after "Label:" in the user message, up to the next blank line */
+function field(text: string, label: string): string {
+  const match = text.match(new RegExp(`${label}:[ \\t]*([\\s\\S]*?)(?:\\n\\n|$)`, "i"));
+  return match?.[1]?.trim() ?? "";
+}
+
+function firstSentence(text: string, fallback: string): string {
+  const sentence = text.split(/(?<=[.!?])\s|\n/)[0]?.trim();
+  return sentence ? sentence.slice(0, 200) : fallback;
+}
+
+export function mockChatCompletion(route: LlmRoute, messages: ChatMessage[]): string {
+  // The original request, also when a repair attempt follows up on it
+  const user = messages.find((m) => m.role === "user")?.content ?? "";
+
+  switch (route) {
+    case "evaluate-section": {
+      const section = field(user, "Section") || "Section";
+      const response = user.split(/User response:\s*/i)[1]?.trim() ?? "";
+      const flags: string[] = [];
+      if (response.length < 40) flags.push("Incomplete Answer");
+      if (!/\d/.test(response)) flags.push("Missing Metrics");
+      return JSON.stringify({
+        feedback: `(mock) Thanks for the ${section} details — ${response.length} characters reviewed.`,
+        suggestedImprovements: flags.length > 0 ? ["Add specifics and a measurable outcome."] : [],
+        riskDelta: (hash(response) % 11) - 2 + flags.length * 3,
+        riskReason: flags.length > 0 ? `(mock) ${flags.join(" and ")} add risk.` : "(mock) Answer looks complete.",
+        flags,
+      });
+    }
+    case "follow-up-questions": {
+      const basics = firstSentence(field(user, "Basics / project"), "your project");
+      return JSON.stringify({
+        intro: `(mock) You mentioned: ${basics}`,
+        questions: [
+          "What technical limitations should the design account for?",
+          "Which teams or systems does this depend on?",
+          "Is this a UX overhaul, workflow redesign, data integration layer, or all of the above?",
+        ],
+      });
+    }
+    case "summary":
+      return JSON.stringify({
+        problem: firstSentence(field(user, "Problem Framing") || field(user, "Opening / how can I help"), "—"),
+        desiredOutcome: firstSentence(field(user, "Objectives & Business Impact") || field(user, "Objectives and Outcomes"), "—"),
+        usersImpacted: "(mock) Requesting team and their end users",
+        businessValue: "(mock) Reduced friction in the current workflow",
+        constraints: firstSentence(field(user, "Constraints & Considerations"), "—"),
+      });
+    case "visual-concept":
+      return JSON.stringify({
+        experienceGoal: `(mock) ${firstSentence(field(user, "Desired Outcome"), "Deliver the desired outcome")}`,
+        suggestedLayout: "(mock) Summary panel, primary task area, contextual side panel",
+        keyElements: ["(mock) Status overview", "Guided form", "Activity history"],
+        interactionModel: "(mock) Linear flow with the ability to revisit earlier steps",
+        designConsiderations: `(mock) ${firstSentence(field(user, "Constraints"), "Accessibility and permissions")}`,
+      });
+    case "conversation": {
+      const missing = field(user, "Still missing").split(/,\s*/).filter(Boolean);
+      const latest = field(user, "Latest message");
+      const [current, next] = missing;
+      return JSON.stringify({
+        fields: Object.fromEntries(
+          ["problem", "desiredOutcome", "usersImpacted", "businessValue", "constraints"].map((key) => [
+            key,
+            key === current ? `(mock) ${firstSentence(latest, "—")}` : null,
+          ])
+        ),
+        flags: current === "desiredOutcome" && !/\d/.test(latest) ? ["Missing Metrics"] : [],
+        reply: next ? `(mock) Got it. Next, tell me about ${next}.` : "(mock) Thanks, that covers everything.",
+      });
+    }
+    case "connection-check":
+    case "mockup-image":
+      return "ok";
+  }
+}
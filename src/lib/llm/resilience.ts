@@ -0,0 +1,207 @@
+import { getBreakerSettings, getRetryPolicy } from "@/lib/llm/config";
+import type { LlmResult } from "@/lib/llm/client";
+
+/**
+ * Retry with backoff and a circuit breaker shared by every provider call in this process. A call is one logical
+ * request (its retries included); only upstream trouble — rate limits, 5xx, network errors and timeouts — counts
+ * against the breaker, so a bad key or request is reported as is rather than tripping it.
+ */
+
+/** One HTTP attempt; `retryable` failures are tried again, honouring `retryAfterMs` from the response */
+export type AttemptResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; error: string; status?: number; retryable: boolean; retryAfterMs?: number };
+
+export type BreakerState = "closed" | "open" | "half-open";
+
+export interface LlmHealth {
+  breaker: {
+    state: BreakerState;
+    consecutiveFailures: number;
+    failureThreshold: number;
+    openedAt?: string;
+    /** When the next trial call is allowed through while open */
+    retryAt?: string;
+  };
+  recent: {
+    windowSeconds: number;
+    calls: number;
+    failures: number;
+    /** failures / calls, 0 when there were no calls */
+    errorRate: number;
+    retries: number;
+    /** Calls answered by the open breaker without reaching the provider */
+    shortCircuited: number;
+    /** Failed calls by HTTP status, "network" for failures without one */
+    failuresByStatus: Record<string, number>;
+    lastError?: { at: string; error: string; status?: number };
+  };
+}
+
+interface CallRecord {
+  at: number;
+  ok: boolean;
+  retries: number;
+  shortCircuited?: boolean;
+  status?: number;
+  error?: string;
+}
+
+const HEALTH_WINDOW_MS = 5 * 60_000;
+const MAX_CALL_RECORDS = 500;
+
+interface ResilienceState {
+  consecutiveFailures: number;
+  openedAt: number | null;
+  trialInFlight: boolean;
+  calls: CallRecord[];
+}
+
+// Kept on globalThis so every route bundle (and dev recompiles) share one breaker per process
+const globalForLlm = globalThis as typeof globalThis & { llmResilience?: ResilienceState };
+const state: ResilienceState = (globalForLlm.llmResilience ??= {
+  consecutiveFailures: 0,
+  openedAt: null,
+  trialInFlight: false,
+  calls: [],
+});
+
+function remember(record: CallRecord) {
+  state.calls.push(record);
+  const cutoff = Date.now() - HEALTH_WINDOW_MS;
+  while (state.calls.length > 0 && (state.calls.length > MAX_CALL_RECORDS || state.calls[0].at < cutoff)) state.calls.shift();
+}
+
+function breakerState(now = Date.now()): BreakerState {
+  if (state.openedAt === null) return "closed";
+  return now - state.openedAt >= getBreakerSettings().cooldownMs ? "half-open" : "open";
+}
+
+/** Failures that say the provider is struggling, as opposed to a problem with our key or request */
+function isUpstreamFailure(status: number | undefined): boolean {
+  return status === undefined || status === 429 || status >= 500;
+}
+
+function recordSuccess(retries: number) {
+  state.consecutiveFailures = 0;
+  state.openedAt = null;
+  remember({ at: Date.now(), ok: true, retries });
+}
+
+function recordFailure(error: string, status: number | undefined, retries: number) {
+  remember({ at: Date.now(), ok: false, retries, status, error });
+  if (!isUpstreamFailure(status)) return;
+  state.consecutiveFailures++;
+  const { failureThreshold } = getBreakerSettings();
+  // A failed trial re-opens straight away; otherwise open once the threshold is reached
+  if (state.openedAt !== null || state.consecutiveFailures >= failureThreshold) {
+    if (state.openedAt === null) console.error(`[llm] circuit breaker opened after ${state.consecutiveFailures} failed calls:`, error);
+    state.openedAt = Date.now();
+  }
+}
+
+/** For failures after a call already succeeded, e.g. a stream that stalls partway through */
+export function recordLlmFailure(error: string, status?: number) {
+  recordFailure(error, status, 0);
+}
+
+/** Retry-After (seconds or an HTTP date) or OpenAI's retry-after-ms, in milliseconds */
+export function parseRetryAfter(headers: Headers): number | undefined {
+  const ms = Number(headers.get("retry-after-ms"));
+  if (headers.has("retry-after-ms") && Number.isFinite(ms) && ms >= 0) return ms;
+  const value = headers.get("retry-after")?.trim();
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/** Exponential backoff with jitter: a random delay in the upper half of base * 2^(retry - 1), capped */
+function backoffDelay(retry: number, baseDelayMs: number, maxDelayMs: number): number {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (retry - 1));
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+}
+
+/**
+ * Run `attempt` under the breaker, retrying retryable failures per getRetryPolicy(). While the breaker is open
+ * the call fails fast with status 503 so callers drop to their offline output without waiting on the provider.
+ */
+export async function callWithRetry<T>(label: string, attempt: () => Promise<AttemptResult<T>>): Promise<LlmResult<T>> {
+  const breaker = breakerState();
+  if (breaker === "open" || (breaker === "half-open" && state.trialInFlight)) {
+    remember({ at: Date.now(), ok: false, retries: 0, shortCircuited: true });
+    const waitSeconds = Math.max(1, Math.ceil(((state.openedAt ?? 0) + getBreakerSettings().cooldownMs - Date.now()) / 1000));
+    return {
+      ok: false,
+      error: `${label} is unavailable after repeated failures; skipping calls for about ${waitSeconds}s.`,
+      status: 503,
+    };
+  }
+
+  const isTrial = breaker === "half-open";
+  if (isTrial) state.trialInFlight = true;
+  try {
+    // A trial call gets one attempt: it only has to show whether the provider has recovered
+    const { maxRetries, baseDelayMs, maxDelayMs } = getRetryPolicy();
+    const retriesAllowed = isTrial ? 0 : maxRetries;
+    for (let retries = 0; ; retries++) {
+      const result = await attempt();
+      if (result.ok) {
+        recordSuccess(retries);
+        return result;
+      }
+      const delay = result.retryAfterMs ?? backoffDelay(retries + 1, baseDelayMs, maxDelayMs);
+      if (!result.retryable || retries >= retriesAllowed || delay > maxDelayMs) {
+        recordFailure(result.error, result.status, retries);
+        return { ok: false, error: result.error, ...(result.status !== undefined && { status: result.status }) };
+      }
+      console.error(`[llm] ${label} call failed (${result.status ?? "network"}), retrying in ${Math.round(delay)}ms`);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  } finally {
+    if (isTrial) state.trialInFlight = false;
+  }
+}
+
+/** Breaker state and the last few minutes of calls, for /api/openai-check */
+export function getLlmHealth(): LlmHealth {
+  const now = Date.now();
+  const recent = state.calls.filter((c) => c.at >= now - HEALTH_WINDOW_MS);
+  const attempted = recent.filter((c) => !c.shortCircuited);
+  const failed = attempted.filter((c) => !c.ok);
+  const failuresByStatus: Record<string, number> = {};
+  for (const c of failed) {
+    const key = c.status === undefined ? "network" : String(c.status);
+    failuresByStatus[key] = (failuresByStatus[key] ?? 0) + 1;
+  }
+  const last = failed[failed.length - 1];
+  const { failureThreshold, cooldownMs } = getBreakerSettings();
+  return {
+    breaker: {
+      state: breakerState(now),
+      consecutiveFailures: state.consecutiveFailures,
+      failureThreshold,
+      ...(state.openedAt !== null && {
+        openedAt: new Date(state.openedAt).toISOString(),
+        retryAt: new Date(state.openedAt + cooldownMs).toISOString(),
+      }),
+    },
+    recent: {
+      windowSeconds: HEALTH_WINDOW_MS / 1000,
+      calls: attempted.length,
+      failures: failed.length,
+      errorRate: attempted.length ? Math.round((failed.length / attempted.length) * 1000) / 1000 : 0,
+      retries: attempted.reduce((sum, c) => sum + c.retries, 0),
+      shortCircuited: recent.length - attempted.length,
+      failuresByStatus,
+      ...(last && {
+        lastError: {
+          at: new Date(last.at).toISOString(),
+          error: last.error ?? "",
+          ...(last.status !== undefined && { status: last.status }),
+        },
+      }),
+    },
+  };
+}
@@ -0,0 +1,98 @@
+/**
+ * Response schemas for model replies: a small JSON Schema subset that is both sent to providers with a
+ * structured-output mode and checked locally, so a reply that slips through (or a provider without that mode)
+ * is caught and repaired instead of being patched with placeholders field by field.
+ */
+
+export type JsonSchema =
+  | { type: "string"; description?: string; enum?: readonly string[]; nullable?: boolean }
+  | { type: "number" | "integer"; description?: string; nullable?: boolean }
+  | { type: "boolean"; description?: string; nullable?: boolean }
+  | { type: "array"; items: JsonSchema; description?: string; minItems?: number; maxItems?: number; nullable?: boolean }
+  | ObjectSchema;
+
+export interface ObjectSchema {
+  type: "object";
+  description?: string;
+  /** Every property is required, as strict structured outputs demand; use `nullable` for optional values */
+  properties: Record<string, JsonSchema>;
+  nullable?: boolean;
+}
+
+/** A named reply schema; `T` is the TypeScript shape a reply that passes validation has */
+export interface ResponseSchema<T> {
+  name: string;
+  schema: ObjectSchema;
+  /** Type-level only */
+  readonly _type?: T;
+}
+
+export function defineResponseSchema<T>(name: string, schema: ObjectSchema): ResponseSchema<T> {
+  return { name, schema };
+}
+
+/**
+ * The wire form providers accept in strict mode: all properties required, no extra properties, nullable as a
+ * type union. Length limits are left to local validation since not every provider supports them.
+ */
+export function toWireSchema(schema: JsonSchema): Record<string, unknown> {
+  const { nullable, description } = schema;
+  const type = nullable ? [schema.type, "null"] : schema.type;
+  const wire: Record<string, unknown> = { type };
+  if (description) wire.description = description;
+  switch (schema.type) {
+    case "string":
+      if (schema.enum) wire.enum = nullable ? [...schema.enum, null] : [...schema.enum];
+      break;
+    case "array":
+      wire.items = toWireSchema(schema.items);
+      break;
+    case "object":
+      wire.properties = Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toWireSchema(value)]));
+      wire.required = Object.keys(schema.properties);
+      wire.additionalProperties = false;
+      break;
+  }
+  return wire;
+}
+
+/** Every way `value` departs from `schema`, as "path: problem" lines; empty when it conforms. Extra properties are ignored. */
+export function validateSchema(schema: JsonSchema, value: unknown, path = "$"): string[] {
+  if (value === null || value === undefined) {
+    return schema.nullable && value === null ? [] : [`${path}: required ${schema.type} is missing`];
+  }
+  switch (schema.type) {
+    case "string":
+      if (typeof value !== "string") return [`${path}: expected a string`];
+      if (schema.enum && !schema.enum.includes(value)) return [`${path}: must be one of ${schema.enum.join(", ")}`];
+      return [];
+    case "number":
+    case "integer":
+      if (typeof value !== "number" || !Number.isFinite(value)) return [`${path}: expected a number`];
+      if (schema.type === "integer" && !Number.isInteger(value)) return [`${path}: expected a whole number`];
+      return [];
+    case "boolean":
+      return typeof value === "boolean" ? [] : [`${path}: expected true or false`];
+    case "array": {
+      if (!Array.isArray(value)) return [`${path}: expected an array`];
+      const errors: string[] = [];
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        errors.push(`${path}: needs at least ${schema.minItems} items`);
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        errors.push(`${path}: allows at most ${schema.maxItems} items`);
+      }
+      value.forEach((item, i) => errors.push(...validateSchema(schema.items, item, `${path}[${i}]`)));
+      return errors;
+    }
+    case "object": {
+      if (typeof value !== "object" || Array.isArray(value)) return [`${path}: expected an object`];
+      const record = value as Record<string, unknown>;
+      const errors: string[] = [];
+      for (const [key, propertySchema] of Object.entries(schema.properties)) {
+        errors.push(...validateSchema(propertySchema, record[key], `${path}.${key}`));
+      }
+      return errors;
+    }
+  }
+}
@@ -0,0 +1,131 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import type { PromptRef } from "@/app/types";
+
+/**
+ * Versioned prompt registry. Prompts live in config/prompts.json (override with INTAKE_PROMPTS) and are read on
+ * every call, so edits apply without a deploy. Each prompt keeps its versions side by side; `active` picks one,
+ * and LLM_PROMPT_VERSION_<ID> (e.g. LLM_PROMPT_VERSION_EVALUATE_SECTION=2) overrides it for one environment when
+ * comparing versions. Results carry the PromptRef that produced them.
+ */
+
+export const PROMPT_IDS = [
+  "evaluate-section",
+  "follow-up-questions",
+  "summary",
+  "visual-concept",
+  "conversation",
+  "mockup-image",
+] as const;
+
+export type PromptId = (typeof PROMPT_IDS)[number];
+
+/** `{{name}}` placeholders each prompt may use; anything else is rejected when the registry is loaded */
+const PROMPT_VARIABLES: Record<PromptId, readonly string[]> = {
+  "evaluate-section": [],
+  "follow-up-questions": ["nextStep", "topics"],
+  summary: [],
+  "visual-concept": [],
+  conversation: ["riskFlags"],
+  "mockup-image": ["intent", "objectives"],
+};
+
+export interface PromptVersion {
+  /** A string, or lines joined with "\n" so long prompts stay readable in JSON */
+  template: string | string[];
+  notes?: string;
+}
+
+export interface PromptRegistry {
+  /** Version used for each prompt unless LLM_PROMPT_VERSION_<ID> says otherwise */
+  active: Record<PromptId, string>;
+  prompts: Record<PromptId, { description?: string; versions: Record<string, PromptVersion> }>;
+}
+
+export interface ResolvedPrompt {
+  ref: PromptRef;
+  text: string;
+}
+
+export function getPromptsPath(): string {
+  const configured = process.env.INTAKE_PROMPTS?.trim();
+  return configured ? path.resolve(configured) : path.join(process.cwd(), "config", "prompts.json");
+}
+
+function templateText(version: PromptVersion): string {
+  return Array.isArray(version.template) ? version.template.join("\n") : version.template;
+}
+
+function validateVersion(id: PromptId, version: string, raw: unknown): string | null {
+  const where = `prompts.${id}.versions.${version}`;
+  const v = raw as PromptVersion | null;
+  if (!v || typeof v !== "object") return `${where} must be an object`;
+  const isLines = Array.isArray(v.template) && v.template.every((line) => typeof line === "string");
+  if (!(typeof v.template === "string" || isLines)) return `${where}.template must be a string or a list of lines`;
+  const text = templateText(v);
+  if (!text.trim()) return `${where}.template is empty`;
+  for (const [, name] of Array.from(text.matchAll(/\{\{\s*(\w+)\s*\}\}/g))) {
+    if (!PROMPT_VARIABLES[id].includes(name)) {
+      const allowed = PROMPT_VARIABLES[id];
+      return `${where} uses {{${name}}}; ${allowed.length ? `allowed: ${allowed.join(", ")}` : "this prompt takes no variables"}`;
+    }
+  }
+  return null;
+}
+
+export function validatePromptRegistry(raw: unknown): { ok: true; data: PromptRegistry } | { ok: false; error: string } {
+  const d = raw as Partial<PromptRegistry> | null;
+  if (!d || typeof d !== "object") return { ok: false, error: "Prompt registry must be a JSON object" };
+  if (!d.prompts || typeof d.prompts !== "object") return { ok: false, error: "prompts must be an object" };
+  const active = (d.active ?? {}) as Partial<Record<PromptId, unknown>>;
+  for (const id of PROMPT_IDS) {
+    const prompt = d.prompts[id];
+    if (!prompt || typeof prompt !== "object" || !prompt.versions || typeof prompt.versions !== "object") {
+      return { ok: false, error: `prompts.${id} must have a versions object` };
+    }
+    const versions = Object.keys(prompt.versions);
+    if (versions.length === 0) return { ok: false, error: `prompts.${id} has no versions` };
+    for (const version of versions) {
+      const error = validateVersion(id, version, prompt.versions[version]);
+      if (error) return { ok: false, error };
+    }
+    if (typeof active[id] !== "string" || !versions.includes(active[id] as string)) {
+      return { ok: false, error: `active.${id} must name one of its versions (${versions.join(", ")})` };
+    }
+  }
+  return { ok: true, data: { active: active as Record<PromptId, string>, prompts: d.prompts as PromptRegistry["prompts"] } };
+}
+
+export async function loadPromptRegistry(): Promise<PromptRegistry> {
+  const file = getPromptsPath();
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await fs.readFile(file, "utf8"));
+  } catch (e) {
+    throw new Error(`Could not read prompts at ${file}: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  const result = validatePromptRegistry(raw);
+  if (!result.ok) throw new Error(`Invalid prompt registry (${file}): ${result.error}`);
+  return result.data;
+}
+
+/** The version this environment uses: LLM_PROMPT_VERSION_<ID> when set, else the registry's active one */
+export function selectedVersion(registry: PromptRegistry, id: PromptId): string {
+  const override = process.env[`LLM_PROMPT_VERSION_${id.toUpperCase().replace(/-/g, "_")}`]?.trim();
+  if (!override) return registry.active[id];
+  if (!registry.prompts[id].versions[override]) {
+    throw new Error(`LLM_PROMPT_VERSION for ${id} is "${override}", which is not a version in the prompt registry`);
+  }
+  return override;
+}
+
+/** Load the selected version of a prompt and fill in its `{{variables}}` */
+export async function resolvePrompt(id: PromptId, variables: Record<string, string> = {}): Promise<ResolvedPrompt> {
+  const registry = await loadPromptRegistry();
+  const version = selectedVersion(registry, id);
+  const text = templateText(registry.prompts[id].versions[version]).replace(
+    /\{\{\s*(\w+)\s*\}\}/g,
+    (_, name: string) => variables[name] ?? ""
+  );
+  return { ref: { id, version }, text };
+}
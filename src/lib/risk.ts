@@ -0,0 +1,103 @@
+import type { CoachingFeedback, RecommendedAction, RiskContribution, RiskFlag, SectionFeedback } from "@/app/types";
+
+/** Scores at or above this need a strategic review */
+export const STRATEGIC_REVIEW_THRESHOLD = 70;
+/** Scores at or above this (or any flag) need a clarification call */
+export const CLARIFICATION_THRESHOLD = 45;
+
+/** The recommended action and the threshold or flag that decided it */
+export function explainRecommendedAction(
+  riskScore: number,
+  flags: RiskFlag[]
+): { action: RecommendedAction; reason: string } {
+  if (flags.some((f) => f === "Strategic Misalignment")) {
+    return { action: "Strategic Review Required", reason: "The Strategic Misalignment flag was raised." };
+  }
+  if (riskScore >= STRATEGIC_REVIEW_THRESHOLD) {
+    return {
+      action: "Strategic Review Required",
+      reason: `Risk score ${riskScore} is at or above the strategic review threshold of ${STRATEGIC_REVIEW_THRESHOLD}.`,
+    };
+  }
+  if (flags.length > 0) {
+    return { action: "Clarification Call Recommended", reason: `Flags were raised: ${flags.join(", ")}.` };
+  }
+  if (riskScore >= CLARIFICATION_THRESHOLD) {
+    return {
+      action: "Clarification Call Recommended",
+      reason: `Risk score ${riskScore} is at or above the clarification threshold of ${CLARIFICATION_THRESHOLD}.`,
+    };
+  }
+  return {
+    action: "Backlog Ready",
+    reason: `Risk score ${riskScore} is below ${CLARIFICATION_THRESHOLD} and no flags were raised.`,
+  };
+}
+
+export function getRecommendedAction(riskScore: number, flags: RiskFlag[]): RecommendedAction {
+  return explainRecommendedAction(riskScore, flags).action;
+}
+
+/** True for evaluations that carry their risk fields (reviewers' copies); requesters only get the coaching */
+export function hasRiskDetails(feedback: CoachingFeedback): feedback is CoachingFeedback & SectionFeedback {
+  return typeof feedback.riskDelta === "number" && Array.isArray(feedback.flags);
+}
+
+/**
+ * Risk score and flags from the latest evaluation of each section. Re-evaluating a section
+ * replaces its contribution, so edits never double count and fixed issues drop their flags.
+ */
+export function deriveRisk(feedbacks: SectionFeedback[]): { riskScore: number; flags: RiskFlag[] } {
+  const total = feedbacks.reduce((sum, f) => sum + f.riskDelta, 0);
+  const flags: RiskFlag[] = [];
+  feedbacks.forEach((f) =>
+    f.flags.forEach((flag) => {
+      if (!flags.includes(flag)) flags.push(flag);
+    })
+  );
+  return { riskScore: Math.min(100, Math.max(0, total)), flags };
+}
+
+export interface RiskBreakdown {
+  contributions: RiskContribution[];
+  /** Sum of the section deltas before clamping to 0–100 */
+  total: number;
+  riskScore: number;
+  flags: RiskFlag[];
+  recommendedAction: RecommendedAction;
+  actionReason: string;
+}
+
+/** Contributions recorded on a feedback, or a single entry for feedback stored before they were */
+function contributionsOf(f: SectionFeedback): RiskContribution[] {
+  if (f.contributions && f.contributions.length > 0) return f.contributions;
+  return [
+    {
+      section: f.section,
+      kind: f.source === "openai" ? "llm" : "rule",
+      delta: f.riskDelta,
+      reason: f.feedback,
+      flags: f.flags,
+      source: f.source ?? "placeholder",
+    },
+  ];
+}
+
+/** Everything behind the score and recommended action, for reviewers asking "why is this 62?" */
+export function explainRisk(feedbacks: SectionFeedback[]): RiskBreakdown {
+  const { riskScore, flags } = deriveRisk(feedbacks);
+  const { action, reason } = explainRecommendedAction(riskScore, flags);
+  return {
+    contributions: feedbacks.flatMap(contributionsOf),
+    total: feedbacks.reduce((sum, f) => sum + f.riskDelta, 0),
+    riskScore,
+    flags,
+    recommendedAction: action,
+    actionReason: reason,
+  };
+}
+
+/** "+5", "-3", "+0" */
+export function formatRiskDelta(delta: number): string {
+  return delta < 0 ? String(delta) : `+${delta}`;
+}
@@ -0,0 +1,154 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import { scoreWithRules, validateScoringRules, type ScoringRule, type ScoringRuleSet } from "@/lib/scoringRules";
+
+function ruleSet(rules: ScoringRule[], maxRiskDelta = 20): ScoringRuleSet {
+  return {
+    version: 1,
+    maxRiskDelta,
+    fallbackFeedback: "Fallback feedback.",
+    fallbackSuggestion: "Fallback suggestion.",
+    rules,
+  };
+}
+
+const section = { section: "objectives", role: "objectives" as const };
+
+describe("scoreWithRules", () => {
+  it("matches keywords case-insensitively", () => {
+    const rules = ruleSet([{ id: "metrics", when: { keywords: ["KPI", "conversion"] }, feedback: "Has a metric." }]);
+    expect(scoreWithRules(rules, { ...section, input: "Lift Conversion by 5%" }).feedback).toBe("Has a metric.");
+    expect(scoreWithRules(rules, { ...section, input: "Make it nicer" }).feedback).toBe("Fallback feedback.");
+  });
+
+  it("combines regex, length bounds and not/all/any", () => {
+    const rules = ruleSet([
+      {
+        id: "vague",
+        when: {
+          all: [{ maxLength: 40 }, { any: [{ regex: "\\bbetter\\b" }, { keywords: ["improve"] }] }],
+          not: { regex: "\\d" },
+        },
+        flag: "Missing Metrics",
+        riskDelta: 5,
+      },
+    ]);
+    expect(scoreWithRules(rules, { ...section, input: "Make onboarding better" }).flags).toEqual(["Missing Metrics"]);
+    expect(scoreWithRules(rules, { ...section, input: "Make onboarding 20% better" }).flags).toEqual([]);
+    expect(scoreWithRules(rules, { ...section, input: `Improve ${"onboarding ".repeat(10)}` }).flags).toEqual([]);
+  });
+
+  it("searches document excerpts only for matchers that ask for them", () => {
+    const input = { ...section, input: "See the brief", documentContext: "Target: 30% fewer support tickets" };
+    const withDocs = ruleSet([{ id: "docs", when: { keywords: ["support tickets"], includeDocuments: true }, riskDelta: -5 }]);
+    const answerOnly = ruleSet([{ id: "answer", when: { keywords: ["support tickets"] }, riskDelta: -5 }]);
+    expect(scoreWithRules(withDocs, input).riskDelta).toBe(-5);
+    expect(scoreWithRules(answerOnly, input).riskDelta).toBe(0);
+  });
+
+  it("scopes rules by section, role and except, and skips the opening by default", () => {
+    const rules = ruleSet([
+      { id: "everywhere", riskDelta: 1 },
+      { id: "by-role", appliesTo: ["role:objectives"], riskDelta: 2 },
+      { id: "opening", appliesTo: ["Opening"], riskDelta: 4 },
+      { id: "not-here", except: ["objectives"], riskDelta: 8 },
+    ]);
+    expect(scoreWithRules(rules, { ...section, input: "x" }).riskDelta).toBe(3);
+    expect(scoreWithRules(rules, { section: "Opening", input: "x" }).riskDelta).toBe(4);
+    expect(scoreWithRules(rules, { section: "constraints", input: "x" }).riskDelta).toBe(9);
+  });
+
+  it("stops at a rule marked stop", () => {
+    const rules = ruleSet([
+      { id: "empty", when: { maxLength: 0 }, flag: "Incomplete Answer", riskDelta: 10, stop: true },
+      { id: "short", when: { maxLength: 20 }, riskDelta: 5 },
+    ]);
+    const result = scoreWithRules(rules, { ...section, input: "   " });
+    expect(result.riskDelta).toBe(10);
+    expect(result.contributions?.map((c) => c.ruleId)).toEqual(["empty"]);
+  });
+
+  it("caps the section total and records the cap as a contribution", () => {
+    const rules = ruleSet(
+      [
+        { id: "a", riskDelta: 8, flag: "Solution Bias" },
+        { id: "b", riskDelta: 8, flag: "Solution Bias" },
+      ],
+      10
+    );
+    const result = scoreWithRules(rules, { ...section, input: "Add a button" });
+    expect(result.riskDelta).toBe(10);
+    expect(result.flags).toEqual(["Solution Bias"]);
+    expect(result.contributions?.at(-1)).toMatchObject({ ruleId: "maxRiskDelta", delta: -6 });
+    const total = result.contributions?.reduce((sum, c) => sum + c.delta, 0);
+    expect(total).toBe(result.riskDelta);
+  });
+
+  it("does not cap negative totals and only records rules that change the score", () => {
+    const rules = ruleSet([
+      { id: "clear", riskDelta: -15, feedback: "Clear outcome." },
+      { id: "note", feedback: "Nice detail.", suggestion: "Add a baseline." },
+    ]);
+    const result = scoreWithRules(rules, { ...section, input: "Cut churn from 8% to 5%" });
+    expect(result.riskDelta).toBe(-15);
+    expect(result.feedback).toBe("Clear outcome. Nice detail.");
+    expect(result.suggestedImprovements).toEqual(["Add a baseline."]);
+    expect(result.contributions?.map((c) => c.ruleId)).toEqual(["clear"]);
+  });
+
+  it("falls back when nothing fires, without a suggestion for the opening", () => {
+    const rules = ruleSet([{ id: "never", when: { keywords: ["zzz"] }, riskDelta: 5 }]);
+    expect(scoreWithRules(rules, { ...section, input: "Anything" })).toMatchObject({
+      feedback: "Fallback feedback.",
+      suggestedImprovements: ["Fallback suggestion."],
+      riskDelta: 0,
+      flags: [],
+      source: "placeholder",
+    });
+    expect(scoreWithRules(rules, { section: "Opening", input: "Anything" }).suggestedImprovements).toEqual([]);
+  });
+});
+
+describe("validateScoringRules", () => {
+  it("accepts the shipped rule file", () => {
+    const raw = JSON.parse(readFileSync(path.join(__dirname, "../../config/scoring-rules.json"), "utf8"));
+    expect(validateScoringRules(raw).ok).toBe(true);
+  });
+
+  it("fills in defaults and normalizes stop", () => {
+    const result = validateScoringRules({ rules: [{ id: "a" }] });
+    expect(result).toEqual({
+      ok: true,
+      data: {
+        version: 1,
+        maxRiskDelta: 20,
+        fallbackFeedback: expect.any(String),
+        fallbackSuggestion: expect.any(String),
+        rules: [{ id: "a", stop: false }],
+      },
+    });
+  });
+
+  it.each([
+    ["a non-object", null, "Scoring rules must be a JSON object"],
+    ["missing rules", { version: 1 }, "rules must be a list"],
+    ["a rule without id", { rules: [{ riskDelta: 1 }] }, "rules[0].id must be a non-empty string"],
+    ["duplicate ids", { rules: [{ id: "a" }, { id: "a" }] }, 'Duplicate rule id "a"'],
+    ["an unknown flag", { rules: [{ id: "a", flag: "Too Pink" }] }, "rules[0].flag must be one of"],
+    ["a non-numeric riskDelta", { rules: [{ id: "a", riskDelta: "5" }] }, "rules[0].riskDelta must be a number"],
+    ["appliesTo that is not a list", { rules: [{ id: "a", appliesTo: "Opening" }] }, "rules[0].appliesTo must be a list"],
+    ["an invalid regex", { rules: [{ id: "a", when: { regex: "(" } }] }, "rules[0].when.regex is not a valid"],
+    ["empty keywords", { rules: [{ id: "a", when: { keywords: [""] } }] }, "rules[0].when.keywords must be"],
+    ["a negative length", { rules: [{ id: "a", when: { minLength: -1 } }] }, "rules[0].when.minLength must be"],
+    [
+      "a bad nested matcher",
+      { rules: [{ id: "a", when: { any: [{ keywords: ["x"] }, { not: { regex: 5 } }] } }] },
+      "rules[0].when.any[1].not.regex must be a string",
+    ],
+  ])("rejects %s", (_, raw, error) => {
+    const result = validateScoringRules(raw);
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.error).toContain(error);
+  });
+});
@@ -0,0 +1,241 @@
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import { RISK_FLAGS, type RiskContribution, type RiskFlag, type SectionFeedback, type SectionRole } from "@/app/types";
+
+/**
+ * Declarative offline scoring, used when the model is unavailable.
+ * Rules live in config/scoring-rules.json (override with INTAKE_SCORING_RULES) and are read on every call.
+ * `scoreWithRules` is pure, so a rule set can be checked against sample answers without a server.
+ */
+
+/** All conditions present must hold */
+export interface RuleMatcher {
+  /** Any of these, case-insensitive substring match */
+  keywords?: string[];
+  /** Case-insensitive regular expression */
+  regex?: string;
+  /** Bounds on the trimmed answer length, inclusive */
+  minLength?: number;
+  maxLength?: number;
+  /** Match keywords/regex against the answer plus supporting-document excerpts */
+  includeDocuments?: boolean;
+  not?: RuleMatcher;
+  all?: RuleMatcher[];
+  any?: RuleMatcher[];
+}
+
+export interface ScoringRule {
+  id: string;
+  /** "Opening", section ids or "role:<role>"; omitted means every content section (not the opening) */
+  appliesTo?: string[];
+  /** Same syntax as appliesTo, checked after it */
+  except?: string[];
+  /** Omitted means the rule always fires in scope */
+  when?: RuleMatcher;
+  flag?: RiskFlag;
+  riskDelta?: number;
+  feedback?: string;
+  suggestion?: string;
+  /** Skip the remaining rules once this one fires */
+  stop?: boolean;
+}
+
+export interface ScoringRuleSet {
+  version: number;
+  /** Cap on the summed delta for one section */
+  maxRiskDelta: number;
+  fallbackFeedback: string;
+  fallbackSuggestion: string;
+  rules: ScoringRule[];
+}
+
+export interface ScoringInput {
+  section: string;
+  role?: SectionRole;
+  input: string;
+  documentContext?: string;
+}
+
+export function getScoringRulesPath(): string {
+  const configured = process.env.INTAKE_SCORING_RULES?.trim();
+  return configured ? path.resolve(configured) : path.join(process.cwd(), "config", "scoring-rules.json");
+}
+
+function validateMatcher(raw: unknown, where: string): string | null {
+  const m = raw as RuleMatcher | null;
+  if (!m || typeof m !== "object" || Array.isArray(m)) return `${where} must be an object`;
+  if (m.keywords !== undefined && !(Array.isArray(m.keywords) && m.keywords.every((k) => typeof k === "string" && k))) {
+    return `${where}.keywords must be a list of non-empty strings`;
+  }
+  if (m.regex !== undefined) {
+    if (typeof m.regex !== "string") return `${where}.regex must be a string`;
+    try {
+      new RegExp(m.regex, "i");
+    } catch {
+      return `${where}.regex is not a valid regular expression`;
+    }
+  }
+  for (const key of ["minLength", "maxLength"] as const) {
+    if (m[key] !== undefined && (typeof m[key] !== "number" || m[key]! < 0)) return `${where}.${key} must be a non-negative number`;
+  }
+  if (m.not !== undefined) {
+    const error = validateMatcher(m.not, `${where}.not`);
+    if (error) return error;
+  }
+  for (const key of ["all", "any"] as const) {
+    const list = m[key];
+    if (list === undefined) continue;
+    if (!Array.isArray(list)) return `${where}.${key} must be a list`;
+    for (let i = 0; i < list.length; i++) {
+      const error = validateMatcher(list[i], `${where}.${key}[${i}]`);
+      if (error) return error;
+    }
+  }
+  return null;
+}
+
+function validateRule(raw: unknown, index: number): { ok: true; data: ScoringRule } | { ok: false; error: string } {
+  const r = raw as ScoringRule | null;
+  const where = `rules[${index}]`;
+  if (!r || typeof r !== "object") return { ok: false, error: `${where} must be an object` };
+  if (typeof r.id !== "string" || !r.id.trim()) return { ok: false, error: `${where}.id must be a non-empty string` };
+  for (const key of ["appliesTo", "except"] as const) {
+    const list = r[key];
+    if (list !== undefined && !(Array.isArray(list) && list.every((s) => typeof s === "string"))) {
+      return { ok: false, error: `${where}.${key} must be a list of strings` };
+    }
+  }
+  if (r.when !== undefined) {
+    const error = validateMatcher(r.when, `${where}.when`);
+    if (error) return { ok: false, error };
+  }
+  if (r.flag !== undefined && !(RISK_FLAGS as readonly string[]).includes(r.flag)) {
+    return { ok: false, error: `${where}.flag must be one of ${RISK_FLAGS.join(", ")}` };
+  }
+  if (r.riskDelta !== undefined && typeof r.riskDelta !== "number") return { ok: false, error: `${where}.riskDelta must be a number` };
+  if ((r.feedback !== undefined && typeof r.feedback !== "string") || (r.suggestion !== undefined && typeof r.suggestion !== "string")) {
+    return { ok: false, error: `${where}: feedback and suggestion must be strings` };
+  }
+  return { ok: true, data: { ...r, stop: r.stop === true } };
+}
+
+export function validateScoringRules(raw: unknown): { ok: true; data: ScoringRuleSet } | { ok: false; error: string } {
+  const d = raw as Partial<ScoringRuleSet> | null;
+  if (!d || typeof d !== "object") return { ok: false, error: "Scoring rules must be a JSON object" };
+  if (!Array.isArray(d.rules)) return { ok: false, error: "rules must be a list" };
+  const rules: ScoringRule[] = [];
+  for (let i = 0; i < d.rules.length; i++) {
+    const result = validateRule(d.rules[i], i);
+    if (!result.ok) return result;
+    if (rules.some((r) => r.id === result.data.id)) return { ok: false, error: `Duplicate rule id "${result.data.id}"` };
+    rules.push(result.data);
+  }
+  return {
+    ok: true,
+    data: {
+      version: typeof d.version === "number" ? d.version : 1,
+      maxRiskDelta: typeof d.maxRiskDelta === "number" ? d.maxRiskDelta : 20,
+      fallbackFeedback:
+        typeof d.fallbackFeedback === "string"
+          ? d.fallbackFeedback
+          : "Thanks for sharing. Consider adding more detail to strengthen this section.",
+      fallbackSuggestion:
+        typeof d.fallbackSuggestion === "string" ? d.fallbackSuggestion : "Review section guidelines and add specifics.",
+      rules,
+    },
+  };
+}
+
+export async function loadScoringRules(): Promise<ScoringRuleSet> {
+  const file = getScoringRulesPath();
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await fs.readFile(file, "utf8"));
+  } catch (e) {
+    throw new Error(`Could not read scoring rules at ${file}: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  const result = validateScoringRules(raw);
+  if (!result.ok) throw new Error(`Invalid scoring rules (${file}): ${result.error}`);
+  return result.data;
+}
+
+function matchesScope(entry: string, { section, role }: ScoringInput): boolean {
+  return entry.startsWith("role:") ? role !== undefined && entry.slice(5) === role : entry === section;
+}
+
+function inScope(rule: ScoringRule, input: ScoringInput): boolean {
+  const included = rule.appliesTo
+    ? rule.appliesTo.some((entry) => matchesScope(entry, input))
+    : input.section !== "Opening";
+  return included && !(rule.except ?? []).some((entry) => matchesScope(entry, input));
+}
+
+export function matches(matcher: RuleMatcher, input: ScoringInput): boolean {
+  const text = input.input.trim();
+  const searched = matcher.includeDocuments && input.documentContext ? `${text}\n${input.documentContext}` : text;
+  if (matcher.keywords) {
+    const lower = searched.toLowerCase();
+    if (!matcher.keywords.some((k) => lower.includes(k.toLowerCase()))) return false;
+  }
+  if (matcher.regex !== undefined && !new RegExp(matcher.regex, "i").test(searched)) return false;
+  if (matcher.minLength !== undefined && text.length < matcher.minLength) return false;
+  if (matcher.maxLength !== undefined && text.length > matcher.maxLength) return false;
+  if (matcher.not && matches(matcher.not, input)) return false;
+  if (matcher.all && !matcher.all.every((m) => matches(m, input))) return false;
+  if (matcher.any && !matcher.any.some((m) => matches(m, input))) return false;
+  return true;
+}
+
+/** Run the rules in order and combine the ones that fire into section feedback */
+export function scoreWithRules(ruleSet: ScoringRuleSet, input: ScoringInput): Omit<SectionFeedback, "section"> {
+  const feedback: string[] = [];
+  const suggestedImprovements: string[] = [];
+  const flags: RiskFlag[] = [];
+  const contributions: RiskContribution[] = [];
+  let riskDelta = 0;
+
+  for (const rule of ruleSet.rules) {
+    if (!inScope(rule, input) || (rule.when && !matches(rule.when, input))) continue;
+    if (rule.feedback) feedback.push(rule.feedback);
+    if (rule.suggestion && !suggestedImprovements.includes(rule.suggestion)) suggestedImprovements.push(rule.suggestion);
+    if (rule.flag && !flags.includes(rule.flag)) flags.push(rule.flag);
+    riskDelta += rule.riskDelta ?? 0;
+    if (rule.riskDelta || rule.flag) {
+      contributions.push({
+        section: input.section,
+        kind: "rule",
+        ruleId: rule.id,
+        delta: rule.riskDelta ?? 0,
+        reason: rule.feedback ?? rule.suggestion ?? rule.id,
+        flags: rule.flag ? [rule.flag] : [],
+        source: "placeholder",
+      });
+    }
+    if (rule.stop) break;
+  }
+
+  if (riskDelta > ruleSet.maxRiskDelta) {
+    contributions.push({
+      section: input.section,
+      kind: "rule",
+      ruleId: "maxRiskDelta",
+      delta: ruleSet.maxRiskDelta - riskDelta,
+      reason: `Section total capped at ${ruleSet.maxRiskDelta}.`,
+      flags: [],
+      source: "placeholder",
+    });
+  }
+
+  if (suggestedImprovements.length === 0 && input.section !== "Opening") {
+    suggestedImprovements.push(ruleSet.fallbackSuggestion);
+  }
+
+  return {
+    feedback: feedback.join(" ") || ruleSet.fallbackFeedback,
+    suggestedImprovements,
+    riskDelta: Math.min(ruleSet.maxRiskDelta, riskDelta),
+    flags,
+    contributions,
+    source: "placeholder",
+  };
+}
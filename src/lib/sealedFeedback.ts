@@ -0,0 +1,74 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "node:crypto";
+import type { AnySectionKey, CoachingFeedback, IntakeSubmission, SectionFeedback, SessionUser } from "@/app/types";
+import { canSeeRisk, getAuthSecret } from "@/lib/auth";
+import { usableDocumentIds } from "@/lib/documentText";
+import { evaluateSection } from "@/lib/sectionEvaluation";
+
+/**
+ * Section evaluations travel through the browser (wizard state, drafts, submission), but requesters must not see
+ * their risk details and nobody should be able to edit them. Each evaluation is sealed with AES-256-GCM, bound to
+ * the answer it scored; on submission the server opens the seals and re-evaluates any answer without a valid one.
+ */
+
+function sealKey(): Buffer {
+  return createHash("sha256").update(`${getAuthSecret()}:sealed-feedback`).digest();
+}
+
+function answerHash(section: AnySectionKey, input: string): string {
+  return createHash("sha256").update(`${section}\n${input.trim()}`).digest("base64url");
+}
+
+export function sealFeedback(feedback: SectionFeedback, input: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", sealKey(), iv);
+  const payload = JSON.stringify({ answer: answerHash(feedback.section, input), feedback });
+  const encrypted = Buffer.concat([cipher.update(payload, "utf8"), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString("base64url");
+}
+
+/** The sealed evaluation, or null if it was tampered with or scored a different answer */
+function openSealedFeedback(sealed: string, section: AnySectionKey, input: string): SectionFeedback | null {
+  try {
+    const data = Buffer.from(sealed, "base64url");
+    const decipher = createDecipheriv("aes-256-gcm", sealKey(), data.subarray(0, 12));
+    decipher.setAuthTag(data.subarray(12, 28));
+    const payload = JSON.parse(Buffer.concat([decipher.update(data.subarray(28)), decipher.final()]).toString("utf8")) as {
+      answer: string;
+      feedback: SectionFeedback;
+    };
+    return payload.answer === answerHash(section, input) && payload.feedback.section === section ? payload.feedback : null;
+  } catch {
+    return null;
+  }
+}
+
+/** What the wizard receives: coaching for everyone, risk fields for reviewers, and the sealed full evaluation */
+export function toCoachingFeedback(feedback: SectionFeedback, input: string, user: SessionUser): CoachingFeedback {
+  const sealed = sealFeedback(feedback, input);
+  if (canSeeRisk(user)) return { ...feedback, sealed };
+  const coaching: CoachingFeedback = { ...feedback, sealed };
+  delete coaching.riskDelta;
+  delete coaching.flags;
+  delete coaching.contributions;
+  return coaching;
+}
+
+/**
+ * Trusted evaluations for every answered section of a submission, in the order they were answered. Only the
+ * supporting documents `user` may read go into re-evaluation prompts.
+ */
+export async function resolveSubmittedFeedbacks(
+  submission: IntakeSubmission,
+  user: SessionUser
+): Promise<SectionFeedback[]> {
+  const documentIds = await usableDocumentIds(submission.summary.supporting_documents ?? [], user);
+  const answers: [AnySectionKey, string][] = [["Opening", submission.opening], ...Object.entries(submission.sectionValues)];
+  const feedbacks: SectionFeedback[] = [];
+  for (const [section, text] of answers) {
+    if (!text.trim()) continue;
+    const sealed = submission.feedbacks.find((f) => f.section === section)?.sealed;
+    const feedback = (sealed && openSealedFeedback(sealed, section, text)) || (await evaluateSection(section, text, documentIds));
+    if (feedback) feedbacks.push(feedback);
+  }
+  return feedbacks;
+}
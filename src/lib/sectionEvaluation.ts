@@ -0,0 +1,129 @@
+import { RISK_FLAGS, type IntakeFormDefinition, type SectionFeedback } from "@/app/types";
+import {
+  chatCompletionJson,
+  defineResponseSchema,
+  getProviderName,
+  readPartialJsonStrings,
+  type PartialFieldsHandler,
+} from "@/lib/llm";
+import { DOCUMENT_CONTEXT_INSTRUCTION, getDocumentContext } from "@/lib/documentText";
+import { loadFormDefinition } from "@/lib/formDefinition";
+import { findSection } from "@/lib/formSections";
+import { resolvePrompt, type ResolvedPrompt } from "@/lib/prompts";
+import { loadScoringRules, scoreWithRules } from "@/lib/scoringRules";
+
+/** Section coaching shared by /api/evaluate-section and clarification answers: the model first, offline rules as fallback */
+
+/** The registry's evaluation prompt plus the opening's or section's coaching guidance from the form definition */
+async function getSystemPrompt(form: IntakeFormDefinition, section: string): Promise<ResolvedPrompt> {
+  const prompt = await resolvePrompt("evaluate-section");
+  const guidance = section === "Opening" ? form.opening.coachingGuidance : findSection(form, section)?.coachingGuidance;
+  return guidance ? { ...prompt, text: `${prompt.text}\n\n${guidance}` } : prompt;
+}
+
+type ModelEvaluation = {
+  feedback: string;
+  suggestedImprovements: string[];
+  riskDelta: number;
+  riskReason: string;
+  flags: (typeof RISK_FLAGS)[number][];
+};
+
+const EVALUATION_SCHEMA = defineResponseSchema<ModelEvaluation>("section_evaluation", {
+  type: "object",
+  properties: {
+    feedback: { type: "string" },
+    suggestedImprovements: { type: "array", items: { type: "string" } },
+    riskDelta: { type: "number", description: "-10 to +25" },
+    riskReason: { type: "string" },
+    flags: { type: "array", items: { type: "string", enum: RISK_FLAGS } },
+  },
+});
+
+async function evaluateWithModel(
+  form: IntakeFormDefinition,
+  section: string,
+  input: string,
+  documentContext: string,
+  onProgress?: PartialFieldsHandler
+): Promise<{ ok: true; data: Omit<SectionFeedback, "section"> } | { ok: false; error: string }> {
+  let userMessage = `Section: ${section}\n\nUser response:\n${input}`;
+  const prompt = await getSystemPrompt(form, section);
+  let systemPrompt = prompt.text;
+  if (documentContext) {
+    userMessage += `\n\nSupporting documents:\n${documentContext}`;
+    systemPrompt += `\n\n${DOCUMENT_CONTEXT_INSTRUCTION}`;
+  }
+
+  const messages = [
+    { role: "system" as const, content: systemPrompt },
+    { role: "user" as const, content: userMessage },
+  ];
+  const result = await chatCompletionJson(
+    "evaluate-section",
+    messages,
+    EVALUATION_SCHEMA,
+    {
+      onContent: onProgress && ((content) => onProgress(readPartialJsonStrings(content, ["feedback"]))),
+      promptVersion: prompt.ref.version,
+    }
+  );
+  if (!result.ok) return result;
+  const { feedback, suggestedImprovements, riskDelta, riskReason, flags } = result.data;
+
+  const clampedDelta = Math.min(25, Math.max(-10, riskDelta));
+  return {
+    ok: true,
+    data: {
+      feedback,
+      suggestedImprovements: suggestedImprovements.length > 0 ? suggestedImprovements : ["Review section guidelines and add specifics."],
+      riskDelta: clampedDelta,
+      flags,
+      contributions: [
+        {
+          section,
+          kind: "llm",
+          delta: clampedDelta,
+          reason: riskReason.trim() || feedback,
+          flags,
+          source: "openai",
+        },
+      ],
+      source: "openai",
+      prompt: prompt.ref,
+    },
+  };
+}
+
+/**
+ * Evaluate one answer against its section. Falls back to the offline scoring rules (with openaiError set)
+ * when the model fails. Returns null for a section the form definition does not know.
+ * With `onProgress` the model reply is streamed and the feedback text reported as it arrives.
+ */
+export async function evaluateSection(
+  section: string,
+  input: string,
+  documentIds: string[],
+  onProgress?: PartialFieldsHandler
+): Promise<SectionFeedback | null> {
+  const form = await loadFormDefinition();
+  const sectionDef = section === "Opening" ? undefined : findSection(form, section);
+  if (section !== "Opening" && !sectionDef) return null;
+
+  const documentContext = await getDocumentContext(documentIds, `${section}\n${input}`);
+
+  // Try the model first; if it fails, use placeholder and include why (for testing)
+  const result = await evaluateWithModel(form, section, input, documentContext, onProgress);
+
+  if (result.ok) return { section, ...result.data };
+
+  // Model failed: use placeholder but include the error so you can see why (for testing)
+  console.error(`[evaluate-section] model failed for ${section} (${getProviderName()}), using placeholder:`, result.error);
+  const fallback = scoreWithRules(await loadScoringRules(), {
+    section,
+    role: sectionDef?.role,
+    input,
+    documentContext,
+  });
+  return { section, ...fallback, openaiError: result.error };
+}
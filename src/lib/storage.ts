@@ -0,0 +1,93 @@
+import { randomUUID } from "node:crypto";
+import { promises as fs } from "node:fs";
+import path from "node:path";
+
+/**
+ * Root directory for everything the app persists locally (intakes, drafts, uploads…).
+ * Override with INTAKE_DATA_DIR; defaults to ./data next to package.json.
+ */
+export function getDataDir(): string {
+  const configured = process.env.INTAKE_DATA_DIR?.trim();
+  return configured ? path.resolve(configured) : path.join(process.cwd(), "data");
+}
+
+/** Resolve a collection directory (e.g. "intakes") under the data dir, creating it if needed. */
+export async function ensureCollectionDir(collection: string): Promise<string> {
+  const dir = path.join(getDataDir(), collection);
+  await fs.mkdir(dir, { recursive: true });
+  return dir;
+}
+
+/** Record ids become file names, so only allow a safe character set. */
+export function isValidRecordId(id: string): boolean {
+  return /^[A-Za-z0-9_-]{1,100}$/.test(id);
+}
+
+export async function readRecord<T>(collection: string, id: string): Promise<T | null> {
+  if (!isValidRecordId(id)) return null;
+  const dir = await ensureCollectionDir(collection);
+  try {
+    const raw = await fs.readFile(path.join(dir, `${id}.json`), "utf8");
+    return JSON.parse(raw) as T;
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw e;
+  }
+}
+
+/** Write via temp file + rename so a crash mid-write never leaves a half-written record. */
+export async function writeRecord<T>(collection: string, id: string, record: T): Promise<void> {
+  if (!isValidRecordId(id)) throw new Error(`Invalid record id: ${id}`);
+  const dir = await ensureCollectionDir(collection);
+  const target = path.join(dir, `${id}.json`);
+  // Unique per call: concurrent writes of the same record must not share a temp file
+  const tmp = `${target}.${process.pid}.${randomUUID()}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(record, null, 2), "utf8");
+  await fs.rename(tmp, target);
+}
+
+export async function deleteRecord(collection: string, id: string): Promise<boolean> {
+  if (!isValidRecordId(id)) return false;
+  const dir = await ensureCollectionDir(collection);
+  try {
+    await fs.unlink(path.join(dir, `${id}.json`));
+    return true;
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") return false;
+    throw e;
+  }
+}
+
+export async function listRecords<T>(collection: string): Promise<T[]> {
+  const dir = await ensureCollectionDir(collection);
+  const files = (await fs.readdir(dir)).filter((f) => f.endsWith(".json"));
+  const records = await Promise.all(
+    files.map(async (f) => {
+      try {
+        return JSON.parse(await fs.readFile(path.join(dir, f), "utf8")) as T;
+      } catch (e) {
+        console.error(`[storage] skipping unreadable record ${collection}/${f}:`, e);
+        return null;
+      }
+    })
+  );
+  return records.filter((r): r is Awaited<T> => r !== null) as T[];
+}
+
+/** Store raw bytes (e.g. an uploaded file) under a collection, keyed by record id. */
+export async function writeBlob(collection: string, id: string, data: Buffer): Promise<void> {
+  if (!isValidRecordId(id)) throw new Error(`Invalid record id: ${id}`);
+  const dir = await ensureCollectionDir(collection);
+  await fs.writeFile(path.join(dir, `${id}.bin`), data);
+}
+
+export async function readBlob(collection: string, id: string): Promise<Buffer | null> {
+  if (!isValidRecordId(id)) return null;
+  const dir = await ensureCollectionDir(collection);
+  try {
+    return await fs.readFile(path.join(dir, `${id}.bin`));
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw e;
+  }
+}
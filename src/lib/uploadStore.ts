@@ -0,0 +1,58 @@
+import { randomUUID } from "node:crypto";
+import type { UploadedDocument } from "@/app/types";
+import { readBlob, readRecord, writeBlob, writeRecord } from "@/lib/storage";
+
+const COLLECTION = "uploads";
+const BLOB_COLLECTION = "upload-files";
+
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+export const MAX_FILES_PER_REQUEST = 10;
+
+/** Extensions requesters typically attach: briefs, PRDs, decks, spreadsheets, screenshots */
+export const ALLOWED_EXTENSIONS = [
+  ".pdf",
+  ".docx",
+  ".doc",
+  ".md",
+  ".txt",
+  ".pptx",
+  ".xlsx",
+  ".csv",
+  ".png",
+  ".jpg",
+  ".jpeg",
+  ".gif",
+];
+
+export function isAllowedFileName(fileName: string): boolean {
+  const lower = fileName.toLowerCase();
+  return ALLOWED_EXTENSIONS.some((ext) => lower.endsWith(ext));
+}
+
+export async function saveUpload(
+  fileName: string,
+  contentType: string,
+  data: Buffer,
+  ownerId: string
+): Promise<UploadedDocument> {
+  const doc: UploadedDocument = {
+    id: randomUUID(),
+    // Keep only the base name; browsers may send a path on some platforms
+    fileName: fileName.split(/[\\/]/).pop()?.slice(0, 200) || "file",
+    contentType: contentType || "application/octet-stream",
+    size: data.length,
+    uploadedAt: new Date().toISOString(),
+    ownerId,
+  };
+  await writeBlob(BLOB_COLLECTION, doc.id, data);
+  await writeRecord(COLLECTION, doc.id, doc);
+  return doc;
+}
+
+export async function getUpload(id: string): Promise<UploadedDocument | null> {
+  return readRecord<UploadedDocument>(COLLECTION, id);
+}
+
+export async function getUploadContent(id: string): Promise<Buffer | null> {
+  return readBlob(BLOB_COLLECTION, id);
+}